@@ -5,18 +5,39 @@ import History from './components/History';
 import MusicPlayer from './components/MusicPlayer';
 import GlobalMusicIframe from './components/GlobalMusicIframe';
 import SettingsPanel from './components/SettingsPanel';
+import RecoveryDialog from './components/RecoveryDialog';
+import StorageHealthMonitor from './components/StorageHealthMonitor';
+import KeyboardShortcuts from './components/KeyboardShortcuts';
+import CommandPalette from './components/CommandPalette';
 import { useLocalStorage } from './hooks/useLocalStorage';
+import { useSettings } from './hooks/useSettings';
 import { useTimer } from './hooks/useTimer';
 import { useTasks } from './hooks/useTasks';
+import { useSessions } from './hooks/useSessions';
+import { useProjects } from './hooks/useProjects';
 import { useTheme } from './hooks/useTheme';
 import { useMusicPlayer } from './hooks/useMusicPlayer';
 import { getAccentHex } from './utils/colorSystem';
+import { findActiveProfile } from './utils/settingsProfiles';
 import { runStorageCleanup } from './utils/storageCleanup';
+import { waitForSessionWrites } from './utils/sessionStore';
+import { STORAGE_KEYS } from './utils/constants';
 import { formatTime } from './utils/timeUtils';
+import { isWorkSession } from './utils/sessionUtils';
 
+import type { ShortcutAction } from './utils/shortcuts';
 import { ColorSystemProvider, useColorSystemContext } from './contexts/ColorSystemContext';
 import { NotificationProvider } from './contexts/NotificationContext';
 
+/**
+ * TaskStatus
+ * Task lifecycle:
+ * - 'active': in the task list, carried over from day to day
+ * - 'completed': done; stays visible (struck through) for the rest of the day
+ * - 'archived': hidden from the task list; sessions and history are kept
+ */
+export type TaskStatus = 'active' | 'completed' | 'archived';
+
 /**
  * Task
  * A single work item tracked by the app.
@@ -28,21 +49,85 @@ export interface Task {
   name: string;
   /** Total accumulated seconds across all time (persisted) */
   timeSpent: number;
-  /** Optional goal in seconds for today's progress bar */
+  /** Optional daily goal in seconds; progress is measured from today's sessions */
   estimatedTime?: number;
   /** ISO creation timestamp */
   createdAt: string;
+  /** Owning project id; missing when the task has no project */
+  projectId?: string;
+  /** Lowercase tags without the leading '#' */
+  tags?: string[];
+  /** Lifecycle status; missing on legacy tasks, which are active */
+  status?: TaskStatus;
+  /** ISO timestamp when the task was completed */
+  completedAt?: string;
+  /** ISO timestamp when the task was archived */
+  archivedAt?: string;
+  /** Settings profile applied when the task is selected */
+  profileId?: string;
+  /** Checklist, in display order */
+  subtasks?: Subtask[];
 }
 
+/**
+ * Subtask
+ * One checklist item of a task. completedAt is set while it is ticked off; sessions
+ * running at that moment record it (see Session.completedSubtasks).
+ */
+export interface Subtask {
+  id: string;
+  title: string;
+  done: boolean;
+  /** ISO timestamp when it was ticked off; cleared when unticked */
+  completedAt?: string;
+}
+
+/**
+ * CompletedSubtask
+ * A subtask as recorded on the session it was ticked off in. Titles are copied so
+ * History still shows them after the checklist changes.
+ */
+export interface CompletedSubtask {
+  title: string;
+  /** ISO timestamp */
+  completedAt: string;
+}
+
+/**
+ * Project
+ * A named group of tasks. Color is an accent token from the color system palette.
+ */
+export interface Project {
+  id: string;
+  name: string;
+  /** Accent color value (e.g. 'blue-500' or a custom accent value) */
+  color: string;
+  /** ISO creation timestamp */
+  createdAt: string;
+}
+
+/**
+ * SessionKind
+ * What a recorded session represents:
+ * - 'work': focused work (stopped Flow/Timer session or completed Pomodoro)
+ * - 'break': a break that ran to completion
+ * - 'skipped-break': a break ended early via skip (duration = rest actually taken)
+ * - 'interrupted': a Pomodoro stopped before completion (duration = time worked)
+ */
+export type SessionKind = 'work' | 'break' | 'skipped-break' | 'interrupted';
+
 /**
  * Session
- * An atomic period of work recorded when stopping the timer.
+ * An atomic period of work or rest recorded by the timer.
  */
 export interface Session {
   id: string;
+  /** Session kind; missing on legacy sessions, which are work */
+  kind?: SessionKind;
+  /** Task id for work sessions; empty for breaks */
   taskId: string;
   taskName: string;
-  /** Worked duration in seconds */
+  /** Worked (or rested, for breaks) duration in seconds */
   duration: number;
   /** Human-readable date key (Date.toDateString) for grouping */
   date: string;
@@ -50,65 +135,176 @@ export interface Session {
   startTime?: string;
   /** ISO timestamp when session ended */
   endTime?: string;
+  /** Seconds the session spent paused (excluded from duration) */
+  pausedDuration?: number;
+  /** Project of the task at the time the session was recorded */
+  projectId?: string;
+  /** Tags of the task at the time the session was recorded */
+  tags?: string[];
+  /** Seconds worked past a Timer mode countdown; the last part of duration, already counted in it */
+  overtime?: number;
+  /** Subtasks of the task ticked off during the session, in completion order */
+  completedSubtasks?: CompletedSubtask[];
+}
+
+/**
+ * FlowBreakTier
+ * One step of the tiered Flow break rule: sessions shorter than underMinutes get breakMinutes.
+ */
+export interface FlowBreakTier {
+  underMinutes: number;
+  breakMinutes: number;
+}
+
+/**
+ * PomodoroStep
+ * One interval of a custom Pomodoro sequence (settings.pomodoroSequence).
+ */
+export interface PomodoroStep {
+  kind: 'work' | 'break' | 'long-break';
+  minutes: number;
+  /** Shown in the timer and used as the name of recorded breaks */
+  label?: string;
+  /** Sound id (utils/soundManager) played when the step starts on its own; the default alert otherwise */
+  sound?: string;
 }
 
 /**
  * Settings
  * User preferences controlling notifications, theme, and visuals.
+ * Stored under 'flow-settings' and always read through the settings schema
+ * (utils/settingsSchema), so every field is present and valid.
  */
 export interface Settings {
+  /** Schema version of the stored entry (see SETTINGS_VERSION) */
+  version: number;
   visualNotifications: boolean;
   audioNotifications: boolean;
   /** Sound volume (0-1) */
-  soundVolume?: number;
+  soundVolume: number;
   /** Selected notification sound ID */
-  notificationSound?: string;
+  notificationSound: string;
   theme: 'light' | 'dark';
   /** Accent color token; tailwind-safe mapping is applied in components */
   accentColor: string;
   /** When true, disables card shadows (flat surfaces) */
-  flatMode?: boolean;
+  flatMode: boolean;
   /** When true, timer surface adopts accent background */
-  colorTimer?: boolean;
+  colorTimer: boolean;
   /** When true, shows tasks panel */
-  showTasks?: boolean;
+  showTasks: boolean;
   /** When true and tasks are enabled, requires task selection to start timer */
-  requireTaskSelection?: boolean;
+  requireTaskSelection: boolean;
   /** When true, shows music player controls and panel */
-  showMusicPlayer?: boolean;
+  showMusicPlayer: boolean;
   // Per-theme background choices (8 options each)
-  lightBg?: 'gray-50' | 'gray-100' | 'gray-200' | 'gray-300' | 'gray-400' | 'gray-500' | 'slate-100' | 'neutral-100';
-  darkBg?: 'gray-700' | 'gray-800' | 'gray-900' | 'gray-950' | 'slate-900' | 'neutral-900' | 'black' | 'neutral-950';
+  lightBg: 'gray-50' | 'gray-100' | 'gray-200' | 'gray-300' | 'gray-400' | 'gray-500' | 'slate-100' | 'neutral-100';
+  darkBg: 'gray-700' | 'gray-800' | 'gray-900' | 'gray-950' | 'slate-900' | 'neutral-900' | 'black' | 'neutral-950';
+  /** Layout: 'compact' = side-by-side, 'full' = stacked like mobile */
+  layout: 'compact' | 'full';
   
   // Timer mode settings
   /** Timer mode: 'flow' for Flowmodoro, 'pomodoro' for classic Pomodoro, 'timer' for simple timer */
-  timerMode?: 'flow' | 'pomodoro' | 'timer';
+  timerMode: 'flow' | 'pomodoro' | 'timer';
+  /** Timer mode counts down to a target instead of up */
+  timerCountdownEnabled: boolean;
+  /** Countdown target: timerCountdownMinutes, or what is left of the task's daily goal */
+  timerCountdownSource: 'fixed' | 'goal';
+  /** Countdown length in minutes (also used when the task has no goal left) */
+  timerCountdownMinutes: number;
+  /** Keep counting overtime past zero instead of finishing the session */
+  timerOvertimeEnabled: boolean;
   
   // Flow mode settings
   /** When true, enables break after work session in Flow mode */
-  flowBreakEnabled?: boolean;
-  /** Break calculation type: 'percentage' or 'fixed' */
-  flowBreakType?: 'percentage' | 'fixed';
-  /** Break percentage (10, 15, 20, 25) when using percentage type */
-  flowBreakPercentage?: 10 | 15 | 20 | 25;
+  flowBreakEnabled: boolean;
+  /** Break calculation rule (see utils/breakPolicy) */
+  flowBreakType: 'percentage' | 'fixed' | 'tiered';
+  /** Break as a percentage (1-100) of the time worked, for the percentage rule */
+  flowBreakPercentage: number;
   /** Fixed break duration in minutes (5, 10, 20, 30) when using fixed type */
-  flowBreakFixed?: 5 | 10 | 20 | 30;
- /** When true, allows skipping break after work session in Flow mode */
- flowBreakSkipEnabled?: boolean;
+  flowBreakFixed: 5 | 10 | 20 | 30;
+  /** Tiered rule: the first tier whose underMinutes exceeds the time worked sets the break */
+  flowBreakTiers: FlowBreakTier[];
+  /** Tiered rule: break in minutes for sessions longer than every tier */
+  flowBreakTierFallback: number;
+  /** Shortest break granted, in minutes (0 = no minimum) */
+  flowBreakMinMinutes: number;
+  /** Longest break granted, in minutes (0 = no maximum); banked time comes on top */
+  flowBreakMaxMinutes: number;
+  /** When true, break time left when a break is skipped is added to the next break */
+  flowBreakBankUnused: boolean;
+  /** When true, allows skipping break after work session in Flow mode */
+  flowBreakSkipEnabled: boolean;
   
   // Pomodoro mode settings
   /** Work session duration in minutes */
-  pomodoroWorkDuration?: number;
+  pomodoroWorkDuration: number;
   /** Break duration in minutes */
-  pomodoroBreakDuration?: number;
+  pomodoroBreakDuration: number;
   /** Number of sessions (1-8) */
-  pomodoroSessions?: number;
+  pomodoroSessions: number;
+  /** Long break duration in minutes */
+  pomodoroLongBreakDuration: number;
+  /** A long break follows every N-th session (and always the final one) */
+  pomodoroLongBreakInterval: number;
+  /** Run pomodoroSequence instead of the work/break/sessions settings above */
+  pomodoroSequenceEnabled: boolean;
+  /** Custom sequence of steps; always starts with a work step */
+  pomodoroSequence: PomodoroStep[];
+
+  /** Saved profiles; the active one is whichever matches the current settings */
+  profiles: SettingsProfile[];
+
+  /** Keyboard shortcut overrides; actions left out use their default binding, '' unbinds */
+  shortcuts: Partial<Record<ShortcutAction, string>>;
+}
+
+/**
+ * ProfileSettingKey
+ * Settings bundled by a profile: timer mode, break rules, notification sound and accent.
+ */
+export type ProfileSettingKey =
+  | 'timerMode'
+  | 'timerCountdownEnabled'
+  | 'timerCountdownSource'
+  | 'timerCountdownMinutes'
+  | 'timerOvertimeEnabled'
+  | 'flowBreakEnabled'
+  | 'flowBreakType'
+  | 'flowBreakPercentage'
+  | 'flowBreakFixed'
+  | 'flowBreakTiers'
+  | 'flowBreakTierFallback'
+  | 'flowBreakMinMinutes'
+  | 'flowBreakMaxMinutes'
+  | 'flowBreakBankUnused'
+  | 'flowBreakSkipEnabled'
+  | 'pomodoroWorkDuration'
+  | 'pomodoroBreakDuration'
+  | 'pomodoroSessions'
+  | 'pomodoroLongBreakDuration'
+  | 'pomodoroLongBreakInterval'
+  | 'pomodoroSequenceEnabled'
+  | 'pomodoroSequence'
+  | 'notificationSound'
+  | 'accentColor';
+
+/**
+ * SettingsProfile
+ * A named set of settings applied in one step (header switcher, or selecting a task
+ * that has the profile attached).
+ */
+export interface SettingsProfile {
+  id: string;
+  name: string;
+  settings: Pick<Settings, ProfileSettingKey>;
 }
 
 /**
  * App()
  * Composition root coordinating:
- * - State: settings (useLocalStorage), tasks (useTasks), timer (useTimer), sessions
+ * - State: settings (useSettings), tasks (useTasks), timer (useTimer), sessions (useSessions, IndexedDB)
  * - Layout: widget toggle and compact/full layout
  * - Overlays: History modal, Settings panel, optional MusicPlayer block
  */
@@ -117,35 +313,7 @@ function AppContent() {
   const [showHistory, setShowHistory] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [showMusicPlayer, setShowMusicPlayer] = useState(true);
-  // Layout: 'compact' = side-by-side, 'full' = stacked like mobile
-  // Backward compatibility: accept legacy values 'horizontal'/'vertical' and treat them as 'compact'/'full'
-  const [layoutRaw, setLayoutRaw] = useLocalStorage<'compact' | 'full' | 'horizontal' | 'vertical'>('flow-layout', 'compact');
-  const layout: 'compact' | 'full' = layoutRaw === 'horizontal' ? 'compact' : (layoutRaw === 'vertical' ? 'full' : (layoutRaw as 'compact' | 'full'));
-  const setLayout = (next: 'compact' | 'full') => setLayoutRaw(next);
-
-  const [settings, setSettings] = useLocalStorage<Settings>('flow-settings', {
-    visualNotifications: true,
-    audioNotifications: true,
-    theme: 'light',
-    accentColor: 'blue-500',
-    flatMode: false,
-    requireTaskSelection: true,
-    showMusicPlayer: true,
-    showTasks: true,
-    lightBg: 'gray-200',
-    darkBg: 'gray-700',
-    // Timer mode defaults
-    timerMode: 'flow',
-    // Flow mode defaults
-    flowBreakEnabled: true,
-    flowBreakType: 'percentage',
-    flowBreakPercentage: 20,
-    flowBreakFixed: 10,
-    // Pomodoro mode defaults
-    pomodoroWorkDuration: 25,
-    pomodoroBreakDuration: 5,
-    pomodoroSessions: 4,
-  });
+  const [settings, setSettings] = useSettings();
 
   const { theme, toggleTheme, accentColor } = useTheme(settings.theme, settings.accentColor);
   const colorSystem = useColorSystemContext();
@@ -153,7 +321,7 @@ function AppContent() {
   // Sync showMusicPlayer with settings
   useEffect(() => {
     console.log('App: Syncing showMusicPlayer with settings:', settings.showMusicPlayer);
-    setShowMusicPlayer(settings.showMusicPlayer ?? true);
+    setShowMusicPlayer(settings.showMusicPlayer);
   }, [settings.showMusicPlayer]);
 
   // Ensure UI re-renders immediately when theme toggles without page reload
@@ -169,46 +337,111 @@ function AppContent() {
 
   // (removed unused accentToBg map)
 
-  const [sessions, setSessions] = useLocalStorage<Session[]>('flow-sessions', []);
+  const { sessions, setSessions, isLoaded: sessionsLoaded } = useSessions();
   const [taskHistory, setTaskHistory] = useLocalStorage<string[]>('flow-task-history', []);
   
-  const { tasks, activeTask, addTask, deleteTask, setActiveTask } = useTasks();
+  const {
+    tasks,
+    activeTask,
+    addTask,
+    updateTask,
+    reorderTasks,
+    addSubtask,
+    toggleSubtask,
+    removeSubtask,
+    deleteTask,
+    setActiveTask,
+    completeTask,
+    reopenTask,
+    archiveTask,
+    archiveCompletedBefore,
+    removeArchivedBefore,
+    detachProject,
+    setTaskProfile,
+    detachProfile,
+    recomputeTimeSpent
+  } = useTasks();
+  const { projects, addProject, deleteProject } = useProjects();
   const { 
     time, 
     isRunning, 
     isBreak, 
+    isPaused,
+    breakType,
     startTimer, 
     stopTimer, 
+    pauseTimer,
+    resumeTimer,
     resetTimer, 
     skipBreak,
     estimatedBreakTime,
     currentSession,
-    totalSessions
+    totalSessions,
+    pomodoroSteps,
+    pomodoroStepIndex,
+    countdownTarget,
+    isOvertime,
+    recovery,
+    resolveRecovery
   } = useTimer(activeTask, tasks, sessions, setSessions, settings);
 
-  // Check for daily reset
+  // Current day key; advanced by a timer at local midnight so "today" views roll over while open
+  const [today, setToday] = useState(() => new Date().toDateString());
+
   useEffect(() => {
-    const lastResetDate = localStorage.getItem('flow-last-reset');
-    const today = new Date().toDateString();
-    
-    if (lastResetDate !== today) {
-      // Reset daily data but keep history
-      localStorage.setItem('flow-last-reset', today);
-      localStorage.removeItem('flow-tasks');
-      localStorage.removeItem('flow-active-task');
-      localStorage.removeItem('flow-timer-state');
-      window.location.reload();
-    } else {
-      // Run cleanup on app startup to fix orphaned references
-      runStorageCleanup();
-    }
+    const nextMidnight = new Date();
+    nextMidnight.setHours(24, 0, 0, 0);
+    const timeout = window.setTimeout(
+      () => setToday(new Date().toDateString()),
+      nextMidnight.getTime() - Date.now() + 1000
+    );
+    return () => window.clearTimeout(timeout);
+  }, [today]);
+
+  // Run cleanup on app startup to fix orphaned references
+  useEffect(() => {
+    runStorageCleanup();
   }, []);
 
-  const handleTaskAdd = (name: string, estimatedTime?: number) => {
+  // Day rollover: tasks, the active task and a running timer carry over;
+  // tasks completed on an earlier day are archived
+  useEffect(() => {
+    if (localStorage.getItem(STORAGE_KEYS.LAST_RESET) === today) return;
+    localStorage.setItem(STORAGE_KEYS.LAST_RESET, today);
+    archiveCompletedBefore(new Date(today));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [today]);
+
+  const handleTaskAdd = (name: string, estimatedTime?: number, projectId?: string, tags?: string[], profileId?: string) => {
     if (!taskHistory?.includes(name)) {
       setTaskHistory(prev => [...(prev || []), name]);
     }
-    addTask(name, estimatedTime);
+    addTask(name, estimatedTime, projectId, tags, profileId);
+  };
+
+  // A rename carries over to the task's past sessions and replaces the old name in the suggestions
+  const handleTaskUpdate = (id: string, changes: Partial<Omit<Task, 'id'>>) => {
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
+    updateTask(id, changes);
+
+    const name = changes.name;
+    if (name === undefined || name === task.name) return;
+    setSessions(prev => prev.some(session => session.taskId === id && session.taskName !== name)
+      ? prev.map(session => session.taskId === id ? { ...session, taskName: name } : session)
+      : prev
+    );
+    setTaskHistory(prev => {
+      const renamed = (prev || []).map(entry => entry === task.name ? name : entry);
+      const next = renamed.includes(name) ? renamed : [...renamed, name];
+      return next.filter((entry, index) => next.indexOf(entry) === index);
+    });
+  };
+
+  // Tasks of a deleted project stay, just without a project
+  const handleProjectDelete = (id: string) => {
+    deleteProject(id);
+    detachProject(id);
   };
 
   // Sync task history with existing tasks on app load
@@ -236,13 +469,77 @@ function AppContent() {
     setSettings(prev => ({ ...prev, ...newSettings }));
   };
 
+  const applyProfile = (profileId: string) => {
+    const profile = settings.profiles.find(p => p.id === profileId);
+    if (profile) updateSettings(profile.settings);
+  };
+
+  // Selecting a task switches to its profile (selection is locked while the timer runs)
+  const handleTaskSelect = (task: Task | null) => {
+    setActiveTask(task);
+    if (task?.profileId) applyProfile(task.profileId);
+  };
+
+  // Next/previous task shortcuts step through active tasks in the order TaskManager lists them
+  const selectAdjacentTask = (step: 1 | -1) => {
+    const active = tasks.filter(task => (task.status ?? 'active') === 'active');
+    const ordered = [
+      ...projects.flatMap(project => active.filter(task => task.projectId === project.id)),
+      ...active.filter(task => !task.projectId || !projects.some(p => p.id === task.projectId))
+    ];
+    if (ordered.length === 0) return;
+    const index = ordered.findIndex(task => task.id === activeTask?.id);
+    const next = index === -1
+      ? (step === 1 ? 0 : ordered.length - 1)
+      : (index + step + ordered.length) % ordered.length;
+    handleTaskSelect(ordered[next]);
+  };
+
+  const activeProfile = findActiveProfile(settings);
+  const layout = settings.layout;
+  const setLayout = (next: 'compact' | 'full') => updateSettings({ layout: next });
+
   const todaysSessions = (Array.isArray(sessions) ? sessions : []).filter(session =>
-    session.date === new Date().toDateString()
+    session.date === today && isWorkSession(session)
   );
 
   const todaysTime = todaysSessions.reduce((total, session) => total + session.duration, 0);
   // Music control for widget header
   const { isPlaying: musicPlaying, setPlaying: setMusicPlaying } = useMusicPlayer();
+
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+  // History opened from the command palette's "Open data management"
+  const [historyDataManager, setHistoryDataManager] = useState(false);
+  // Starting a task from the command palette selects it first; the timer starts once it is active
+  const [pendingStartTaskId, setPendingStartTaskId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!pendingStartTaskId || activeTask?.id !== pendingStartTaskId) return;
+    setPendingStartTaskId(null);
+    startTimer();
+  }, [pendingStartTaskId, activeTask, startTimer]);
+
+  const canSelectTask = settings.showTasks && !isRunning && !isPaused;
+  const canStartTimer = !settings.showTasks || !settings.requireTaskSelection || Boolean(activeTask);
+  // Same conditions as the matching Timer controls; unavailable actions have no handler
+  const shortcutHandlers: Partial<Record<ShortcutAction, () => void>> = {
+    startStop: isBreak
+      ? undefined
+      : isRunning || isPaused
+        ? stopTimer
+        : canStartTimer ? startTimer : undefined,
+    skipBreak: isBreak && settings.flowBreakSkipEnabled ? skipBreak : undefined,
+    reset: settings.timerMode === 'flow' && !isBreak && (isRunning || time > 0) ? resetTimer : undefined,
+    nextTask: canSelectTask ? () => selectAdjacentTask(1) : undefined,
+    previousTask: canSelectTask ? () => selectAdjacentTask(-1) : undefined,
+    toggleWidget: () => setIsWidget(prev => !prev),
+    openHistory: () => setShowHistory(prev => !prev),
+    toggleMusic: settings.showMusicPlayer ? () => setMusicPlaying(!musicPlaying) : undefined,
+    commandPalette: () => setShowCommandPalette(prev => !prev),
+    showShortcuts: () => setShowShortcuts(prev => !prev)
+  };
+
   // Global switch for card shadows: disabled in flatMode (ON => no shadows)
   const cardShadow = settings.flatMode ? '' : 'shadow-lg';
 
@@ -296,26 +593,31 @@ function AppContent() {
           setIsWidget={setIsWidget}
           todaysTime={todaysTime}
           isRunning={isRunning}
+          isPaused={isPaused}
+          isBreak={isBreak}
           theme={theme}
           accentColor={accentColor}
           showMusicPlayer={showMusicPlayer}
           setShowMusicPlayer={setShowMusicPlayer}
           musicPlaying={musicPlaying}
           setMusicPlaying={setMusicPlaying}
-          showTasks={settings.showTasks ?? true}
+          showTasks={settings.showTasks}
           layout={layout}
           setLayout={setLayout}
           toggleTheme={toggleTheme}
           showSettings={showSettings}
           setShowSettings={setShowSettings}
+          profiles={settings.profiles}
+          activeProfileId={activeProfile?.id ?? null}
+          onApplyProfile={applyProfile}
         />
 
                  {/* Music Player (global placement for full mode only) */}
-         <div className={`transition-height ${(settings.showMusicPlayer ?? true) && showMusicPlayer && !isWidget && layout !== 'compact' ? 'max-h-96 opacity-100 mb-6' : 'max-h-0 opacity-0'}`}
+         <div className={`transition-height ${settings.showMusicPlayer && showMusicPlayer && !isWidget && layout !== 'compact' ? 'max-h-96 opacity-100 mb-6' : 'max-h-0 opacity-0'}`}
               style={{
                 '--max-height': '24rem'
               } as React.CSSProperties}>
-           {(settings.showMusicPlayer ?? true) && showMusicPlayer && !isWidget && layout !== 'compact' && (
+           {settings.showMusicPlayer && showMusicPlayer && !isWidget && layout !== 'compact' && (
              <div className="animate-slide-in-up">
                <MusicPlayer theme={theme} />
              </div>
@@ -328,6 +630,8 @@ function AppContent() {
              <SettingsPanel
                settings={settings}
                onUpdateSettings={updateSettings}
+               onDeleteProfile={detachProfile}
+               onShowShortcuts={() => setShowShortcuts(true)}
                theme={theme}
              />
            </div>
@@ -345,29 +649,109 @@ function AppContent() {
           time={time}
           isRunning={isRunning}
           isBreak={isBreak}
+          isPaused={isPaused}
+          breakType={breakType}
           onStart={startTimer}
           onStop={stopTimer}
+          onPause={pauseTimer}
+          onResume={resumeTimer}
           onReset={resetTimer}
           onSkipBreak={skipBreak}
           activeTask={activeTask}
           estimatedBreakTime={estimatedBreakTime}
           currentSession={currentSession}
           totalSessions={totalSessions}
+          pomodoroSteps={pomodoroSteps}
+          pomodoroStepIndex={pomodoroStepIndex}
+          countdownTarget={countdownTarget}
+          isOvertime={isOvertime}
           tasks={tasks}
           onAddTask={handleTaskAdd}
           onDeleteTask={deleteTask}
-          onSelectTask={setActiveTask}
+          onCompleteTask={completeTask}
+          onReopenTask={reopenTask}
+          onArchiveTask={archiveTask}
+          onSelectTask={handleTaskSelect}
+          onSetTaskProfile={setTaskProfile}
+          onUpdateTask={handleTaskUpdate}
+          onReorderTasks={reorderTasks}
+          onAddSubtask={addSubtask}
+          onToggleSubtask={toggleSubtask}
+          onRemoveSubtask={removeSubtask}
+          projects={projects}
+          onAddProject={addProject}
+          onDeleteProject={handleProjectDelete}
           taskHistory={taskHistory}
           sessions={sessions}
           onShowHistory={() => setShowHistory(true)}
         />
 
+                 {/* Unfinished session recovered from the timer journal */}
+         {recovery && sessionsLoaded && (
+           <RecoveryDialog
+             recovery={recovery}
+             onResolve={resolveRecovery}
+             theme={theme}
+             accentColor={accentColor}
+           />
+         )}
+
+                 {/* Storage usage warnings and failed-write recovery */}
+         <StorageHealthMonitor
+           tasks={tasks}
+           onRemoveArchivedBefore={removeArchivedBefore}
+           theme={theme}
+           accentColor={accentColor}
+         />
+
+                 {/* Keyboard shortcuts and their cheat sheet */}
+         <KeyboardShortcuts
+           settings={settings}
+           handlers={shortcutHandlers}
+           showCheatSheet={showShortcuts}
+           onCloseCheatSheet={() => setShowShortcuts(false)}
+           theme={theme}
+           accentColor={accentColor}
+         />
+
+                 {/* Command palette (Ctrl+K by default) */}
+         {showCommandPalette && (
+           <CommandPalette
+             tasks={tasks}
+             taskHistory={taskHistory || []}
+             sessions={Array.isArray(sessions) ? sessions : []}
+             settings={settings}
+             isIdle={!isRunning && !isPaused && !isBreak}
+             onStartTask={(task) => {
+               handleTaskSelect(task);
+               setPendingStartTaskId(task.id);
+             }}
+             onAddTask={(name) => handleTaskAdd(name)}
+             onUpdateSettings={updateSettings}
+             onApplyProfile={applyProfile}
+             onOpenHistory={() => setShowHistory(true)}
+             onOpenDataManager={() => {
+               setHistoryDataManager(true);
+               setShowHistory(true);
+             }}
+             onOpenSettings={() => setShowSettings(true)}
+             onShowShortcuts={() => setShowShortcuts(true)}
+             onClose={() => setShowCommandPalette(false)}
+             theme={theme}
+             accentColor={accentColor}
+           />
+         )}
+
                  {/* History Modal */}
          {showHistory && (
            <History
              sessions={Array.isArray(sessions) ? sessions : []}
              tasks={tasks}
-             onClose={() => setShowHistory(false)}
+             projects={projects}
+             onClose={() => {
+               setShowHistory(false);
+               setHistoryDataManager(false);
+             }}
              onDeleteSession={(sessionId) => {
                setSessions(prev => prev.filter(s => s.id !== sessionId));
              }}
@@ -375,11 +759,16 @@ function AppContent() {
                setSessions(prev => prev.filter(s => s.date !== date));
              }}
              onUpdateSessions={setSessions}
+             onRecomputeTaskTime={recomputeTimeSpent}
              onUpdateTasks={(updatedTasks) => {
                // Update tasks via localStorage
                localStorage.setItem('flow-tasks', JSON.stringify(updatedTasks));
-               window.location.reload(); // Reload to update state
+               // Reload to update state, after pending useLocalStorage idle writes (<= 100ms)
+               // and session store writes have flushed
+               Promise.all([waitForSessionWrites(), new Promise(resolve => window.setTimeout(resolve, 200))])
+                 .then(() => window.location.reload());
              }}
+             initialDataManager={historyDataManager}
              theme={theme}
              accentColor={accentColor}
            />
@@ -1,5 +1,6 @@
 import React, { memo } from 'react';
-import { Play, Pause, Settings, Music, Moon, Sun, Minimize2, Maximize2, Layout, PanelTop } from 'lucide-react';
+import { Play, Pause, Settings, Music, Moon, Sun, Minimize2, Maximize2, Layout, PanelTop, SlidersHorizontal } from 'lucide-react';
+import type { SettingsProfile } from '../App';
 import { formatTime } from '../utils/timeUtils';
 import { getAccentHex } from '../utils/colorSystem';
 import { useColorSystemContext } from '../contexts/ColorSystemContext';
@@ -9,6 +10,9 @@ interface AppHeaderProps {
   setIsWidget: (value: boolean) => void;
   todaysTime: number;
   isRunning: boolean;
+  /** A paused work session or a break also lock the profile switcher */
+  isPaused: boolean;
+  isBreak: boolean;
   theme: 'light' | 'dark';
   accentColor: string;
   showMusicPlayer: boolean;
@@ -21,6 +25,10 @@ interface AppHeaderProps {
   toggleTheme: () => void;
   showSettings: boolean;
   setShowSettings: (value: boolean) => void;
+  /** Saved settings profiles and the one matching the current settings (null = custom) */
+  profiles: SettingsProfile[];
+  activeProfileId: string | null;
+  onApplyProfile: (profileId: string) => void;
 }
 
 const AppHeader: React.FC<AppHeaderProps> = memo(({
@@ -28,6 +36,8 @@ const AppHeader: React.FC<AppHeaderProps> = memo(({
   setIsWidget,
   todaysTime,
   isRunning,
+  isPaused,
+  isBreak,
   theme,
   accentColor,
   showMusicPlayer,
@@ -39,9 +49,14 @@ const AppHeader: React.FC<AppHeaderProps> = memo(({
   setLayout,
   toggleTheme,
   showSettings,
-  setShowSettings
+  setShowSettings,
+  profiles,
+  activeProfileId,
+  onApplyProfile
 }) => {
   const colorSystem = useColorSystemContext();
+  // Switching profiles mid-session could change the timer mode under the session in progress
+  const profileLocked = isRunning || isPaused || isBreak;
 
   if (isWidget) {
     return (
@@ -113,6 +128,32 @@ const AppHeader: React.FC<AppHeaderProps> = memo(({
       </div>
 
       <div className="flex items-center space-x-2 transition-all duration-240 ease-out-smooth">
+        {profiles.length > 0 && (
+          <label
+            className={`flex items-center gap-1.5 px-2 py-1.5 rounded-lg transition-colors duration-240 ease-out-smooth ${
+              theme === 'dark'
+                ? 'hover:bg-gray-700 text-gray-400 hover:text-gray-300'
+                : 'hover:bg-gray-100 text-gray-500 hover:text-gray-700'
+            } ${profileLocked ? 'opacity-50' : 'cursor-pointer'}`}
+            title={profileLocked ? 'Stop the timer to switch profiles' : 'Settings profile'}
+          >
+            <SlidersHorizontal size={18} />
+            <select
+              value={activeProfileId ?? ''}
+              onChange={(e) => onApplyProfile(e.target.value)}
+              disabled={profileLocked}
+              className={`max-w-[7rem] bg-transparent text-sm font-medium focus:outline-none ${
+                profileLocked ? 'cursor-not-allowed' : 'cursor-pointer'
+              } ${theme === 'dark' ? '[&>option]:bg-gray-800' : ''}`}
+            >
+              {activeProfileId === null && <option value="" disabled>Custom</option>}
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
         <button
           onClick={() => setIsWidget(true)}
           className={`hidden sm:block p-2 rounded-lg transition-colors duration-240 ease-out-smooth ${
@@ -0,0 +1,279 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, Play, Plus, Zap } from 'lucide-react';
+import type { Task, Session, Settings } from '../App';
+import { useColorSystemContext } from '../contexts/ColorSystemContext';
+import { useMusicPlayer } from '../hooks/useMusicPlayer';
+import { getAccentHex } from '../utils/colorSystem';
+import { findActiveProfile } from '../utils/settingsProfiles';
+import { getTaskUsage, matchScore, usageScore } from '../utils/taskSearch';
+
+/**
+ * CommandPalette
+ * Searches tasks, 'flow-task-history' names and actions by word start (see utils/taskSearch);
+ * tasks and names worked on often and recently rank first.
+ *
+ * - Task: starts the timer on it (listed while the timer is idle)
+ * - History name without a task: adds it as a task
+ * - Actions: switch timer mode or profile (while idle), play a stream, open History,
+ *   Data Management, settings or the shortcut cheat sheet
+ *
+ * ↑/↓ move, Enter runs, Esc closes.
+ */
+interface CommandPaletteProps {
+  tasks: Task[];
+  taskHistory: string[];
+  sessions: Session[];
+  settings: Settings;
+  /** Timer neither running, paused nor on a break; task, mode and profile changes wait for this */
+  isIdle: boolean;
+  onStartTask: (task: Task) => void;
+  onAddTask: (name: string) => void;
+  onUpdateSettings: (settings: Partial<Settings>) => void;
+  onApplyProfile: (profileId: string) => void;
+  onOpenHistory: () => void;
+  onOpenDataManager: () => void;
+  onOpenSettings: () => void;
+  onShowShortcuts: () => void;
+  onClose: () => void;
+  theme: 'light' | 'dark';
+  accentColor: string;
+}
+
+interface PaletteCommand {
+  id: string;
+  title: string;
+  /** Shown on the right, e.g. what Enter does */
+  hint: string;
+  kind: 'task' | 'history' | 'action';
+  /** Extra words the command is found by */
+  keywords?: string;
+  /** Ranking from sessions; actions have none */
+  usage: number;
+  run: () => void;
+}
+
+/** Results shown at once; typing narrows them down */
+const MAX_RESULTS = 12;
+
+const TIMER_MODES: { mode: Settings['timerMode']; name: string }[] = [
+  { mode: 'flow', name: 'Flow' },
+  { mode: 'pomodoro', name: 'Pomodoro' },
+  { mode: 'timer', name: 'Timer' }
+];
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({
+  tasks,
+  taskHistory,
+  sessions,
+  settings,
+  isIdle,
+  onStartTask,
+  onAddTask,
+  onUpdateSettings,
+  onApplyProfile,
+  onOpenHistory,
+  onOpenDataManager,
+  onOpenSettings,
+  onShowShortcuts,
+  onClose,
+  theme,
+  accentColor
+}) => {
+  const colorSystem = useColorSystemContext();
+  const accentHex = getAccentHex(accentColor, colorSystem.getAllAccentColors());
+  const { streams, isStreamHidden, setCurrentStream, setPlaying } = useMusicPlayer();
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const usage = useMemo(() => getTaskUsage(sessions), [sessions]);
+
+  const buildCommands = (): PaletteCommand[] => {
+    const now = Date.now();
+    const list: PaletteCommand[] = [];
+    const taskNames = new Set<string>();
+
+    tasks.forEach(task => {
+      if (task.status === 'archived') return;
+      taskNames.add(task.name.toLowerCase());
+      if (!isIdle || (task.status ?? 'active') !== 'active') return;
+      list.push({
+        id: `task-${task.id}`,
+        title: task.name,
+        hint: 'Start timer',
+        kind: 'task',
+        keywords: task.tags?.join(' '),
+        usage: usageScore(usage.get(task.name.toLowerCase()), now),
+        run: () => onStartTask(task)
+      });
+    });
+
+    taskHistory.forEach(name => {
+      if (taskNames.has(name.toLowerCase())) return;
+      taskNames.add(name.toLowerCase());
+      list.push({
+        id: `history-${name}`,
+        title: name,
+        hint: 'Add task',
+        kind: 'history',
+        usage: usageScore(usage.get(name.toLowerCase()), now),
+        run: () => onAddTask(name)
+      });
+    });
+
+    if (isIdle) {
+      TIMER_MODES.filter(({ mode }) => mode !== settings.timerMode).forEach(({ mode, name }) => {
+        list.push({
+          id: `mode-${mode}`,
+          title: `Switch to ${name} mode`,
+          hint: 'Timer mode',
+          kind: 'action',
+          usage: 0,
+          run: () => onUpdateSettings({ timerMode: mode })
+        });
+      });
+
+      const activeProfile = findActiveProfile(settings);
+      settings.profiles.filter(profile => profile.id !== activeProfile?.id).forEach(profile => {
+        list.push({
+          id: `profile-${profile.id}`,
+          title: `Use profile ${profile.name}`,
+          hint: 'Profile',
+          kind: 'action',
+          usage: 0,
+          run: () => onApplyProfile(profile.id)
+        });
+      });
+    }
+
+    if (settings.showMusicPlayer) {
+      streams.forEach((stream, index) => {
+        if (isStreamHidden(index)) return;
+        list.push({
+          id: `stream-${index}`,
+          title: `Play ${stream.name}`,
+          hint: 'Music',
+          kind: 'action',
+          keywords: 'stream music',
+          usage: 0,
+          run: () => {
+            setCurrentStream(index);
+            setPlaying(true);
+          }
+        });
+      });
+    }
+
+    list.push(
+      { id: 'open-history', title: 'Open history', hint: 'History', kind: 'action', keywords: 'sessions stats', usage: 0, run: onOpenHistory },
+      { id: 'open-data', title: 'Open data management', hint: 'History', kind: 'action', keywords: 'export import backup csv', usage: 0, run: onOpenDataManager },
+      { id: 'open-settings', title: 'Open settings', hint: 'Settings', kind: 'action', keywords: 'preferences', usage: 0, run: onOpenSettings },
+      { id: 'show-shortcuts', title: 'Show keyboard shortcuts', hint: 'Help', kind: 'action', keywords: 'keys cheat sheet', usage: 0, run: onShowShortcuts }
+    );
+    return list;
+  };
+
+  const results = buildCommands()
+    .map(command => {
+      const match = matchScore(`${command.title} ${command.keywords ?? ''}`, query);
+      return match === null ? null : { command, score: match + command.usage };
+    })
+    .filter((entry): entry is { command: PaletteCommand; score: number } => entry !== null)
+    // Stable sort: equal scores keep the build order (tasks, history names, actions)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RESULTS)
+    .map(entry => entry.command);
+
+  useEffect(() => {
+    setSelected(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.children[selected]?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  const runCommand = (command: PaletteCommand | undefined) => {
+    if (!command) return;
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected(prev => Math.min(prev + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected(prev => Math.max(prev - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      runCommand(results[selected]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  const icons = { task: Play, history: Plus, action: Zap };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-start justify-center p-4 pt-[15vh]"
+      onClick={onClose}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className={`w-full max-w-lg ${
+          theme === 'dark' ? 'bg-gray-900 text-white' : 'bg-white text-gray-900'
+        } rounded-2xl shadow-2xl border ${
+          theme === 'dark' ? 'border-gray-700' : 'border-gray-200'
+        } overflow-hidden`}
+      >
+        <div className={`flex items-center gap-3 px-4 py-3 border-b ${
+          theme === 'dark' ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          <Search size={18} className={theme === 'dark' ? 'text-gray-400' : 'text-gray-500'} />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search tasks and actions..."
+            autoFocus
+            className="flex-1 bg-transparent text-sm focus:outline-none"
+          />
+        </div>
+
+        <div ref={listRef} className="max-h-80 overflow-y-auto p-2">
+          {results.map((command, index) => {
+            const Icon = icons[command.kind];
+            const isSelected = index === selected;
+            return (
+              <button
+                key={command.id}
+                onClick={() => runCommand(command)}
+                onMouseMove={() => setSelected(index)}
+                className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left text-sm transition-colors ${
+                  isSelected ? (theme === 'dark' ? 'bg-gray-800' : 'bg-gray-100') : ''
+                }`}
+              >
+                <Icon size={14} style={isSelected ? { color: accentHex } : undefined} className="flex-shrink-0" />
+                <span className="flex-1 truncate">{command.title}</span>
+                <span className={`text-xs flex-shrink-0 ${theme === 'dark' ? 'text-gray-500' : 'text-gray-400'}`}>
+                  {command.hint}
+                </span>
+              </button>
+            );
+          })}
+          {results.length === 0 && (
+            <p className={`px-3 py-6 text-center text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+              Nothing matches "{query}"
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -12,18 +12,31 @@ import {
   Trash2,
   ChevronRight,
   Clock,
-  Archive
+  Archive,
+  HardDrive,
+  CalendarDays
 } from 'lucide-react';
 import type { Session, Task } from '../App';
 import { useNotificationContext } from '../contexts/NotificationContext';
 import {
   exportToCSV,
+  exportToDetailedCSV,
+  exportToICS,
   importFromCSV,
-  deleteSessionsByDateRange,
-  deleteAllHistory,
   getPresetDateRanges,
-  type DateRange
+  diffImportedSessions,
+  exportBackup,
+  readBackupFile,
+  restoreBackup,
+  type CSVRowError,
+  type DateRange,
+  type ImportDiff,
+  type ImportRowStatus,
+  type RestoreMode
 } from '../utils/dataManager';
+import { formatTime } from '../utils/timeUtils';
+import { isWorkSession } from '../utils/sessionUtils';
+import { useSessionsInRange } from '../hooks/useSessions';
 
 interface DataManagerProps {
   sessions: Session[];
@@ -53,12 +66,20 @@ const DataManager: React.FC<DataManagerProps> = ({
     start: new Date().toISOString().split('T')[0],
     end: new Date().toISOString().split('T')[0]
   });
+  const [csvFormat, setCsvFormat] = useState<'summary' | 'detailed'>('summary');
+  const [importSource, setImportSource] = useState<'csv' | 'backup'>('csv');
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [csvMode, setCsvMode] = useState<'merge' | 'replace'>('merge');
+  const [importPreview, setImportPreview] = useState<{ fileName: string; diff: ImportDiff } | null>(null);
+  const [includeConflicts, setIncludeConflicts] = useState(false);
+  const [importErrors, setImportErrors] = useState<CSVRowError[]>([]);
   const [importStatus, setImportStatus] = useState<{
     type: 'success' | 'error' | null;
     message: string;
   }>({ type: null, message: '' });
 
-  const presetRanges = getPresetDateRanges();
+  // Fixed while the dialog is open, so the range query below is not re-run on every render
+  const presetRanges = React.useMemo(() => getPresetDateRanges(), []);
 
   const getDateRange = (): DateRange => {
     if (datePreset === 'custom') {
@@ -79,61 +100,107 @@ const DataManager: React.FC<DataManagerProps> = ({
     return presetRanges[presetMap[datePreset]];
   };
 
+  // Sessions in the selected period, queried by date range from the session store
+  const rangeSessions = useSessionsInRange(getDateRange());
+
   const handleExport = () => {
     const dateRange = getDateRange();
-    exportToCSV(sessions, tasks, dateRange);
+    if (csvFormat === 'detailed') {
+      exportToDetailedCSV(rangeSessions, dateRange);
+    } else {
+      exportToCSV(rangeSessions, tasks, dateRange);
+    }
+  };
+
+  const handleExportICS = () => {
+    const { exported, skipped } = exportToICS(rangeSessions, getDateRange());
+    if (exported === 0) {
+      alert('No sessions with times of day in this period', 'warning');
+    } else if (skipped > 0) {
+      alert(`Exported ${exported} sessions. ${skipped} sessions without times of day were left out.`, 'info');
+    }
+  };
+
+  /**
+   * Build tasks for imported work sessions, one per task id, with timeSpent and the earliest
+   * session as creation date. Tasks not worked on today are archived so they don't flood the task list.
+   * Breaks and untasked "Focus #N" sessions (focus-* ids) never had a task and get none.
+   */
+  const buildTasksFromSessions = (importedSessions: Session[]): Task[] => {
+    const todayStr = new Date().toDateString();
+    const archivedAt = new Date().toISOString();
+    const workSessions = importedSessions.filter(s => isWorkSession(s) && s.taskId && !s.taskId.startsWith('focus-'));
+    const taskIds = new Set(workSessions.map(s => s.taskId));
+
+    return Array.from(taskIds).map(taskId => {
+      const taskSessions = workSessions.filter(s => s.taskId === taskId);
+      const name = taskSessions[taskSessions.length - 1].taskName;
+      const totalTimeSpent = taskSessions.reduce((sum, s) => sum + s.duration, 0);
+      
+      const earliestSession = taskSessions.reduce((earliest, current) => {
+        const currentDate = new Date(current.startTime || current.date);
+        const earliestDate = new Date(earliest.startTime || earliest.date);
+        return currentDate < earliestDate ? current : earliest;
+      });
+      
+      const task: Task = {
+        id: taskId,
+        name,
+        timeSpent: totalTimeSpent,
+        createdAt: new Date(earliestSession.startTime || earliestSession.date).toISOString()
+      };
+      const createdToday = new Date(task.createdAt).toDateString() === todayStr;
+      const hasTodaySessions = taskSessions.some(s => s.date === todayStr);
+      return createdToday || hasTodaySessions
+        ? { ...task, status: 'active' }
+        : { ...task, status: 'archived', archivedAt };
+    });
   };
 
   const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    const confirmReplace = await confirm(
-      `WARNING: This will completely replace all your current data with the imported data. Your existing ${sessions.length} sessions will be permanently deleted.\n\nAre you sure you want to continue?`
-    );
-    
-    if (!confirmReplace) {
-      event.target.value = '';
-      return;
-    }
+    event.target.value = '';
 
     try {
       setImportStatus({ type: null, message: '' });
-      const importedSessions = await importFromCSV(file);
-      
+      setImportErrors([]);
+      const { sessions: importedSessions, errors } = await importFromCSV(file);
+      setImportErrors(errors);
+
+      if (importedSessions.length === 0) {
+        setImportStatus({ type: 'error', message: `No rows could be imported from ${file.name}.` });
+        return;
+      }
+
+      if (csvMode === 'merge') {
+        setIncludeConflicts(false);
+        setImportPreview({ fileName: file.name, diff: diffImportedSessions(sessions, importedSessions) });
+        return;
+      }
+
+      const skippedNote = errors.length > 0
+        ? `\n\n${errors.length} rows could not be read and will be skipped.`
+        : '';
+      const confirmReplace = await confirm(
+        `WARNING: This will completely replace all your current data with the imported data. Your existing ${sessions.length} sessions will be permanently deleted.${skippedNote}\n\nAre you sure you want to continue?`
+      );
+      if (!confirmReplace) {
+        setImportErrors([]);
+        return;
+      }
+
       onUpdateSessions(importedSessions);
 
-      const taskNames = new Set(importedSessions.map(s => s.taskName));
-      const newTasks = Array.from(taskNames).map(name => {
-        const taskSessions = importedSessions.filter(s => s.taskName === name);
-        const totalTimeSpent = taskSessions.reduce((sum, s) => sum + s.duration, 0);
-        
-        const earliestSession = taskSessions.reduce((earliest, current) => {
-          const currentDate = new Date(current.startTime || current.date);
-          const earliestDate = new Date(earliest.startTime || earliest.date);
-          return currentDate < earliestDate ? current : earliest;
-        });
-        
-        return {
-          id: `task-${name.toLowerCase().replace(/\s+/g, '-')}`,
-          name,
-          timeSpent: totalTimeSpent,
-          createdAt: new Date(earliestSession.startTime || earliestSession.date).toISOString()
-        };
-      });
-      
-      onUpdateTasks(newTasks);
+      const importedTasks = buildTasksFromSessions(importedSessions);
+      const visibleCount = importedTasks.filter(task => task.status === 'active').length;
 
-      const todayStr = new Date().toDateString();
-      const visibleTasks = newTasks.filter(task => {
-        const createdToday = new Date(task.createdAt).toDateString() === todayStr;
-        const hasTodaySessions = importedSessions.some(s => s.taskName === task.name && s.date === todayStr);
-        return createdToday || hasTodaySessions;
-      });
+      onUpdateTasks(importedTasks);
 
       setImportStatus({ 
         type: 'success', 
-        message: `Successfully imported ${importedSessions.length} sessions and ${newTasks.length} tasks. ${visibleTasks.length} tasks will be visible in today's task list, others are in history only.`
+        message: `Successfully imported ${importedSessions.length} sessions and ${importedTasks.length} tasks. ${visibleCount} tasks will be visible in the task list, others are archived.`
       });
     } catch (error) {
       setImportStatus({
@@ -141,16 +208,87 @@ const DataManager: React.FC<DataManagerProps> = ({
         message: error instanceof Error ? error.message : 'Error importing file' 
       });
     }
+  };
+
+  /**
+   * Apply a previewed merge: add new rows (and conflicting ones when chosen) to history,
+   * link work sessions to existing tasks by id or name and create tasks for unknown ones.
+   */
+  const handleConfirmMerge = () => {
+    if (!importPreview) return;
+    const rowsToAdd = importPreview.diff.rows.filter(row =>
+      row.status === 'new' || (includeConflicts && row.status === 'conflict')
+    );
+    if (rowsToAdd.length === 0) {
+      setImportPreview(null);
+      return;
+    }
+
+    const taskByName = new Map(tasks.map(task => [task.name.trim().toLowerCase(), task]));
+    const added = rowsToAdd.map(row => {
+      if (!isWorkSession(row.session)) return row.session;
+      const existingTask = tasks.find(task => task.id === row.session.taskId)
+        || taskByName.get(row.session.taskName.trim().toLowerCase());
+      return existingTask ? { ...row.session, taskId: existingTask.id, taskName: existingTask.name } : row.session;
+    });
+
+    const addedByTask = new Map<string, number>();
+    added.filter(isWorkSession).forEach(s => addedByTask.set(s.taskId, (addedByTask.get(s.taskId) || 0) + s.duration));
+    const updatedTasks = tasks.map(task =>
+      addedByTask.has(task.id) ? { ...task, timeSpent: task.timeSpent + (addedByTask.get(task.id) || 0) } : task
+    );
+    const newTasks = buildTasksFromSessions(added.filter(s => !tasks.some(task => task.id === s.taskId)))
+      .filter(task => !tasks.some(existing => existing.id === task.id));
+
+    onUpdateSessions([...sessions, ...added]);
+    onUpdateTasks([...updatedTasks, ...newTasks]);
+
+    const skipped = importPreview.diff.rows.length - rowsToAdd.length;
+    setImportPreview(null);
+    setImportStatus({
+      type: 'success',
+      message: `Merged ${added.length} sessions${newTasks.length > 0 ? ` and ${newTasks.length} new tasks` : ''}. ${skipped} rows skipped.`
+    });
+  };
 
+  const handleRestore = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
     event.target.value = '';
+    if (!file) return;
+
+    try {
+      setImportStatus({ type: null, message: '' });
+      const backup = await readBackupFile(file);
+      const backupSessions = Array.isArray(backup.data['flow-sessions']) ? backup.data['flow-sessions'].length : 0;
+      const madeOn = backup.exportedAt ? new Date(backup.exportedAt).toLocaleString('en-US') : 'an unknown date';
+
+      const confirmed = await confirm(
+        restoreMode === 'replace'
+          ? `Replace ALL current data with the backup from ${madeOn} (${backupSessions} sessions)? Your existing ${sessions.length} sessions, tasks and settings will be overwritten.`
+          : `Merge the backup from ${madeOn} (${backupSessions} sessions) into your data? Existing sessions, tasks and settings are kept; only missing items are added.`
+      );
+      if (!confirmed) return;
+
+      const summary = await restoreBackup(backup, restoreMode);
+      setImportStatus({
+        type: 'success',
+        message: summary.mode === 'replace'
+          ? `Restored ${summary.sessionsAdded} sessions and ${summary.tasksAdded} tasks. Reloading…`
+          : `Merged ${summary.sessionsAdded} new sessions and ${summary.tasksAdded} new tasks. Reloading…`
+      });
+      // In-memory state still holds the old data; reload to pick up the restored storage
+      window.setTimeout(() => window.location.reload(), 1200);
+    } catch (error) {
+      setImportStatus({
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Error restoring backup'
+      });
+    }
   };
 
   const handleDeleteRange = async () => {
     const dateRange = getDateRange();
-    const sessionsToDelete = sessions.filter(session => {
-      const sessionDate = new Date(session.startTime || session.date);
-      return sessionDate >= dateRange.start && sessionDate <= dateRange.end;
-    });
+    const sessionsToDelete = rangeSessions;
 
     if (sessionsToDelete.length === 0) {
       alert('No sessions found in the selected date range', 'warning');
@@ -161,8 +299,8 @@ const DataManager: React.FC<DataManagerProps> = ({
     
     const confirmed = await confirm(confirmMessage);
     if (confirmed) {
-      const updatedSessions = deleteSessionsByDateRange(sessions, dateRange);
-      onUpdateSessions(updatedSessions);
+      const deleteIds = new Set(sessionsToDelete.map(session => session.id));
+      onUpdateSessions(sessions.filter(session => !deleteIds.has(session.id)));
     }
   };
 
@@ -175,22 +313,20 @@ const DataManager: React.FC<DataManagerProps> = ({
     }
   };
 
+  const statusBadgeClass = (status: ImportRowStatus) => {
+    if (status === 'new') return theme === 'dark' ? 'bg-green-500/15 text-green-400' : 'bg-green-100 text-green-700';
+    if (status === 'conflict') return theme === 'dark' ? 'bg-amber-500/15 text-amber-400' : 'bg-amber-100 text-amber-700';
+    return theme === 'dark' ? 'bg-gray-700 text-gray-300' : 'bg-gray-200 text-gray-600';
+  };
+
   const getSessionCount = () => {
     if (activeTab !== 'export' && activeTab !== 'delete') return 0;
-    const dateRange = getDateRange();
-    return sessions.filter(session => {
-      const sessionDate = new Date(session.startTime || session.date);
-      return sessionDate >= dateRange.start && sessionDate <= dateRange.end;
-    }).length;
+    return rangeSessions.filter(isWorkSession).length;
   };
 
   const getTotalTime = () => {
     if (activeTab !== 'export' && activeTab !== 'delete') return 0;
-    const dateRange = getDateRange();
-    return sessions.filter(session => {
-      const sessionDate = new Date(session.startTime || session.date);
-      return sessionDate >= dateRange.start && sessionDate <= dateRange.end;
-    }).reduce((sum, session) => sum + session.duration, 0);
+    return rangeSessions.filter(isWorkSession).reduce((sum, session) => sum + session.duration, 0);
   };
 
   return (
@@ -408,6 +544,29 @@ const DataManager: React.FC<DataManagerProps> = ({
                         </div>
                       </div>
 
+                      {/* CSV Format */}
+                      <div className="grid grid-cols-2 gap-3 mb-4">
+                        {([
+                          { id: 'summary', label: 'Summary CSV', desc: 'Date, task and duration of work sessions; Excel-friendly' },
+                          { id: 'detailed', label: 'Detailed CSV', desc: 'Every session field with ids and timestamps; re-imports exactly' }
+                        ] as const).map(({ id, label, desc }) => (
+                          <button
+                            key={id}
+                            onClick={() => setCsvFormat(id)}
+                            className={`p-3 rounded-lg text-left transition-all duration-200 ${
+                              csvFormat === id
+                                ? 'data-manager-accent-bg'
+                                : theme === 'dark'
+                                  ? 'bg-gray-800 hover:bg-gray-700 border border-gray-700'
+                                  : 'bg-gray-50 hover:bg-gray-100 border border-gray-200'
+                            }`}
+                          >
+                            <div className="text-sm font-medium">{label}</div>
+                            <div className="text-xs opacity-80">{desc}</div>
+                          </button>
+                        ))}
+                      </div>
+
                       <button
                         onClick={handleExport}
                         disabled={getSessionCount() === 0}
@@ -420,55 +579,308 @@ const DataManager: React.FC<DataManagerProps> = ({
                         <Download size={20} className="mr-2" />
                         Export Data
                       </button>
+
+                      {/* Calendar */}
+                      <div className={`mt-4 p-4 rounded-lg flex items-center justify-between gap-4 border ${
+                        theme === 'dark' ? 'border-gray-700' : 'border-gray-200'
+                      }`}>
+                        <div className="flex items-start space-x-3">
+                          <CalendarDays size={16} className="data-manager-accent-text flex-shrink-0 mt-0.5" />
+                          <div>
+                            <div className="text-sm font-semibold">Calendar (.ics)</div>
+                            <div className={`text-xs ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                              One event per work session in the period above, for Google Calendar, Outlook or Apple Calendar.
+                            </div>
+                          </div>
+                        </div>
+                        <button
+                          onClick={handleExportICS}
+                          disabled={getSessionCount() === 0}
+                          className={`flex-shrink-0 flex items-center px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+                            getSessionCount() === 0
+                              ? 'opacity-50 cursor-not-allowed'
+                              : ''
+                          } ${theme === 'dark' ? 'bg-gray-800 hover:bg-gray-700' : 'bg-gray-100 hover:bg-gray-200'}`}
+                        >
+                          <Download size={16} className="mr-2" />
+                          Download .ics
+                        </button>
+                      </div>
+
+                      {/* Full Backup */}
+                      <div className={`mt-4 p-4 rounded-lg flex items-center justify-between gap-4 border ${
+                        theme === 'dark' ? 'border-gray-700' : 'border-gray-200'
+                      }`}>
+                        <div className="flex items-start space-x-3">
+                          <HardDrive size={16} className="data-manager-accent-text flex-shrink-0 mt-0.5" />
+                          <div>
+                            <div className="text-sm font-semibold">Full Backup (JSON)</div>
+                            <div className={`text-xs ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                              All sessions, tasks, projects, settings, colors and music streams. Ignores the period above.
+                            </div>
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => {
+                            exportBackup().catch(() => alert('Could not read sessions for the backup', 'error'));
+                          }}
+                          className={`flex-shrink-0 flex items-center px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+                            theme === 'dark' ? 'bg-gray-800 hover:bg-gray-700' : 'bg-gray-100 hover:bg-gray-200'
+                          }`}
+                        >
+                          <Download size={16} className="mr-2" />
+                          Download Backup
+                        </button>
+                      </div>
                     </div>
                   </div>
                 )}
 
                 {activeTab === 'import' && (
                   <div className="data-manager-tab-fade-in flex flex-col">
-                    {/* Warning */}
-                    <div className={`max-w-lg mx-auto p-4 rounded-lg border-2 mb-6 ${
-                      theme === 'dark' 
-                        ? 'border-gray-500/30 bg-gray-500/10' 
-                        : 'border-gray-200 bg-gray-50'
-                    }`}>
-                      <div className="flex items-start space-x-3">
-                        <AlertTriangle size={18} className="text-gray-600 dark:text-gray-400 flex-shrink-0 mt-0.5" />
-                        <div>
-                          <div className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
-                            Complete Data Replacement
-                          </div>
-                          <div className="text-sm text-gray-600 dark:text-gray-400 leading-relaxed">
-                            Importing will completely replace all your current data. Your existing sessions and tasks will be permanently deleted and replaced with the imported data. Make sure you have a backup before proceeding.
-                          </div>
-                        </div>
-                      </div>
+                    {/* Source */}
+                    <div className={`max-w-lg mx-auto w-full flex rounded-lg p-1 mb-6 ${theme === 'dark' ? 'bg-gray-800' : 'bg-gray-100'}`}>
+                      {([
+                        { id: 'csv', label: 'CSV Sessions' },
+                        { id: 'backup', label: 'Full Backup (JSON)' }
+                      ] as const).map(({ id, label }) => (
+                        <button
+                          key={id}
+                          onClick={() => {
+                            setImportSource(id);
+                            setImportStatus({ type: null, message: '' });
+                          }}
+                          className={`flex-1 px-4 py-1.5 rounded-md text-sm font-medium transition-all duration-200 ${
+                            importSource === id
+                              ? 'data-manager-accent-bg shadow-sm'
+                              : theme === 'dark' ? 'text-gray-300 hover:text-white' : 'text-gray-600 hover:text-gray-900'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
                     </div>
 
-                    {/* Import Zone */}
-                    <div className="flex flex-col justify-center">
-                      <input
-                        type="file"
-                        accept=".csv"
-                        onChange={handleImport}
-                        className="hidden"
-                        id="import-file"
-                      />
-                      <label
-                        htmlFor="import-file"
-                        className={`max-w-md mx-auto w-full flex items-center justify-center px-6 py-8 rounded-lg border-2 border-dashed cursor-pointer transition-all duration-200 ${
-                          theme === 'dark'
-                            ? 'border-gray-600 hover:border-gray-500 bg-gray-800 hover:bg-gray-700'
-                            : 'border-gray-300 hover:border-gray-400 bg-gray-50 hover:bg-gray-100'
-                        }`}
-                      >
-                        <div className="text-center">
-                          <Upload size={32} className="mx-auto mb-3 data-manager-accent-text" />
-                          <div className="text-base font-medium mb-1">Choose CSV File</div>
-                          <div className="text-sm text-gray-500 dark:text-gray-400">Click to select file for import</div>
+                    {importSource === 'backup' && (
+                      <>
+                        {/* Restore Mode */}
+                        <div className="max-w-lg mx-auto w-full grid grid-cols-2 gap-3 mb-6">
+                          {([
+                            { id: 'merge', label: 'Merge', desc: 'Keep current data, add what is missing' },
+                            { id: 'replace', label: 'Replace', desc: 'Overwrite everything with the backup' }
+                          ] as const).map(({ id, label, desc }) => (
+                            <button
+                              key={id}
+                              onClick={() => setRestoreMode(id)}
+                              className={`p-3 rounded-lg text-left transition-all duration-200 ${
+                                restoreMode === id
+                                  ? 'data-manager-accent-bg'
+                                  : theme === 'dark'
+                                    ? 'bg-gray-800 hover:bg-gray-700 border border-gray-700'
+                                    : 'bg-gray-50 hover:bg-gray-100 border border-gray-200'
+                              }`}
+                            >
+                              <div className="text-sm font-medium">{label}</div>
+                              <div className="text-xs opacity-80">{desc}</div>
+                            </button>
+                          ))}
                         </div>
-                      </label>
-                    </div>
+
+                        <div className="flex flex-col justify-center">
+                          <input
+                            type="file"
+                            accept=".json,application/json"
+                            onChange={handleRestore}
+                            className="hidden"
+                            id="restore-file"
+                          />
+                          <label
+                            htmlFor="restore-file"
+                            className={`max-w-md mx-auto w-full flex items-center justify-center px-6 py-8 rounded-lg border-2 border-dashed cursor-pointer transition-all duration-200 ${
+                              theme === 'dark'
+                                ? 'border-gray-600 hover:border-gray-500 bg-gray-800 hover:bg-gray-700'
+                                : 'border-gray-300 hover:border-gray-400 bg-gray-50 hover:bg-gray-100'
+                            }`}
+                          >
+                            <div className="text-center">
+                              <HardDrive size={32} className="mx-auto mb-3 data-manager-accent-text" />
+                              <div className="text-base font-medium mb-1">Choose Backup File</div>
+                              <div className="text-sm text-gray-500 dark:text-gray-400">
+                                {restoreMode === 'merge' ? 'Missing items will be added' : 'All current data will be replaced'}
+                              </div>
+                            </div>
+                          </label>
+                        </div>
+                      </>
+                    )}
+
+                    {importSource === 'csv' && (
+                      <>
+                        {/* Import Mode */}
+                        <div className="max-w-lg mx-auto w-full grid grid-cols-2 gap-3 mb-6">
+                          {([
+                            { id: 'merge', label: 'Merge', desc: 'Add new sessions, skip duplicates' },
+                            { id: 'replace', label: 'Replace', desc: 'Delete current data and import' }
+                          ] as const).map(({ id, label, desc }) => (
+                            <button
+                              key={id}
+                              onClick={() => {
+                                setCsvMode(id);
+                                setImportPreview(null);
+                                setImportErrors([]);
+                              }}
+                              className={`p-3 rounded-lg text-left transition-all duration-200 ${
+                                csvMode === id
+                                  ? 'data-manager-accent-bg'
+                                  : theme === 'dark'
+                                    ? 'bg-gray-800 hover:bg-gray-700 border border-gray-700'
+                                    : 'bg-gray-50 hover:bg-gray-100 border border-gray-200'
+                              }`}
+                            >
+                              <div className="text-sm font-medium">{label}</div>
+                              <div className="text-xs opacity-80">{desc}</div>
+                            </button>
+                          ))}
+                        </div>
+
+                        {/* Warning */}
+                        {csvMode === 'replace' && (
+                          <div className={`max-w-lg mx-auto p-4 rounded-lg border-2 mb-6 ${
+                            theme === 'dark' 
+                              ? 'border-gray-500/30 bg-gray-500/10' 
+                              : 'border-gray-200 bg-gray-50'
+                          }`}>
+                            <div className="flex items-start space-x-3">
+                              <AlertTriangle size={18} className="text-gray-600 dark:text-gray-400 flex-shrink-0 mt-0.5" />
+                              <div>
+                                <div className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                                  Complete Data Replacement
+                                </div>
+                                <div className="text-sm text-gray-600 dark:text-gray-400 leading-relaxed">
+                                  Importing will completely replace all your current data. Your existing sessions and tasks will be permanently deleted and replaced with the imported data. Make sure you have a backup before proceeding.
+                                </div>
+                              </div>
+                            </div>
+                          </div>
+                        )}
+
+                        {/* Merge Preview */}
+                        {importPreview ? (
+                          <div className="flex flex-col">
+                            <div className="flex items-center justify-between mb-3">
+                              <div className="text-sm font-semibold truncate">{importPreview.fileName}</div>
+                              <div className="flex items-center gap-2 text-xs">
+                                {(['new', 'duplicate', 'conflict'] as ImportRowStatus[]).map(status => (
+                                  <span key={status} className={`px-2 py-0.5 rounded-full ${statusBadgeClass(status)}`}>
+                                    {importPreview.diff.counts[status]} {status}
+                                  </span>
+                                ))}
+                              </div>
+                            </div>
+
+                            <div className={`max-h-60 overflow-y-auto data-manager-scrollbar rounded-lg border ${
+                              theme === 'dark' ? 'border-gray-700' : 'border-gray-200'
+                            }`}>
+                              <table className="w-full text-sm">
+                                <thead className={`sticky top-0 text-xs uppercase tracking-wide ${theme === 'dark' ? 'bg-gray-800 text-gray-400' : 'bg-gray-50 text-gray-500'}`}>
+                                  <tr>
+                                    <th className="text-left px-3 py-2 font-medium">Status</th>
+                                    <th className="text-left px-3 py-2 font-medium">Date</th>
+                                    <th className="text-left px-3 py-2 font-medium">Task</th>
+                                    <th className="text-right px-3 py-2 font-medium">Duration</th>
+                                    <th className="text-left px-3 py-2 font-medium">Note</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {importPreview.diff.rows.map((row, index) => (
+                                    <tr
+                                      key={index}
+                                      className={`border-t ${theme === 'dark' ? 'border-gray-800' : 'border-gray-100'} ${
+                                        row.status === 'duplicate' ? 'opacity-50' : ''
+                                      }`}
+                                    >
+                                      <td className="px-3 py-1.5">
+                                        <span className={`px-2 py-0.5 rounded-full text-xs ${statusBadgeClass(row.status)}`}>{row.status}</span>
+                                      </td>
+                                      <td className="px-3 py-1.5 whitespace-nowrap">
+                                        {new Date(row.session.startTime || row.session.date).toLocaleDateString('en-US')}
+                                        {row.session.startTime && (
+                                          <span className="opacity-60"> {new Date(row.session.startTime).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}</span>
+                                        )}
+                                      </td>
+                                      <td className="px-3 py-1.5 truncate max-w-[200px]">{row.session.taskName}</td>
+                                      <td className="px-3 py-1.5 text-right tabular-nums">{formatTime(row.session.duration)}</td>
+                                      <td className="px-3 py-1.5 text-xs opacity-75">
+                                        {row.status === 'duplicate' ? 'Already in history' : row.reason || ''}
+                                      </td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </div>
+
+                            {importPreview.diff.counts.conflict > 0 && (
+                              <label className="flex items-center gap-2 mt-3 text-sm cursor-pointer">
+                                <input
+                                  type="checkbox"
+                                  checked={includeConflicts}
+                                  onChange={(e) => setIncludeConflicts(e.target.checked)}
+                                />
+                                Also import conflicting rows
+                              </label>
+                            )}
+
+                            <div className="grid grid-cols-2 gap-3 mt-4">
+                              <button
+                                onClick={() => {
+                                  setImportPreview(null);
+                                  setImportErrors([]);
+                                }}
+                                className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+                                  theme === 'dark' ? 'bg-gray-800 hover:bg-gray-700' : 'bg-gray-100 hover:bg-gray-200'
+                                }`}
+                              >
+                                Cancel
+                              </button>
+                              <button
+                                onClick={handleConfirmMerge}
+                                className="flex items-center justify-center px-4 py-2 rounded-lg font-medium transition-all duration-200 data-manager-accent-bg hover:opacity-90"
+                              >
+                                <Upload size={16} className="mr-2" />
+                                Import {importPreview.diff.counts.new + (includeConflicts ? importPreview.diff.counts.conflict : 0)} Sessions
+                              </button>
+                            </div>
+                          </div>
+                        ) : (
+                          /* Import Zone */
+                          <div className="flex flex-col justify-center">
+                            <input
+                              type="file"
+                              accept=".csv"
+                              onChange={handleImport}
+                              className="hidden"
+                              id="import-file"
+                            />
+                            <label
+                              htmlFor="import-file"
+                              className={`max-w-md mx-auto w-full flex items-center justify-center px-6 py-8 rounded-lg border-2 border-dashed cursor-pointer transition-all duration-200 ${
+                                theme === 'dark'
+                                  ? 'border-gray-600 hover:border-gray-500 bg-gray-800 hover:bg-gray-700'
+                                  : 'border-gray-300 hover:border-gray-400 bg-gray-50 hover:bg-gray-100'
+                              }`}
+                            >
+                              <div className="text-center">
+                                <Upload size={32} className="mx-auto mb-3 data-manager-accent-text" />
+                                <div className="text-base font-medium mb-1">Choose CSV File</div>
+                                <div className="text-sm text-gray-500 dark:text-gray-400">
+                                  {csvMode === 'merge' ? 'You can review the rows before anything is added' : 'Click to select file for import'}
+                                </div>
+                              </div>
+                            </label>
+                          </div>
+                        )}
+                      </>
+                    )}
 
                     {/* Status */}
                     {importStatus.type && (
@@ -485,6 +897,27 @@ const DataManager: React.FC<DataManagerProps> = ({
                         <p className="text-sm">{importStatus.message}</p>
                       </div>
                     )}
+
+                    {/* Row Errors */}
+                    {importSource === 'csv' && importErrors.length > 0 && (
+                      <div className={`mt-4 p-4 rounded-lg border ${
+                        theme === 'dark' ? 'border-amber-500/30 bg-amber-500/10' : 'border-amber-200 bg-amber-50'
+                      }`}>
+                        <div className={`flex items-center text-sm font-semibold mb-2 ${theme === 'dark' ? 'text-amber-400' : 'text-amber-700'}`}>
+                          <AlertTriangle size={16} className="mr-2 flex-shrink-0" />
+                          {importErrors.length} {importErrors.length === 1 ? 'row was' : 'rows were'} skipped
+                        </div>
+                        <ul className="max-h-40 overflow-y-auto data-manager-scrollbar space-y-1 text-xs">
+                          {importErrors.map((rowError, index) => (
+                            <li key={index} className="flex gap-2">
+                              <span className="font-medium tabular-nums whitespace-nowrap">Line {rowError.line}</span>
+                              <span>{rowError.message}</span>
+                              <span className="opacity-60 truncate" title={rowError.raw}>{rowError.raw}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                   </div>
                 )}
 
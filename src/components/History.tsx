@@ -1,45 +1,89 @@
 import React, { useState } from 'react';
-import { X, Download, Trash2, Search, Calendar, BarChart3, ArrowDownUp, ChevronLeft, ChevronRight } from 'lucide-react';
-import type { Task, Session } from '../App';
+import { X, Download, Trash2, Search, Calendar, BarChart3, ArrowDownUp, ChevronLeft, ChevronRight, Plus, Pencil, Scissors, Merge } from 'lucide-react';
+import type { Task, Session, Project } from '../App';
 import { useColorSystemContext } from '../contexts/ColorSystemContext';
 import { useNotificationContext } from '../contexts/NotificationContext';
 import { getAccentHex } from '../utils/colorSystem';
 import DataManager from './DataManager';
+import SessionEditor, { type SessionEditorMode } from './SessionEditor';
 import { exportToCSV, type DateRange } from '../utils/dataManager';
 import { formatTime } from '../utils/timeUtils';
+import {
+  isWorkSession,
+  isRestSession,
+  getWorkRestTotals,
+  formatWorkRestRatio,
+  mergeSessions,
+  validateSession,
+  splitSessionAtMidnight,
+  insertSessionsChronologically
+} from '../utils/sessionUtils';
+import { NO_PROJECT, getSessionProjectId, getSessionTags } from '../utils/projectUtils';
+import { useSessionsInRange } from '../hooks/useSessions';
 
 interface HistoryProps {
   sessions: Session[];
   tasks: Task[];
+  projects?: Project[];
   onClose: () => void;
   onDeleteSession: (sessionId: string) => void;
   onDeleteDay: (date: string) => void;
   onUpdateSessions: (sessions: Session[]) => void;
+  /** Recompute timeSpent of the given tasks after sessions were edited by hand */
+  onRecomputeTaskTime?: (sessions: Session[], taskIds: string[]) => void;
   onUpdateTasks: (tasks: Task[]) => void;
+  /** Open with Data Management on top (command palette) */
+  initialDataManager?: boolean;
   theme: 'light' | 'dark';
   accentColor: string;
 }
 
 function History({
-  sessions,
+  sessions: allSessions,
   tasks,
+  projects = [],
   onClose,
   onDeleteSession,
   onDeleteDay,
   onUpdateSessions,
+  onRecomputeTaskTime,
   onUpdateTasks,
+  initialDataManager = false,
   theme,
   accentColor
 }: HistoryProps) {
   const [selectedDate, setSelectedDate] = useState(new Date().toDateString());
   const [view, setView] = useState<'day' | 'week' | 'month'>('day');
-  const [showDataManager, setShowDataManager] = useState(false);
+  const [showDataManager, setShowDataManager] = useState(initialDataManager);
   const [showSearch, setShowSearch] = useState(false);
-  const { confirm } = useNotificationContext();
+  const { confirm, alert } = useNotificationContext();
+  const [editor, setEditor] = useState<{ mode: SessionEditorMode; session?: Session } | null>(null);
   
   const colorSystem = useColorSystemContext();
   const accentHex = getAccentHex(accentColor, colorSystem.getAllAccentColors());
   const [searchTask, setSearchTask] = useState('');
+  // Project filter: 'all', NO_PROJECT or a project id; tag filter: '' for all
+  const [projectFilter, setProjectFilter] = useState('all');
+  const [tagFilter, setTagFilter] = useState('');
+
+  const allTags = React.useMemo(() => {
+    const tags = new Set<string>();
+    tasks.forEach(task => task.tags?.forEach(tag => tags.add(tag)));
+    allSessions.forEach(session => session.tags?.forEach(tag => tags.add(tag)));
+    return Array.from(tags).sort();
+  }, [tasks, allSessions]);
+
+  const matchesTag = (session: Session) =>
+    !tagFilter || (isWorkSession(session) && getSessionTags(session, tasks).includes(tagFilter));
+
+  const matchesProject = (session: Session) => {
+    if (projectFilter === 'all') return true;
+    if (!isWorkSession(session)) return false;
+    const projectId = getSessionProjectId(session, tasks);
+    return projectFilter === NO_PROJECT
+      ? !projectId || !projects.some(p => p.id === projectId)
+      : projectId === projectFilter;
+  };
 
   // Keyboard navigation
   React.useEffect(() => {
@@ -71,20 +115,17 @@ function History({
     setSearchTask('');
   }, [view]);
 
-  // Force re-render when sessions change
-  React.useEffect(() => {
-    // This will trigger a re-render when sessions array changes
-  }, [sessions]);
-
   const getDayStats = (date: string) => {
+    // All kinds are listed for the day; work stats ignore recorded breaks
     const daySessions = sessions.filter(s => s.date === new Date(date).toDateString());
-    const totalTime = daySessions.reduce((sum, s) => sum + s.duration, 0);
+    const workSessions = daySessions.filter(isWorkSession);
+    const { workTime: totalTime, restTime } = getWorkRestTotals(daySessions);
     
-    const sessionCount = daySessions.length;
+    const sessionCount = workSessions.length;
     const avgSession = sessionCount > 0 ? totalTime / sessionCount : 0;
-    const longestSession = Math.max(...daySessions.map(s => s.duration), 0);
+    const longestSession = Math.max(...workSessions.map(s => s.duration), 0);
     
-    return { totalTime, sessionCount, avgSession, longestSession, sessions: daySessions };
+    return { totalTime, restTime, sessionCount, avgSession, longestSession, sessions: daySessions };
   };
 
   const getWeekDates = (date: Date) => {
@@ -137,33 +178,7 @@ function History({
   };
 
   const handleQuickExport = () => {
-    let dateRange: DateRange;
-    
-    if (view === 'day') {
-      const date = new Date(selectedDate);
-      dateRange = {
-        start: new Date(date.setHours(0, 0, 0, 0)),
-        end: new Date(date.setHours(23, 59, 59, 999))
-      };
-    } else if (view === 'week') {
-      const weekDates = getWeekDates(new Date(selectedDate));
-      const startDate = new Date(weekDates[0]);
-      const endDate = new Date(weekDates[6]);
-      dateRange = {
-        start: new Date(startDate.setHours(0, 0, 0, 0)),
-        end: new Date(endDate.setHours(23, 59, 59, 999))
-      };
-    } else {
-      const date = new Date(selectedDate);
-      const startOfMonth = new Date(date.getFullYear(), date.getMonth(), 1);
-      const endOfMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0);
-      dateRange = {
-        start: new Date(startOfMonth.setHours(0, 0, 0, 0)),
-        end: new Date(endOfMonth.setHours(23, 59, 59, 999))
-      };
-    }
-    
-    exportToCSV(sessions, tasks, dateRange);
+    exportToCSV(sessions, tasks, periodRange);
   };
 
   const handleDeleteDay = async () => {
@@ -182,20 +197,109 @@ function History({
     }
   };
 
+  /**
+   * Apply a manual edit: drop the replaced sessions, insert the new ones in time order
+   * (split at midnight like recorded sessions) and recompute the affected tasks' timeSpent.
+   */
+  const applySessionEdit = (removeIds: string[], additions: Session[]) => {
+    const removed = allSessions.filter(s => removeIds.includes(s.id));
+    const kept = allSessions.filter(s => !removeIds.includes(s.id));
+    const next = insertSessionsChronologically(kept, additions.flatMap(splitSessionAtMidnight));
+    onUpdateSessions(next);
+
+    const affectedTaskIds = new Set([...removed, ...additions].map(s => s.taskId).filter(Boolean));
+    onRecomputeTaskTime?.(next, Array.from(affectedTaskIds));
+    setEditor(null);
+  };
+
+  /** The timed session that starts right after this one on the selected day */
+  const getFollowingSession = (session: Session) => {
+    if (!session.startTime || !session.endTime) return undefined;
+    const start = new Date(session.startTime).getTime();
+    return dayStats.sessions
+      .filter(s => s.id !== session.id && s.startTime && s.endTime && new Date(s.startTime).getTime() >= start)
+      .sort((a, b) => new Date(a.startTime!).getTime() - new Date(b.startTime!).getTime())[0];
+  };
+
+  const handleMergeWithNext = async (session: Session, following: Session) => {
+    const merged = mergeSessions(session, following);
+    if (!merged) return;
+    const problem = validateSession(merged, allSessions, [session.id, following.id]);
+    if (problem) {
+      alert(problem, 'error');
+      return;
+    }
+    const confirmed = await confirm(
+      `Merge "${session.taskName}" with the following "${following.taskName}" session? The merged session counts as "${merged.taskName}" (${formatTime(merged.duration)}).`
+    );
+    if (confirmed) {
+      applySessionEdit([session.id, following.id], [merged]);
+    }
+  };
+
   const handleDeleteAllHistory = async () => {
     const confirmed = await confirm(
-      `Delete ALL history? This will permanently remove all ${sessions.length} sessions and cannot be undone.`
+      `Delete ALL history? This will permanently remove all ${allSessions.length} sessions and cannot be undone.`
     );
     if (confirmed) {
       onUpdateSessions([]);
     }
   };
 
-  const dayStats = React.useMemo(() => getDayStats(selectedDate), [selectedDate, sessions]);
   const weekDates = React.useMemo(() => getWeekDates(new Date(selectedDate)), [selectedDate]);
 
+  // Dates covered by the current view (day, week or month)
+  const periodDates = (() => {
+    if (view === 'day') return [selectedDate];
+    if (view === 'week') return weekDates;
+    const date = new Date(selectedDate);
+    const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+    return Array.from({ length: daysInMonth }, (_, i) => new Date(date.getFullYear(), date.getMonth(), i + 1).toDateString());
+  })();
+
+  const periodRange: DateRange = {
+    start: new Date(new Date(periodDates[0]).setHours(0, 0, 0, 0)),
+    end: new Date(new Date(periodDates[periodDates.length - 1]).setHours(23, 59, 59, 999))
+  };
+
+  // Sessions of the period on screen, queried by date range from the session store
+  const periodSessions = useSessionsInRange(periodRange);
+
+  // Sessions shown by every view; breaks belong to no project, so they drop out while filtering
+  const sessions = React.useMemo(
+    () => periodSessions.filter(session => matchesTag(session) && matchesProject(session)),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [periodSessions, tasks, projects, projectFilter, tagFilter]
+  );
+
+  const dayStats = React.useMemo(() => getDayStats(selectedDate), [selectedDate, sessions]);
+
+  // Work time per project in the current period (honours the tag filter, not the project filter)
+  const projectTotals = (() => {
+    const totals = new Map<string, number>();
+    periodSessions
+      .filter(session => isWorkSession(session) && matchesTag(session))
+      .forEach(session => {
+        const projectId = getSessionProjectId(session, tasks);
+        const key = projectId && projects.some(p => p.id === projectId) ? projectId : NO_PROJECT;
+        totals.set(key, (totals.get(key) || 0) + session.duration);
+      });
+    return [
+      ...projects.filter(p => totals.has(p.id)).map(p => ({ id: p.id, name: p.name, hex: getAccentHex(p.color, colorSystem.getAllAccentColors()), total: totals.get(p.id) || 0 })),
+      ...(totals.has(NO_PROJECT) ? [{ id: NO_PROJECT, name: 'No project', hex: theme === 'dark' ? '#4b5563' : '#d1d5db', total: totals.get(NO_PROJECT) || 0 }] : [])
+    ];
+  })();
+
+  const projectHexById = (id?: string) => {
+    const project = id ? projects.find(p => p.id === id) : undefined;
+    return project ? getAccentHex(project.color, colorSystem.getAllAccentColors()) : undefined;
+  };
+
+  // Task search looks through all history, not just the period on screen
   const taskSessions = searchTask
-    ? sessions.filter(s => s.taskName.toLowerCase().includes(searchTask.toLowerCase()))
+    ? allSessions.filter(s =>
+        isWorkSession(s) && matchesTag(s) && matchesProject(s) && s.taskName.toLowerCase().includes(searchTask.toLowerCase())
+      )
     : [];
   const taskTime = taskSessions.reduce((sum, s) => sum + s.duration, 0);
 
@@ -484,6 +588,65 @@ function History({
                  </div>
              </div>
 
+            {/* Project / Tag Filters */}
+            {(projects.length > 0 || allTags.length > 0) && (
+              <div className={`flex items-center gap-3 px-6 py-2 border-b text-sm ${
+                theme === 'dark' ? 'border-gray-700' : 'border-gray-200'
+              }`}>
+                {projects.length > 0 && (
+                  <select
+                    value={projectFilter}
+                    onChange={(e) => setProjectFilter(e.target.value)}
+                    className={`px-2 py-1 rounded-lg border text-sm ${
+                      theme === 'dark' ? 'bg-gray-800 border-gray-700 text-white' : 'bg-white border-gray-200 text-gray-900'
+                    } focus:outline-none`}
+                    title="Filter by project"
+                  >
+                    <option value="all">All projects</option>
+                    {projects.map(project => (
+                      <option key={project.id} value={project.id}>{project.name}</option>
+                    ))}
+                    <option value={NO_PROJECT}>No project</option>
+                  </select>
+                )}
+                {allTags.length > 0 && (
+                  <select
+                    value={tagFilter}
+                    onChange={(e) => setTagFilter(e.target.value)}
+                    className={`px-2 py-1 rounded-lg border text-sm ${
+                      theme === 'dark' ? 'bg-gray-800 border-gray-700 text-white' : 'bg-white border-gray-200 text-gray-900'
+                    } focus:outline-none`}
+                    title="Filter by tag"
+                  >
+                    <option value="">All tags</option>
+                    {allTags.map(tag => (
+                      <option key={tag} value={tag}>#{tag}</option>
+                    ))}
+                  </select>
+                )}
+
+                {/* Totals by project for the current period; click to filter */}
+                <div className="flex-1 flex items-center gap-2 overflow-x-auto history-scrollbar">
+                  {projectTotals.map(entry => (
+                    <button
+                      key={entry.id}
+                      onClick={() => setProjectFilter(projectFilter === entry.id ? 'all' : entry.id)}
+                      className={`flex items-center gap-1.5 px-2 py-1 rounded-full text-xs whitespace-nowrap transition-colors ${
+                        projectFilter === entry.id
+                          ? (theme === 'dark' ? 'bg-gray-700' : 'bg-gray-200')
+                          : (theme === 'dark' ? 'hover:bg-gray-800' : 'hover:bg-gray-100')
+                      }`}
+                      title={`${entry.name}: ${formatTime(entry.total)} this ${view}`}
+                    >
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: entry.hex }} />
+                      <span>{entry.name}</span>
+                      <span className="font-medium tabular-nums">{formatTime(entry.total)}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Content Area */}
             <div className="flex-1 p-6 overflow-y-auto history-scrollbar">
               {view === 'day' && (
@@ -509,36 +672,142 @@ function History({
                      </div>
                    </div>
 
+                  {/* Work / Rest Ratio */}
+                  {(dayStats.totalTime > 0 || dayStats.restTime > 0) && (
+                    <div className={`mb-6 p-3 rounded-lg border ${
+                      theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-gray-50 border-gray-200'
+                    }`}>
+                      <div className="flex items-center justify-between text-sm mb-2">
+                        <span>
+                          Work <span className="font-medium history-accent-text">{formatTime(dayStats.totalTime)}</span>
+                          <span className="opacity-50 mx-2">·</span>
+                          Rest <span className="font-medium">{formatTime(dayStats.restTime)}</span>
+                        </span>
+                        <span className="font-medium tabular-nums" title="Work to rest ratio">
+                          {formatWorkRestRatio(dayStats.totalTime, dayStats.restTime)}
+                        </span>
+                      </div>
+                      <div className={`w-full h-1.5 rounded-full overflow-hidden ${theme === 'dark' ? 'bg-gray-600' : 'bg-gray-200'}`}>
+                        <div
+                          className="h-1.5 rounded-full"
+                          style={{
+                            width: `${Math.round((dayStats.totalTime / Math.max(1, dayStats.totalTime + dayStats.restTime)) * 100)}%`,
+                            backgroundColor: accentHex
+                          }}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Sessions Header */}
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="text-sm font-semibold">Sessions</h4>
+                    <button
+                      onClick={() => setEditor({ mode: 'create' })}
+                      className={`flex items-center px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                        theme === 'dark' ? 'hover:bg-gray-800 text-gray-300' : 'hover:bg-gray-100 text-gray-600'
+                      }`}
+                    >
+                      <Plus size={14} className="mr-1" />
+                      Add session
+                    </button>
+                  </div>
+
                   {/* Sessions List */}
                   <div className="flex-1 space-y-2 overflow-y-auto">
-                    {dayStats.sessions.map((session, index) => (
-                      <div key={session.id} className={`flex items-center justify-between p-3 rounded-lg ${
-                        theme === 'dark' ? 'bg-gray-800' : 'bg-gray-50'
-                      } border ${
-                        theme === 'dark' ? 'border-gray-700' : 'border-gray-200'
-                      }`}>
-                        <div>
-                          <div className="font-medium">{session.taskName}</div>
-                        </div>
-                        <div className="flex items-center space-x-3">
-                          <span className="font-medium history-accent-text">
-                            {formatTime(session.duration)}
-                          </span>
-                          <button
-                            onClick={() => handleDeleteSession(session.id)}
-                            className={`p-1 rounded transition-colors ${
-                              theme === 'dark'
-                                ? 'text-gray-400 hover:text-gray-300 hover:bg-gray-700'
-                                : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
-                            }`}
-                          >
-                            <X size={14} />
-                          </button>
+                    {dayStats.sessions.map((session, index) => {
+                      const following = getFollowingSession(session);
+                      const canMerge = !!following && isWorkSession(session) && isWorkSession(following);
+                      const actionClass = `p-1 rounded transition-colors ${
+                        theme === 'dark'
+                          ? 'text-gray-400 hover:text-gray-300 hover:bg-gray-700'
+                          : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+                      }`;
+                      return (
+                        <div key={session.id} className={`flex items-center justify-between p-3 rounded-lg ${
+                          theme === 'dark' ? 'bg-gray-800' : 'bg-gray-50'
+                        } border ${
+                          theme === 'dark' ? 'border-gray-700' : 'border-gray-200'
+                        }`}>
+                          <div>
+                            <div className={`font-medium flex items-center gap-2 ${isRestSession(session) ? 'opacity-70' : ''}`}>
+                              {projectHexById(getSessionProjectId(session, tasks)) && (
+                                <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: projectHexById(getSessionProjectId(session, tasks)) }} />
+                              )}
+                              {session.taskName}
+                            </div>
+                            {getSessionTags(session, tasks).length > 0 && (
+                              <div className={`text-xs ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                                {getSessionTags(session, tasks).map(tag => `#${tag}`).join(' ')}
+                              </div>
+                            )}
+                            {session.kind && session.kind !== 'work' && (
+                              <div className={`text-xs ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                                {session.kind === 'break' ? 'Rest' : session.kind === 'skipped-break' ? 'Skipped break' : 'Interrupted'}
+                              </div>
+                            )}
+                            {!!session.overtime && (
+                              <div className={`text-xs ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                                Overtime {formatTime(session.overtime)}
+                              </div>
+                            )}
+                            {session.completedSubtasks && session.completedSubtasks.length > 0 && (
+                              <div className={`text-xs ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                                Done: {session.completedSubtasks.map(subtask => subtask.title).join(' · ')}
+                              </div>
+                            )}
+                          </div>
+                          <div className="flex items-center space-x-3">
+                            {session.startTime && session.endTime && (
+                              <span className={`text-xs tabular-nums ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                                {new Date(session.startTime).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false })}
+                                –
+                                {new Date(session.endTime).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false })}
+                              </span>
+                            )}
+                            <span className={`font-medium ${isRestSession(session) ? (theme === 'dark' ? 'text-gray-400' : 'text-gray-500') : 'history-accent-text'}`}>
+                              {formatTime(session.duration)}
+                            </span>
+                            <div className="flex items-center">
+                              <button
+                                onClick={() => setEditor({ mode: 'edit', session })}
+                                className={actionClass}
+                                title="Edit session"
+                              >
+                                <Pencil size={14} />
+                              </button>
+                              {session.startTime && session.endTime && (
+                                <button
+                                  onClick={() => setEditor({ mode: 'split', session })}
+                                  className={actionClass}
+                                  title="Split session"
+                                >
+                                  <Scissors size={14} />
+                                </button>
+                              )}
+                              {canMerge && following && (
+                                <button
+                                  onClick={() => handleMergeWithNext(session, following)}
+                                  className={actionClass}
+                                  title="Merge with next session"
+                                >
+                                  <Merge size={14} />
+                                </button>
+                              )}
+                              <button
+                                onClick={() => handleDeleteSession(session.id)}
+                                className={actionClass}
+                                title="Delete session"
+                              >
+                                <X size={14} />
+                              </button>
+                            </div>
+                          </div>
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                     
-                    {dayStats.sessionCount === 0 && (
+                    {dayStats.sessions.length === 0 && (
                       <div className={`text-center py-12 ${
                         theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
                       }`}>
@@ -645,7 +914,7 @@ function History({
                              } border ${
                                isToday ? `2px solid ${accentHex}` : '1px solid transparent'
                              }`}
-                             title={`View details for ${dayName}, ${date.toLocaleDateString()}${isToday ? ' (Today)' : ''}`}
+                             title={`View details for ${dayName}, ${date.toLocaleDateString()}${isToday ? ' (Today)' : ''}${dayStats.restTime > 0 ? ` · Work/rest ${formatWorkRestRatio(dayStats.totalTime, dayStats.restTime)}` : ''}`}
                            >
                              <div className="text-xs mb-1 opacity-75">
                                {dayName}
@@ -681,7 +950,7 @@ function History({
                        
                        const monthSessions = monthDates.map(day => {
                          const dayString = day.toDateString();
-                         const daySessions = sessions.filter(session => session.date === dayString);
+                         const daySessions = sessions.filter(session => session.date === dayString && isWorkSession(session));
                          return daySessions.reduce((sum, session) => sum + session.duration, 0);
                        });
                        
@@ -737,7 +1006,7 @@ function History({
                         
                         const monthSessions = monthDates.map(day => {
                           const dayString = day.toDateString();
-                          const daySessions = sessions.filter(session => session.date === dayString);
+                          const daySessions = sessions.filter(session => session.date === dayString && isWorkSession(session));
                           return daySessions.reduce((sum, session) => sum + session.duration, 0);
                         });
                         const maxTime = Math.max(...monthSessions, 1);
@@ -750,7 +1019,7 @@ function History({
                             
                             {monthDates.map((day, index) => {
                               const dayString = day.toDateString();
-                              const daySessions = sessions.filter(session => session.date === dayString);
+                              const daySessions = sessions.filter(session => session.date === dayString && isWorkSession(session));
                               const totalTime = daySessions.reduce((sum, session) => sum + session.duration, 0);
                               const intensity = totalTime / maxTime;
                               const isToday = dayString === new Date().toDateString();
@@ -822,9 +1091,23 @@ function History({
         </div>
         
         {/* Data Manager Modal */}
+        {editor && (
+          <SessionEditor
+            mode={editor.mode}
+            session={editor.session}
+            date={selectedDate}
+            sessions={allSessions}
+            tasks={tasks}
+            theme={theme}
+            accentColor={accentHex}
+            onSave={applySessionEdit}
+            onClose={() => setEditor(null)}
+          />
+        )}
+
         {showDataManager && (
           <DataManager
-            sessions={sessions}
+            sessions={allSessions}
             tasks={tasks}
             onUpdateSessions={onUpdateSessions}
             onUpdateTasks={onUpdateTasks}
@@ -0,0 +1,128 @@
+import React, { useEffect, useMemo } from 'react';
+import { Keyboard, X } from 'lucide-react';
+import type { Settings } from '../App';
+import { useNotificationContext } from '../contexts/NotificationContext';
+import { useColorSystemContext } from '../contexts/ColorSystemContext';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { getAccentHex } from '../utils/colorSystem';
+import {
+  findConflicts,
+  formatBinding,
+  resolveShortcuts,
+  SHORTCUT_ACTIONS,
+  type ShortcutAction
+} from '../utils/shortcuts';
+
+/**
+ * KeyboardShortcuts
+ * Listens for the shortcuts in settings.shortcuts (see utils/shortcuts) and renders the
+ * cheat sheet listing them while `showCheatSheet` is set.
+ * Reset asks for confirmation like the Timer button; must sit inside NotificationProvider.
+ */
+interface KeyboardShortcutsProps {
+  settings: Settings;
+  /** Actions available right now; a missing handler leaves the key to the browser */
+  handlers: Partial<Record<ShortcutAction, () => void>>;
+  showCheatSheet: boolean;
+  onCloseCheatSheet: () => void;
+  theme: 'light' | 'dark';
+  accentColor: string;
+}
+
+const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({
+  settings,
+  handlers,
+  showCheatSheet,
+  onCloseCheatSheet,
+  theme,
+  accentColor
+}) => {
+  const { confirm } = useNotificationContext();
+  const colorSystem = useColorSystemContext();
+  const accentHex = getAccentHex(accentColor, colorSystem.getAllAccentColors());
+
+  const bindings = useMemo(() => resolveShortcuts(settings), [settings]);
+  const conflicts = useMemo(() => findConflicts(bindings), [bindings]);
+
+  const { reset } = handlers;
+  useShortcuts(bindings, {
+    ...handlers,
+    reset: reset && (async () => {
+      const confirmed = await confirm('Are you sure you want to reset the current session? Progress will not be saved.');
+      if (confirmed) reset();
+    })
+  });
+
+  useEffect(() => {
+    if (!showCheatSheet) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      e.preventDefault();
+      onCloseCheatSheet();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [showCheatSheet, onCloseCheatSheet]);
+
+  if (!showCheatSheet) return null;
+
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onCloseCheatSheet}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className={`w-full max-w-md ${
+          theme === 'dark' ? 'bg-gray-900 text-white' : 'bg-white text-gray-900'
+        } rounded-2xl shadow-2xl border ${
+          theme === 'dark' ? 'border-gray-700' : 'border-gray-200'
+        } overflow-hidden`}
+      >
+        {/* Header */}
+        <div className={`flex items-center justify-between p-5 border-b ${
+          theme === 'dark' ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          <div className="flex items-center space-x-3">
+            <Keyboard size={20} style={{ color: accentHex }} />
+            <h3 className="text-lg font-semibold">Keyboard shortcuts</h3>
+          </div>
+          <button
+            onClick={onCloseCheatSheet}
+            className={`p-2 rounded-lg transition-all duration-200 ${
+              theme === 'dark' ? 'hover:bg-gray-800' : 'hover:bg-gray-100'
+            }`}
+            title="Close"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-2">
+          {SHORTCUT_ACTIONS.map(({ action, label }) => (
+            <div key={action} className="flex items-center justify-between text-sm">
+              <span className={bindings[action] ? '' : mutedText}>{label}</span>
+              <span className="flex items-center gap-2">
+                {conflicts.has(action) && (
+                  <span className="text-xs text-red-500">conflict · inactive</span>
+                )}
+                <kbd className={`px-2 py-0.5 rounded-md border font-mono text-xs ${
+                  theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-gray-50 border-gray-200'
+                } ${bindings[action] ? '' : mutedText}`}>
+                  {formatBinding(bindings[action])}
+                </kbd>
+              </span>
+            </div>
+          ))}
+          <p className={`text-xs pt-3 ${mutedText}`}>
+            Shortcuts are off while typing in a field. Change them under Settings → Keyboard Shortcuts.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeyboardShortcuts;
@@ -4,7 +4,8 @@ import TaskManager from './TaskManager';
 import MusicPlayer from './MusicPlayer';
 import { getAccentHex } from '../utils/colorSystem';
 import { useColorSystemContext } from '../contexts/ColorSystemContext';
-import type { Task, Session, Settings } from '../App';
+import type { Task, Session, Settings, Project, PomodoroStep } from '../App';
+import type { BreakType } from '../hooks/useTimer';
 
 interface MainContentProps {
   isWidget: boolean;
@@ -20,20 +21,40 @@ interface MainContentProps {
   time: number;
   isRunning: boolean;
   isBreak: boolean;
+  isPaused: boolean;
+  breakType?: BreakType;
   onStart: () => void;
   onStop: () => void;
+  onPause: () => void;
+  onResume: () => void;
   onReset: () => void;
   onSkipBreak: () => void;
   activeTask: Task | null;
   estimatedBreakTime: number;
   currentSession: number;
   totalSessions: number;
+  pomodoroSteps: PomodoroStep[];
+  pomodoroStepIndex: number;
+  countdownTarget?: number;
+  isOvertime: boolean;
   
   // Task props
   tasks: Task[];
-  onAddTask: (name: string, estimatedTime?: number) => void;
+  onAddTask: (name: string, estimatedTime?: number, projectId?: string, tags?: string[], profileId?: string) => void;
   onDeleteTask: (id: string) => void;
+  onCompleteTask: (id: string) => void;
+  onReopenTask: (id: string) => void;
+  onArchiveTask: (id: string) => void;
   onSelectTask: (task: Task | null) => void;
+  onSetTaskProfile: (id: string, profileId?: string) => void;
+  onUpdateTask: (id: string, changes: Partial<Omit<Task, 'id'>>) => void;
+  onReorderTasks: (orderedIds: string[]) => void;
+  onAddSubtask: (taskId: string, title: string) => void;
+  onToggleSubtask: (taskId: string, subtaskId: string) => void;
+  onRemoveSubtask: (taskId: string, subtaskId: string) => void;
+  projects: Project[];
+  onAddProject: (name: string, color: string) => Project;
+  onDeleteProject: (id: string) => void;
   taskHistory: string[];
   sessions: Session[];
   onShowHistory: () => void;
@@ -51,24 +72,49 @@ const MainContent: React.FC<MainContentProps> = memo(({
   time,
   isRunning,
   isBreak,
+  isPaused,
+  breakType,
   onStart,
   onStop,
+  onPause,
+  onResume,
   onReset,
   onSkipBreak,
   activeTask,
   estimatedBreakTime,
   currentSession,
   totalSessions,
+  pomodoroSteps,
+  pomodoroStepIndex,
+  countdownTarget,
+  isOvertime,
   tasks,
   onAddTask,
   onDeleteTask,
+  onCompleteTask,
+  onReopenTask,
+  onArchiveTask,
   onSelectTask,
+  onSetTaskProfile,
+  onUpdateTask,
+  onReorderTasks,
+  onAddSubtask,
+  onToggleSubtask,
+  onRemoveSubtask,
+  projects,
+  onAddProject,
+  onDeleteProject,
   taskHistory,
   sessions,
   onShowHistory
 }) => {
   console.log('MainContent render - showMusicPlayer:', showMusicPlayer, 'layout:', layout, 'settings.showMusicPlayer:', settings.showMusicPlayer);
   const colorSystem = useColorSystemContext();
+
+  // The task being timed cannot leave the active list until its session ends
+  const isTimingTask = (id: string) => (isRunning || isPaused) && activeTask?.id === id;
+  const handleCompleteTask = (id: string) => { if (!isTimingTask(id)) onCompleteTask(id); };
+  const handleArchiveTask = (id: string) => { if (!isTimingTask(id)) onArchiveTask(id); };
   
   const timerComponent = (
     <div
@@ -83,14 +129,23 @@ const MainContent: React.FC<MainContentProps> = memo(({
         time={time}
         isRunning={isRunning}
         isBreak={isBreak}
+        isPaused={isPaused}
+        breakType={breakType}
         onStart={onStart}
         onStop={onStop}
+        onPause={onPause}
+        onResume={onResume}
         onReset={onReset}
         onSkipBreak={onSkipBreak}
         activeTask={activeTask}
+        onToggleSubtask={onToggleSubtask}
         estimatedBreakTime={estimatedBreakTime}
         currentSession={currentSession}
         totalSessions={totalSessions}
+        pomodoroSteps={pomodoroSteps}
+        pomodoroStepIndex={pomodoroStepIndex}
+        countdownTarget={countdownTarget}
+        isOvertime={isOvertime}
         theme={theme}
         accentColor={accentColor}
         isWidget={isWidget}
@@ -125,7 +180,20 @@ const MainContent: React.FC<MainContentProps> = memo(({
             activeTask={activeTask}
             onAddTask={onAddTask}
             onDeleteTask={onDeleteTask}
-            onSelectTask={(t) => { if (!isRunning) onSelectTask(t); }}
+            onCompleteTask={handleCompleteTask}
+            onReopenTask={onReopenTask}
+            onArchiveTask={handleArchiveTask}
+            onSelectTask={(t) => { if (!isRunning && !isPaused) onSelectTask(t); }}
+            profiles={settings.profiles}
+            onSetTaskProfile={onSetTaskProfile}
+            onUpdateTask={onUpdateTask}
+            onReorderTasks={onReorderTasks}
+            onAddSubtask={onAddSubtask}
+            onToggleSubtask={onToggleSubtask}
+            onRemoveSubtask={onRemoveSubtask}
+            projects={projects}
+            onAddProject={onAddProject}
+            onDeleteProject={onDeleteProject}
             taskHistory={taskHistory}
             theme={theme}
             accentColor={accentColor}
@@ -161,7 +229,20 @@ const MainContent: React.FC<MainContentProps> = memo(({
             activeTask={activeTask}
             onAddTask={onAddTask}
             onDeleteTask={onDeleteTask}
-            onSelectTask={(t) => { if (!isRunning) onSelectTask(t); }}
+            onCompleteTask={handleCompleteTask}
+            onReopenTask={onReopenTask}
+            onArchiveTask={handleArchiveTask}
+            onSelectTask={(t) => { if (!isRunning && !isPaused) onSelectTask(t); }}
+            profiles={settings.profiles}
+            onSetTaskProfile={onSetTaskProfile}
+            onUpdateTask={onUpdateTask}
+            onReorderTasks={onReorderTasks}
+            onAddSubtask={onAddSubtask}
+            onToggleSubtask={onToggleSubtask}
+            onRemoveSubtask={onRemoveSubtask}
+            projects={projects}
+            onAddProject={onAddProject}
+            onDeleteProject={onDeleteProject}
             taskHistory={taskHistory}
             theme={theme}
             accentColor={accentColor}
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { LifeBuoy, AlertTriangle } from 'lucide-react';
+import type { RecoveredSession } from '../utils/timerJournal';
+import { getRecoveredWork } from '../utils/timerJournal';
+import { useColorSystemContext } from '../contexts/ColorSystemContext';
+import { getAccentHex } from '../utils/colorSystem';
+import { formatTime } from '../utils/timeUtils';
+
+/**
+ * RecoveryDialog
+ * Shown at startup when the timer journal holds a work session that never
+ * made it into history (crash, closed tab, lost timer state).
+ * The user keeps it up to now, trims it to a chosen end time, or discards it.
+ */
+interface RecoveryDialogProps {
+  recovery: RecoveredSession;
+  onResolve: (action: 'keep' | 'trim' | 'discard', endAt?: number) => void;
+  theme: 'light' | 'dark';
+  accentColor: string;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toLocalInput = (ms: number) => {
+  const date = new Date(ms);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const formatMoment = (ms: number) =>
+  new Date(ms).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const RecoveryDialog: React.FC<RecoveryDialogProps> = ({ recovery, onResolve, theme, accentColor }) => {
+  const colorSystem = useColorSystemContext();
+  const accentHex = getAccentHex(accentColor, colorSystem.getAllAccentColors());
+  const [keepEnd] = useState(() => (recovery.stopped ? recovery.lastSeenAt : Date.now()));
+  const [trimValue, setTrimValue] = useState(toLocalInput(recovery.lastSeenAt));
+
+  const trimEnd = new Date(trimValue).getTime();
+  const trimValid = !isNaN(trimEnd) && trimEnd > recovery.startedAt && trimEnd <= keepEnd + 60 * 1000;
+  const kept = getRecoveredWork(recovery, keepEnd);
+  const trimmed = trimValid ? getRecoveredWork(recovery, Math.min(trimEnd, keepEnd)) : null;
+  const taskLabel = recovery.taskName || 'Untitled focus session';
+
+  const secondaryButton = `px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+    theme === 'dark' ? 'bg-gray-800 hover:bg-gray-700' : 'bg-gray-100 hover:bg-gray-200'
+  }`;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className={`w-full max-w-md ${
+        theme === 'dark' ? 'bg-gray-900 text-white' : 'bg-white text-gray-900'
+      } rounded-2xl shadow-2xl border ${
+        theme === 'dark' ? 'border-gray-700' : 'border-gray-200'
+      } overflow-hidden`}>
+        {/* Header */}
+        <div className={`flex items-center space-x-3 p-5 border-b ${
+          theme === 'dark' ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          <LifeBuoy size={20} style={{ color: accentHex }} />
+          <div>
+            <h3 className="text-lg font-semibold">Unfinished session found</h3>
+            <p className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+              {recovery.stopped
+                ? 'It was stopped, but FLOW closed before it was saved.'
+                : 'FLOW closed while this session was running.'}
+            </p>
+          </div>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div className={`p-3 rounded-lg text-sm ${theme === 'dark' ? 'bg-gray-800' : 'bg-gray-50'}`}>
+            <div className="font-medium">{taskLabel}</div>
+            <div className={theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}>
+              Started {formatMoment(recovery.startedAt)}
+              {!recovery.stopped && <> · last seen {formatMoment(recovery.lastSeenAt)}</>}
+            </div>
+          </div>
+
+          {/* Keep */}
+          <button
+            onClick={() => onResolve('keep')}
+            className="w-full px-4 py-2 rounded-lg font-medium text-white transition-all duration-200 hover:opacity-90"
+            style={{ backgroundColor: accentHex }}
+          >
+            Keep {formatTime(kept.workedSeconds)}{recovery.stopped ? '' : ' (until now)'}
+          </button>
+
+          {/* Trim */}
+          <div>
+            <label className="block text-sm font-medium mb-2">Or end it at</label>
+            <div className="flex gap-2">
+              <input
+                type="datetime-local"
+                value={trimValue}
+                min={toLocalInput(recovery.startedAt)}
+                max={toLocalInput(keepEnd)}
+                onChange={(e) => setTrimValue(e.target.value)}
+                className={`flex-1 px-3 py-2 rounded-lg border transition-all duration-200 ${
+                  theme === 'dark'
+                    ? 'bg-gray-800 border-gray-700 text-white focus:border-gray-600'
+                    : 'bg-white border-gray-200 text-gray-900 focus:border-gray-400'
+                } focus:outline-none`}
+              />
+              <button
+                onClick={() => onResolve('trim', trimEnd)}
+                disabled={!trimValid}
+                className={`${secondaryButton} ${trimValid ? '' : 'opacity-50 cursor-not-allowed'}`}
+              >
+                Trim{trimmed ? ` to ${formatTime(trimmed.workedSeconds)}` : ''}
+              </button>
+            </div>
+            {!trimValid && (
+              <p className={`flex items-center text-xs mt-2 ${theme === 'dark' ? 'text-red-400' : 'text-red-600'}`}>
+                <AlertTriangle size={12} className="mr-1" />
+                Pick a time between the start and {recovery.stopped ? 'the stop' : 'now'}.
+              </p>
+            )}
+          </div>
+
+          <button onClick={() => onResolve('discard')} className={`w-full ${secondaryButton}`}>
+            Discard
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryDialog;
@@ -0,0 +1,384 @@
+import React, { useState } from 'react';
+import { X, Pencil, Plus, Scissors, AlertTriangle } from 'lucide-react';
+import type { Session, Task } from '../App';
+import { formatTime } from '../utils/timeUtils';
+import { isRestSession, splitSession, toDayKey, validateSession } from '../utils/sessionUtils';
+
+/**
+ * SessionEditor
+ * Modal for fixing history by hand:
+ * - 'create': log a work session after the fact
+ * - 'edit': change a session's task, times and paused time
+ * - 'split': cut a timed session in two at a chosen time
+ *
+ * Changes are handed back as ids to remove plus sessions to add; History applies them.
+ */
+export type SessionEditorMode = 'create' | 'edit' | 'split';
+
+interface SessionEditorProps {
+  mode: SessionEditorMode;
+  /** Session being edited or split */
+  session?: Session;
+  /** Day (Date.toDateString) a new session is created on */
+  date: string;
+  /** All recorded sessions, for overlap checks */
+  sessions: Session[];
+  tasks: Task[];
+  theme: 'light' | 'dark';
+  accentColor: string;
+  onSave: (removeIds: string[], additions: Session[]) => void;
+  onClose: () => void;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toTimeInput = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/** Local date + HH:MM to epoch ms; an unchanged field keeps the original's seconds */
+const resolveTime = (dateValue: string, timeValue: string, originalIso?: string): number => {
+  if (!timeValue) return NaN;
+  if (originalIso && toTimeInput(originalIso) === timeValue && toDayKey(new Date(originalIso)) === dateValue) {
+    return new Date(originalIso).getTime();
+  }
+  return new Date(`${dateValue}T${timeValue}`).getTime();
+};
+
+/**
+ * Date of an end time: 00:00 after a later start is midnight at the end of the day (the first part
+ * of a session split at midnight). Any other time before the start stays on the day and fails validation.
+ */
+const rollDate = (dateValue: string, startValue: string, timeValue: string): string => {
+  if (timeValue !== '00:00' || !startValue || startValue === '00:00') return dateValue;
+  const next = new Date(`${dateValue}T00:00`);
+  next.setDate(next.getDate() + 1);
+  return toDayKey(next);
+};
+
+const SessionEditor: React.FC<SessionEditorProps> = ({
+  mode,
+  session,
+  date,
+  sessions,
+  tasks,
+  theme,
+  accentColor,
+  onSave,
+  onClose
+}) => {
+  const isRest = !!session && isRestSession(session);
+  const isTimed = !!session?.startTime && !!session?.endTime;
+  const taskOptions = tasks.filter(task => task.status !== 'archived' || task.id === session?.taskId);
+  const hasCurrentTask = !!session && tasks.some(task => task.id === session.taskId);
+
+  const [taskId, setTaskId] = useState(session?.taskId || taskOptions[0]?.id || '');
+  const [day, setDay] = useState(toDayKey(new Date(session?.startTime || session?.date || date)));
+  const [startValue, setStartValue] = useState(session ? toTimeInput(session.startTime) : '09:00');
+  const [endValue, setEndValue] = useState(session ? toTimeInput(session.endTime) : '09:25');
+  const [pausedMinutes, setPausedMinutes] = useState(String(Math.round((session?.pausedDuration ?? 0) / 60)));
+  const [durationMinutes, setDurationMinutes] = useState(String(Math.round((session?.duration ?? 0) / 60)));
+  const [splitValue, setSplitValue] = useState(() => {
+    if (!session?.startTime || !session.endTime) return '';
+    const middle = (new Date(session.startTime).getTime() + new Date(session.endTime).getTime()) / 2;
+    return toTimeInput(new Date(middle).toISOString());
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const pausedSeconds = () => {
+    const original = session?.pausedDuration ?? 0;
+    const minutes = Number(pausedMinutes) || 0;
+    return minutes === Math.round(original / 60) ? original : Math.round(minutes * 60);
+  };
+
+  /** Session as it would be saved, or an error message */
+  const buildSession = (): Session | string => {
+    const start = resolveTime(day, startValue, session?.startTime);
+    // An end of 00:00 (e.g. the end of a part split at midnight) is on the next day
+    const end = resolveTime(rollDate(day, startValue, endValue), endValue, session?.endTime);
+    const timed = !isNaN(start) || !isNaN(end);
+    if (!timed && (mode === 'create' || isTimed)) return 'Start and end times are required';
+    if (timed && (isNaN(start) || isNaN(end))) return 'Both start and end times are required';
+
+    const paused = pausedSeconds();
+    const originalDuration = session?.duration ?? 0;
+    const minutes = Number(durationMinutes);
+    const duration = timed
+      ? Math.round((end - start) / 1000) - paused
+      : minutes === Math.round(originalDuration / 60) ? originalDuration : Math.round(minutes * 60);
+    if (timed && end > start && duration < 0) return 'Paused time is longer than the session';
+
+    const task = tasks.find(t => t.id === taskId);
+    const base: Session = session
+      ? { ...session }
+      : { id: `manual-${Date.now()}`, kind: 'work', taskId: '', taskName: '', duration: 0, date };
+
+    if (!isRest && task && task.id !== session?.taskId) {
+      base.taskId = task.id;
+      base.taskName = task.name;
+      // Sessions carry the project and tags of their task
+      delete base.projectId;
+      delete base.tags;
+      if (task.projectId) base.projectId = task.projectId;
+      if (task.tags && task.tags.length > 0) base.tags = task.tags;
+    }
+    if (!isRest && !base.taskId) return 'Choose a task';
+
+    const next: Session = {
+      ...base,
+      duration,
+      date: timed ? new Date(start).toDateString() : new Date(`${day}T00:00`).toDateString()
+    };
+    if (timed) {
+      next.startTime = new Date(start).toISOString();
+      next.endTime = new Date(end).toISOString();
+    } else {
+      delete next.startTime;
+      delete next.endTime;
+    }
+    if (timed && paused > 0) next.pausedDuration = paused;
+    else delete next.pausedDuration;
+    // Overtime is part of the duration, so a shorter session keeps at most all of it as overtime
+    if (next.overtime) next.overtime = Math.min(next.overtime, duration);
+    if (!next.overtime) delete next.overtime;
+    return next;
+  };
+
+  const handleSave = () => {
+    if (mode === 'split') {
+      if (!session?.startTime) return;
+      const startDay = toDayKey(new Date(session.startTime));
+      const at = resolveTime(rollDate(startDay, toTimeInput(session.startTime), splitValue), splitValue);
+      const parts = splitSession(session, at);
+      if (!parts) {
+        setError('Split time must fall inside the session');
+        return;
+      }
+      onSave([session.id], parts);
+      return;
+    }
+
+    const next = buildSession();
+    if (typeof next === 'string') {
+      setError(next);
+      return;
+    }
+    const problem = validateSession(next, sessions, session ? [session.id] : []);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onSave(session ? [session.id] : [], [next]);
+  };
+
+  const preview = mode !== 'split' ? buildSession() : null;
+  const inputClass = `w-full px-3 py-2 rounded-lg border transition-all duration-200 ${
+    theme === 'dark'
+      ? 'bg-gray-800 border-gray-700 text-white focus:border-gray-600'
+      : 'bg-white border-gray-200 text-gray-900 focus:border-gray-400'
+  } focus:outline-none`;
+  const labelClass = 'block text-sm font-medium mb-2';
+  const title = mode === 'create' ? 'Add Session' : mode === 'split' ? 'Split Session' : 'Edit Session';
+  const TitleIcon = mode === 'create' ? Plus : mode === 'split' ? Scissors : Pencil;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div
+        className={`w-full max-w-md ${
+          theme === 'dark' ? 'bg-gray-900' : 'bg-white'
+        } rounded-2xl shadow-2xl border ${
+          theme === 'dark' ? 'border-gray-700' : 'border-gray-200'
+        } overflow-hidden`}
+        style={{ '--accent-color': accentColor } as React.CSSProperties}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onClose();
+        }}
+      >
+        {/* Header */}
+        <div className={`flex items-center justify-between p-5 border-b ${
+          theme === 'dark' ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          <div className="flex items-center space-x-3">
+            <TitleIcon size={20} style={{ color: accentColor }} />
+            <h3 className="text-lg font-semibold">{title}</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className={`p-2 rounded-lg transition-colors ${
+              theme === 'dark' ? 'hover:bg-gray-800' : 'hover:bg-gray-100'
+            }`}
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          {mode === 'split' && session ? (
+            <>
+              <div className={`p-3 rounded-lg text-sm ${theme === 'dark' ? 'bg-gray-800' : 'bg-gray-50'}`}>
+                <div className="font-medium">{session.taskName}</div>
+                <div className={theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}>
+                  {toTimeInput(session.startTime)}–{toTimeInput(session.endTime)} · {formatTime(session.duration)}
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Split at</label>
+                <input
+                  type="time"
+                  value={splitValue}
+                  onChange={(e) => {
+                    setSplitValue(e.target.value);
+                    setError(null);
+                  }}
+                  className={inputClass}
+                />
+                <p className={`text-xs mt-2 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                  Worked and paused time are shared in proportion to each part's length.
+                </p>
+              </div>
+            </>
+          ) : (
+            <>
+              {!isRest && (
+                <div>
+                  <label className={labelClass}>Task</label>
+                  {taskOptions.length === 0 && !session ? (
+                    <p className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                      Add a task first to log time against it.
+                    </p>
+                  ) : (
+                    <select
+                      value={taskId}
+                      onChange={(e) => {
+                        setTaskId(e.target.value);
+                        setError(null);
+                      }}
+                      className={inputClass}
+                    >
+                      {session && !hasCurrentTask && (
+                        <option value={session.taskId}>{session.taskName}</option>
+                      )}
+                      {taskOptions.map(task => (
+                        <option key={task.id} value={task.id}>{task.name}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <label className={labelClass}>Date</label>
+                <input
+                  type="date"
+                  value={day}
+                  onChange={(e) => {
+                    setDay(e.target.value);
+                    setError(null);
+                  }}
+                  className={inputClass}
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className={labelClass}>Start</label>
+                  <input
+                    type="time"
+                    value={startValue}
+                    onChange={(e) => {
+                      setStartValue(e.target.value);
+                      setError(null);
+                    }}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>End</label>
+                  <input
+                    type="time"
+                    value={endValue}
+                    onChange={(e) => {
+                      setEndValue(e.target.value);
+                      setError(null);
+                    }}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Paused (min)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={pausedMinutes}
+                    onChange={(e) => {
+                      setPausedMinutes(e.target.value);
+                      setError(null);
+                    }}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              {session && !isTimed && !startValue && !endValue && (
+                <div>
+                  <label className={labelClass}>Duration (min)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={durationMinutes}
+                    onChange={(e) => {
+                      setDurationMinutes(e.target.value);
+                      setError(null);
+                    }}
+                    className={inputClass}
+                  />
+                  <p className={`text-xs mt-2 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                    This session has no times of day. Set start and end to place it on the timeline.
+                  </p>
+                </div>
+              )}
+
+              {preview && typeof preview !== 'string' && (
+                <div className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {isRest ? 'Rested' : 'Worked'}{' '}
+                  <span className="font-medium" style={{ color: accentColor }}>{formatTime(preview.duration)}</span>
+                </div>
+              )}
+            </>
+          )}
+
+          {error && (
+            <div className={`p-3 rounded-lg flex items-start space-x-2 text-sm ${
+              theme === 'dark' ? 'bg-red-500/10 text-red-400 border border-red-500/30' : 'bg-red-50 text-red-700 border border-red-200'
+            }`}>
+              <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3 pt-1">
+            <button
+              onClick={onClose}
+              className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+                theme === 'dark' ? 'bg-gray-800 hover:bg-gray-700' : 'bg-gray-100 hover:bg-gray-200'
+              }`}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-4 py-2 rounded-lg font-medium text-white transition-all duration-200 hover:opacity-90"
+              style={{ backgroundColor: accentColor }}
+            >
+              {mode === 'split' ? 'Split' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionEditor;
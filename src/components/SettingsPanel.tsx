@@ -1,12 +1,25 @@
 import React, { useState } from 'react';
-import { Bell, BellOff, Palette, Layers, Brush, Music, Plus, Edit3, Trash2, Check, X, Eye, EyeOff, Image as ImageIcon, Timer, CheckSquare, Sun, Moon, Minus, Volume2, Upload, Play } from 'lucide-react';
+import { Bell, BellOff, Palette, Layers, Brush, Music, Plus, Edit3, Trash2, Check, X, Eye, EyeOff, Image as ImageIcon, Timer, CheckSquare, Sun, Moon, Minus, Volume2, Upload, Play, SlidersHorizontal, Save, ChevronUp, ChevronDown, Keyboard, RotateCcw } from 'lucide-react';
 import { HexColorPicker } from 'react-colorful';
-import type { Settings } from '../App';
+import type { Settings, FlowBreakTier, PomodoroStep } from '../App';
 import { useMusicPlayer } from '../hooks/useMusicPlayer';
 import { useColorSystemContext } from '../contexts/ColorSystemContext';
 import { useNotificationContext } from '../contexts/NotificationContext';
 import { getAccentHex, isLightColor } from '../utils/colorSystem';
 import { soundManager, NOTIFICATION_SOUNDS } from '../utils/soundManager';
+import { MAX_BREAK_TIERS, MAX_POMODORO_STEPS, MAX_STEP_LABEL_LENGTH } from '../utils/settingsSchema';
+import { getStepName } from '../utils/pomodoroSequence';
+import { captureProfileSettings, createProfile, describeProfile, findActiveProfile } from '../utils/settingsProfiles';
+import {
+  DEFAULT_SHORTCUTS,
+  eventToBinding,
+  findConflicts,
+  formatBinding,
+  getBindingConflict,
+  resolveShortcuts,
+  SHORTCUT_ACTIONS,
+  type ShortcutAction
+} from '../utils/shortcuts';
 
 /**
  * SettingsPanel.tsx
@@ -18,17 +31,23 @@ import { soundManager, NOTIFICATION_SOUNDS } from '../utils/soundManager';
  * - theme: current resolved theme for surface colors
  *
  * Controls:
- * - Timer settings (mode, flow/pomodoro options)
+ * - Profiles (apply, save current settings as a profile, update, rename, delete)
+ * - Timer settings (mode, flow/pomodoro options, custom Pomodoro sequence, Timer mode countdown)
  * - Task settings (show tasks, require selection)
  * - Music settings (show player, streams)
  * - Notifications (visual, audio, sounds, test buttons)
  * - Appearance (visual effects, colors, backgrounds)
+ * - Keyboard shortcuts (rebind with conflict detection, open the cheat sheet)
  */
 interface SettingsPanelProps {
   /** Current user settings */
   settings: Settings;
   /** Updater that merges provided fields into Settings */
   onUpdateSettings: (settings: Partial<Settings>) => void;
+  /** Called after a profile was deleted, so tasks can drop it */
+  onDeleteProfile?: (profileId: string) => void;
+  /** Opens the keyboard shortcut cheat sheet */
+  onShowShortcuts?: () => void;
   /** Current theme for rendering */
   theme: 'light' | 'dark';
 }
@@ -575,8 +594,8 @@ interface SoundSettingsProps {
 }
 
 function SoundSettings({ theme, settings, onUpdateSettings }: SoundSettingsProps) {
-  const currentVolume = settings.soundVolume ?? 0.5;
-  const currentSoundId = settings.notificationSound ?? 'default';
+  const currentVolume = settings.soundVolume;
+  const currentSoundId = settings.notificationSound;
 
   const handleVolumeChange = (volume: number) => {
     onUpdateSettings({ soundVolume: volume });
@@ -648,12 +667,461 @@ function SoundSettings({ theme, settings, onUpdateSettings }: SoundSettingsProps
   );
 }
 
-function SettingsPanel({ settings, onUpdateSettings, theme }: SettingsPanelProps) {
+// Settings Profiles Component
+interface ProfileSettingsProps {
+  theme: 'light' | 'dark';
+  settings: Settings;
+  onUpdateSettings: (settings: Partial<Settings>) => void;
+  onDeleteProfile?: (profileId: string) => void;
+}
+
+function ProfileSettings({ theme, settings, onUpdateSettings, onDeleteProfile }: ProfileSettingsProps) {
+  const { confirm } = useNotificationContext();
+  const [newProfileName, setNewProfileName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const activeProfile = findActiveProfile(settings);
+
+  const handleCreate = () => {
+    const name = newProfileName.trim();
+    if (!name) return;
+    onUpdateSettings({ profiles: [...settings.profiles, createProfile(name, settings)] });
+    setNewProfileName('');
+  };
+
+  const handleOverwrite = (profileId: string) => {
+    onUpdateSettings({
+      profiles: settings.profiles.map(profile =>
+        profile.id === profileId ? { ...profile, settings: captureProfileSettings(settings) } : profile
+      )
+    });
+  };
+
+  const handleRename = (profileId: string) => {
+    const name = renameValue.trim();
+    if (name) {
+      onUpdateSettings({
+        profiles: settings.profiles.map(profile => profile.id === profileId ? { ...profile, name } : profile)
+      });
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = async (profileId: string, name: string) => {
+    const confirmed = await confirm(`Delete profile "${name}"? Tasks using it keep the current settings when selected.`);
+    if (!confirmed) return;
+    onUpdateSettings({ profiles: settings.profiles.filter(profile => profile.id !== profileId) });
+    onDeleteProfile?.(profileId);
+  };
+
+  const iconButton = `p-1.5 rounded transition-colors ${
+    theme === 'dark'
+      ? 'hover:bg-gray-600 text-gray-400 hover:text-gray-300'
+      : 'hover:bg-gray-200 text-gray-500 hover:text-gray-700'
+  }`;
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {settings.profiles.map(profile => {
+          const isActive = activeProfile?.id === profile.id;
+          return (
+            <div
+              key={profile.id}
+              className={`flex items-center justify-between gap-2 px-3 py-2 rounded-lg border ${
+                isActive
+                  ? 'border-[var(--accent-color)]'
+                  : theme === 'dark' ? 'border-gray-600' : 'border-gray-200'
+              }`}
+            >
+              {renamingId === profile.id ? (
+                <input
+                  type="text"
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleRename(profile.id);
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  onBlur={() => handleRename(profile.id)}
+                  maxLength={30}
+                  autoFocus
+                  className={`flex-1 min-w-0 px-2 py-1 rounded text-sm border ${
+                    theme === 'dark' ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                  } focus:outline-none`}
+                />
+              ) : (
+                <button
+                  onClick={() => onUpdateSettings(profile.settings)}
+                  className="flex-1 min-w-0 text-left"
+                  title="Apply profile"
+                >
+                  <div className={`text-sm font-medium truncate ${theme === 'dark' ? 'text-gray-200' : 'text-gray-800'}`}>
+                    {profile.name}
+                    {isActive && (
+                      <span className="ml-2 text-[10px] font-semibold uppercase" style={{ color: 'var(--accent-color)' }}>
+                        Active
+                      </span>
+                    )}
+                  </div>
+                  <div className={`text-xs ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {describeProfile(profile)}
+                  </div>
+                </button>
+              )}
+              <div className="flex items-center gap-1 flex-shrink-0">
+                {!isActive && (
+                  <button
+                    onClick={() => handleOverwrite(profile.id)}
+                    className={iconButton}
+                    title="Save current settings into this profile"
+                  >
+                    <Save size={14} />
+                  </button>
+                )}
+                <button
+                  onClick={() => {
+                    setRenamingId(profile.id);
+                    setRenameValue(profile.name);
+                  }}
+                  className={iconButton}
+                  title="Rename"
+                >
+                  <Edit3 size={14} />
+                </button>
+                <button
+                  onClick={() => handleDelete(profile.id, profile.name)}
+                  className={iconButton}
+                  title="Delete profile"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Save current settings as a new profile */}
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={newProfileName}
+          onChange={(e) => setNewProfileName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleCreate();
+          }}
+          placeholder="New profile from current settings..."
+          maxLength={30}
+          className={`flex-1 min-w-0 px-3 py-2 rounded-lg text-sm border transition-colors ${
+            theme === 'dark'
+              ? 'bg-gray-700 border-gray-600 text-gray-300 placeholder-gray-500 focus:border-gray-500'
+              : 'bg-white border-gray-300 text-gray-700 placeholder-gray-400 focus:border-gray-400'
+          } focus:outline-none`}
+        />
+        <button
+          onClick={handleCreate}
+          disabled={!newProfileName.trim()}
+          className="p-2 rounded-lg settings-active-button disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Save as profile"
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+      <p className={`text-xs ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+        A profile sets the timer mode, breaks, notification sound and accent color. Attach one to a task to apply it when the task is selected.
+      </p>
+    </div>
+  );
+}
+
+/** Whole number typed into a settings field, or null while it is empty or out of range */
+const parseMinutes = (value: string, min: number, max: number): number | null => {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < min || parsed > max ? null : parsed;
+};
+
+// Custom Pomodoro Sequence Component
+interface PomodoroSequenceSettingsProps {
+  theme: 'light' | 'dark';
+  settings: Settings;
+  onUpdateSettings: (settings: Partial<Settings>) => void;
+}
+
+const STEP_KINDS: { kind: PomodoroStep['kind']; name: string }[] = [
+  { kind: 'work', name: 'Work' },
+  { kind: 'break', name: 'Break' },
+  { kind: 'long-break', name: 'Long break' }
+];
+
+function PomodoroSequenceSettings({ theme, settings, onUpdateSettings }: PomodoroSequenceSettingsProps) {
+  const steps = settings.pomodoroSequence;
+  const totalMinutes = steps.reduce((sum, step) => sum + step.minutes, 0);
+
+  // Every change keeps a work step first, the same rule the settings schema enforces
+  const setSteps = (next: PomodoroStep[]) => {
+    if (next.length > 0 && next[0].kind === 'work') onUpdateSettings({ pomodoroSequence: next });
+  };
+  const updateStep = (index: number, changes: Partial<PomodoroStep>) => {
+    setSteps(steps.map((step, i) => i === index ? { ...step, ...changes } : step));
+  };
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= steps.length) return;
+    const next = [...steps];
+    [next[index], next[target]] = [next[target], next[index]];
+    setSteps(next);
+  };
+  const canRemove = (index: number) => steps.length > 1 && (index > 0 || steps[1].kind === 'work');
+  const addStep = () => {
+    const last = steps[steps.length - 1];
+    setSteps([...steps, last.kind === 'work' ? { kind: 'break', minutes: 5 } : { kind: 'work', minutes: 25 }]);
+  };
+
+  const inputClass = `px-2 py-1 rounded text-xs border transition-colors ${
+    theme === 'dark' 
+      ? 'bg-gray-700 text-white border-gray-600 focus:border-gray-500' 
+      : 'bg-white text-gray-900 border-gray-300 focus:border-gray-400'
+  } focus:outline-none focus:ring-1 focus:ring-opacity-50 disabled:opacity-50`;
+  const iconButtonClass = `p-1 rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+    theme === 'dark' ? 'text-gray-400 hover:bg-gray-600 hover:text-gray-300' : 'text-gray-500 hover:bg-gray-200 hover:text-gray-700'
+  }`;
+
+  return (
+    <div className="space-y-2">
+      {steps.map((step, index) => (
+        <div
+          key={index}
+          className={`p-2 rounded-lg border space-y-1 ${theme === 'dark' ? 'border-gray-600' : 'border-gray-200'}`}
+        >
+          <div className="flex items-center gap-1">
+            <span className={`w-4 text-xs ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>{index + 1}</span>
+            <select
+              value={step.kind}
+              onChange={(e) => updateStep(index, { kind: e.target.value as PomodoroStep['kind'] })}
+              disabled={index === 0}
+              className={`flex-1 min-w-0 ${inputClass}`}
+              title={index === 0 ? 'A sequence starts with work' : undefined}
+            >
+              {STEP_KINDS.map(({ kind, name }) => (
+                <option key={kind} value={kind}>{name}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="1"
+              max="180"
+              value={step.minutes}
+              onChange={(e) => {
+                const minutes = parseMinutes(e.target.value, 1, 180);
+                if (minutes !== null) updateStep(index, { minutes });
+              }}
+              className={`w-14 ${inputClass}`}
+            />
+            <span className={`text-xs ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>min</span>
+            <button onClick={() => moveStep(index, -1)} disabled={index === 0} className={iconButtonClass} title="Move up">
+              <ChevronUp size={12} />
+            </button>
+            <button onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1} className={iconButtonClass} title="Move down">
+              <ChevronDown size={12} />
+            </button>
+            <button
+              onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+              disabled={!canRemove(index)}
+              className={iconButtonClass}
+              title="Remove step"
+            >
+              <X size={12} />
+            </button>
+          </div>
+          <div className="flex items-center gap-1 pl-5">
+            <input
+              type="text"
+              value={step.label ?? ''}
+              onChange={(e) => updateStep(index, { label: e.target.value || undefined })}
+              maxLength={MAX_STEP_LABEL_LENGTH}
+              placeholder={getStepName({ kind: step.kind, minutes: step.minutes })}
+              className={`flex-1 min-w-0 ${inputClass}`}
+            />
+            <select
+              value={step.sound ?? ''}
+              onChange={(e) => updateStep(index, { sound: e.target.value || undefined })}
+              className={`w-24 ${inputClass}`}
+              title="Sound when this step starts"
+            >
+              <option value="">Default sound</option>
+              {NOTIFICATION_SOUNDS.map((sound) => (
+                <option key={sound.id} value={sound.id}>{sound.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        {steps.length < MAX_POMODORO_STEPS ? (
+          <button
+            onClick={addStep}
+            className={`flex items-center px-2 py-1 rounded text-xs font-medium transition-colors ${
+              theme === 'dark' ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            <Plus size={12} className="mr-1" />
+            Add step
+          </button>
+        ) : <span />}
+        <span className={`text-xs ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+          {steps.length} steps · {totalMinutes} min
+        </span>
+      </div>
+    </div>
+  );
+}
+
+// Keyboard Shortcuts Component
+interface ShortcutSettingsProps {
+  theme: 'light' | 'dark';
+  settings: Settings;
+  onUpdateSettings: (settings: Partial<Settings>) => void;
+  onShowShortcuts?: () => void;
+}
+
+function ShortcutSettings({ theme, settings, onUpdateSettings, onShowShortcuts }: ShortcutSettingsProps) {
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const bindings = resolveShortcuts(settings);
+  const conflicts = findConflicts(bindings);
+
+  // Only bindings that differ from the default are stored
+  const setBinding = (action: ShortcutAction, binding: string) => {
+    const shortcuts = { ...settings.shortcuts, [action]: binding };
+    if (binding === DEFAULT_SHORTCUTS[action]) delete shortcuts[action];
+    onUpdateSettings({ shortcuts });
+  };
+
+  const stopCapturing = () => {
+    setCapturing(null);
+    setError(null);
+  };
+
+  // While capturing, the key press is the new binding and never reaches the shortcuts themselves
+  const handleCaptureKey = (action: ShortcutAction, e: React.KeyboardEvent) => {
+    if (e.key === 'Tab') return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (e.key === 'Escape') return stopCapturing();
+    if (e.key === 'Backspace' || e.key === 'Delete') {
+      setBinding(action, '');
+      return stopCapturing();
+    }
+    const binding = eventToBinding(e.nativeEvent);
+    if (!binding) return;
+
+    const conflict = getBindingConflict(bindings, action, binding);
+    if (conflict) {
+      setError(conflict);
+      return;
+    }
+    setBinding(action, binding);
+    stopCapturing();
+  };
+
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-500';
+  const secondaryButton = `px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+    theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600 text-gray-200' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+  }`;
+
+  return (
+    <div className="space-y-2">
+      {SHORTCUT_ACTIONS.map(({ action, label }) => {
+        const isCapturing = capturing === action;
+        const isCustom = action in settings.shortcuts;
+        return (
+          <div key={action}>
+            <div className="flex items-center justify-between gap-2">
+              <span className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-200' : 'text-gray-800'}`}>
+                {label}
+              </span>
+              <div className="flex items-center gap-1">
+                {isCustom && (
+                  <button
+                    onClick={() => setBinding(action, DEFAULT_SHORTCUTS[action])}
+                    className={`p-1 rounded transition-colors ${
+                      theme === 'dark' ? 'hover:bg-gray-600 text-gray-400' : 'hover:bg-gray-200 text-gray-500'
+                    }`}
+                    title={`Back to ${formatBinding(DEFAULT_SHORTCUTS[action])}`}
+                  >
+                    <RotateCcw size={12} />
+                  </button>
+                )}
+                <button
+                  onClick={() => {
+                    setCapturing(isCapturing ? null : action);
+                    setError(null);
+                  }}
+                  onKeyDown={isCapturing ? (e) => handleCaptureKey(action, e) : undefined}
+                  onBlur={isCapturing ? stopCapturing : undefined}
+                  className={`min-w-[6rem] px-2 py-1 rounded border font-mono text-xs transition-colors ${
+                    isCapturing
+                      ? 'border-[var(--accent-color)]'
+                      : conflicts.has(action)
+                        ? 'border-red-500 text-red-500'
+                        : theme === 'dark' ? 'border-gray-600 bg-gray-700 text-gray-200' : 'border-gray-300 bg-white text-gray-800'
+                  } ${bindings[action] || isCapturing ? '' : mutedText}`}
+                  title={isCapturing ? 'Press the new keys · Esc cancels · Backspace clears' : 'Click to change'}
+                >
+                  {isCapturing ? 'Press keys…' : formatBinding(bindings[action])}
+                </button>
+              </div>
+            </div>
+            {isCapturing && error && (
+              <p className="text-xs text-red-500 mt-1 text-right">{error}</p>
+            )}
+            {!isCapturing && conflicts.has(action) && (
+              <p className="text-xs text-red-500 mt-1 text-right">Conflicts with another binding; inactive until changed</p>
+            )}
+          </div>
+        );
+      })}
+
+      <p className={`text-xs pt-1 ${mutedText}`}>
+        Shortcuts are off while typing in a field.
+      </p>
+      <div className="flex items-center gap-2 pt-1">
+        {onShowShortcuts && (
+          <button onClick={onShowShortcuts} className={secondaryButton}>
+            Show cheat sheet
+          </button>
+        )}
+        {Object.keys(settings.shortcuts).length > 0 && (
+          <button onClick={() => onUpdateSettings({ shortcuts: {} })} className={secondaryButton}>
+            Reset all
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SettingsPanel({ settings, onUpdateSettings, onDeleteProfile, onShowShortcuts, theme }: SettingsPanelProps) {
   const colorSystem = useColorSystemContext();
   const { confirm, showSuccess, showError, showInfo, showConfirm } = useNotificationContext();
   
   // Get hex value for the current accent color
   const accentHex = getAccentHex(settings.accentColor, colorSystem.getAllAccentColors());
+
+  const numberInputClass = `px-2 py-1 rounded text-xs border transition-colors ${
+    theme === 'dark' 
+      ? 'bg-gray-700 text-white border-gray-600 focus:border-gray-500' 
+      : 'bg-white text-gray-900 border-gray-300 focus:border-gray-400'
+  } focus:outline-none focus:ring-1 focus:ring-opacity-50`;
+
+  const updateTier = (index: number, changes: Partial<FlowBreakTier>) => {
+    onUpdateSettings({
+      flowBreakTiers: settings.flowBreakTiers.map((tier, i) => i === index ? { ...tier, ...changes } : tier)
+    });
+  };
   
   return (
     <div 
@@ -679,6 +1147,24 @@ function SettingsPanel({ settings, onUpdateSettings, theme }: SettingsPanelProps
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 lg:gap-8">
         {/* Left Column */}
         <div className="space-y-6">
+          {/* Profiles */}
+          <div className={`p-5 rounded-xl border-2 ${
+            theme === 'dark' ? 'border-gray-600 bg-gray-800/70' : 'border-gray-300 bg-gray-50/80'
+          }`}>
+            <h4 className={`text-sm font-semibold mb-4 flex items-center ${
+              theme === 'dark' ? 'text-gray-200' : 'text-gray-800'
+            }`}>
+              <SlidersHorizontal size={16} className="mr-2" />
+              Profiles
+            </h4>
+            <ProfileSettings
+              theme={theme}
+              settings={settings}
+              onUpdateSettings={onUpdateSettings}
+              onDeleteProfile={onDeleteProfile}
+            />
+          </div>
+
           {/* Timer Settings */}
           <div className={`p-5 rounded-xl border-2 ${
             theme === 'dark' ? 'border-gray-600 bg-gray-800/70' : 'border-gray-300 bg-gray-50/80'
@@ -699,7 +1185,7 @@ function SettingsPanel({ settings, onUpdateSettings, theme }: SettingsPanelProps
                   <button
                     onClick={() => onUpdateSettings({ timerMode: 'flow' })}
                     className={`px-3 py-1.5 rounded text-xs font-medium transition-colors ${
-                      (settings.timerMode ?? 'pomodoro') === 'flow'
+                      settings.timerMode === 'flow'
                         ? 'settings-active-button'
                         : theme === 'dark'
                           ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
@@ -711,7 +1197,7 @@ function SettingsPanel({ settings, onUpdateSettings, theme }: SettingsPanelProps
                   <button
                     onClick={() => onUpdateSettings({ timerMode: 'pomodoro' })}
                     className={`px-3 py-1.5 rounded text-xs font-medium transition-colors ${
-                      (settings.timerMode ?? 'pomodoro') === 'pomodoro'
+                      settings.timerMode === 'pomodoro'
                         ? 'settings-active-button'
                         : theme === 'dark'
                           ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
@@ -723,7 +1209,7 @@ function SettingsPanel({ settings, onUpdateSettings, theme }: SettingsPanelProps
                   <button
                     onClick={() => onUpdateSettings({ timerMode: 'timer' })}
                     className={`px-3 py-1.5 rounded text-xs font-medium transition-colors ${
-                      (settings.timerMode ?? 'pomodoro') === 'timer'
+                      settings.timerMode === 'timer'
                         ? 'settings-active-button'
                         : theme === 'dark'
                           ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
@@ -740,9 +1226,9 @@ function SettingsPanel({ settings, onUpdateSettings, theme }: SettingsPanelProps
                     ? 'bg-gray-700/50 border-gray-600 text-gray-400' 
                     : 'bg-gray-50 border-gray-200 text-gray-500'
                 }`}>
-                  {(settings.timerMode ?? 'pomodoro') === 'flow' ? (
+                  {settings.timerMode === 'flow' ? (
                     'Work as long as you need. Timer counts up.'
-                  ) : (settings.timerMode ?? 'pomodoro') === 'timer' ? (
+                  ) : settings.timerMode === 'timer' ? (
                     'Simple start-stop timer. No breaks.'
                   ) : (
                     'Fixed work/break cycles. Timer counts down.'
@@ -751,7 +1237,7 @@ function SettingsPanel({ settings, onUpdateSettings, theme }: SettingsPanelProps
               </div>
 
               {/* Flow Mode Settings */}
-              {(settings.timerMode ?? 'flow') === 'flow' && (
+              {settings.timerMode === 'flow' && (
                 <div className="space-y-3 pl-3 border-l border-gray-300 dark:border-gray-600">
                   {/* Enable Breaks Toggle */}
                   <div className="flex items-center justify-between">
@@ -759,38 +1245,38 @@ function SettingsPanel({ settings, onUpdateSettings, theme }: SettingsPanelProps
                       Enable breaks
                     </span>
                     <button
-                      onClick={() => onUpdateSettings({ flowBreakEnabled: !(settings.flowBreakEnabled ?? true) })}
+                      onClick={() => onUpdateSettings({ flowBreakEnabled: !settings.flowBreakEnabled })}
                       className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
-                        (settings.flowBreakEnabled ?? true)
+                        settings.flowBreakEnabled
                           ? 'settings-active-toggle'
                           : theme === 'dark' ? 'bg-gray-600' : 'bg-gray-300'
                       }`}
                     >
                       <span
                         className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${
-                          (settings.flowBreakEnabled ?? true) ? 'translate-x-5' : 'translate-x-1'
+                          settings.flowBreakEnabled ? 'translate-x-5' : 'translate-x-1'
                         }`}
                       />
                     </button>
                   </div>
 
                   {/* Skip Breaks Toggle - only show if breaks are enabled */}
-                  {(settings.flowBreakEnabled ?? true) && (
+                  {settings.flowBreakEnabled && (
                     <div className="flex items-center justify-between">
                       <span className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
                         Allow skip breaks
                       </span>
                       <button
-                        onClick={() => onUpdateSettings({ flowBreakSkipEnabled: !(settings.flowBreakSkipEnabled ?? true) })}
+                        onClick={() => onUpdateSettings({ flowBreakSkipEnabled: !settings.flowBreakSkipEnabled })}
                         className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
-                          (settings.flowBreakSkipEnabled ?? true)
+                          settings.flowBreakSkipEnabled
                             ? 'settings-active-toggle'
                             : theme === 'dark' ? 'bg-gray-600' : 'bg-gray-300'
                         }`}
                       >
                         <span
                           className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${
-                            (settings.flowBreakSkipEnabled ?? true) ? 'translate-x-5' : 'translate-x-1'
+                            settings.flowBreakSkipEnabled ? 'translate-x-5' : 'translate-x-1'
                           }`}
                         />
                       </button>
@@ -798,7 +1284,7 @@ function SettingsPanel({ settings, onUpdateSettings, theme }: SettingsPanelProps
                   )}
 
                   {/* Break Settings */}
-                  {(settings.flowBreakEnabled ?? true) && (
+                  {settings.flowBreakEnabled && (
                     <>
                       <div className="space-y-2">
                         <span className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
@@ -808,7 +1294,7 @@ function SettingsPanel({ settings, onUpdateSettings, theme }: SettingsPanelProps
                           <button
                             onClick={() => onUpdateSettings({ flowBreakType: 'percentage' })}
                             className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
-                              (settings.flowBreakType ?? 'percentage') === 'percentage'
+                              settings.flowBreakType === 'percentage'
                                 ? 'settings-active-button'
                                 : theme === 'dark' 
                                   ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
@@ -820,7 +1306,7 @@ function SettingsPanel({ settings, onUpdateSettings, theme }: SettingsPanelProps
                           <button
                             onClick={() => onUpdateSettings({ flowBreakType: 'fixed' })}
                       className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
-                              (settings.flowBreakType ?? 'percentage') === 'fixed'
+                              settings.flowBreakType === 'fixed'
                                 ? 'settings-active-button'
                                 : theme === 'dark' 
                                   ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
@@ -829,11 +1315,23 @@ function SettingsPanel({ settings, onUpdateSettings, theme }: SettingsPanelProps
                           >
                             Fixed
                           </button>
+                          <button
+                            onClick={() => onUpdateSettings({ flowBreakType: 'tiered' })}
+                            className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                              settings.flowBreakType === 'tiered'
+                                ? 'settings-active-button'
+                                : theme === 'dark' 
+                                  ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                            }`}
+                          >
+                            Tiered
+                          </button>
                         </div>
                       </div>
 
                       {/* Percentage Options */}
-                      {(settings.flowBreakType ?? 'percentage') === 'percentage' && (
+                      {settings.flowBreakType === 'percentage' && (
                         <div className="space-y-1">
                           <span className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
                             Break %
@@ -842,9 +1340,9 @@ function SettingsPanel({ settings, onUpdateSettings, theme }: SettingsPanelProps
                             {[10, 15, 20, 25].map(percent => (
                               <button
                                 key={percent}
-                                onClick={() => onUpdateSettings({ flowBreakPercentage: percent as 10 | 15 | 20 | 25 })}
+                                onClick={() => onUpdateSettings({ flowBreakPercentage: percent })}
                                 className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
-                                  (settings.flowBreakPercentage ?? 20) === percent
+                                  settings.flowBreakPercentage === percent
                                     ? 'settings-active-button'
                                     : theme === 'dark' 
                                       ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
@@ -854,12 +1352,24 @@ function SettingsPanel({ settings, onUpdateSettings, theme }: SettingsPanelProps
                                 {percent}%
                               </button>
                             ))}
+                            <input
+                              type="number"
+                              min="1"
+                              max="100"
+                              value={settings.flowBreakPercentage}
+                              onChange={(e) => {
+                                const percent = parseMinutes(e.target.value, 1, 100);
+                                if (percent !== null) onUpdateSettings({ flowBreakPercentage: percent });
+                              }}
+                              className={`w-14 ${numberInputClass}`}
+                              title="Custom percentage"
+                            />
                           </div>
                         </div>
                       )}
 
                       {/* Fixed Options */}
-                      {(settings.flowBreakType ?? 'percentage') === 'fixed' && (
+                      {settings.flowBreakType === 'fixed' && (
                         <div className="space-y-1">
                           <span className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
                             Break (min)
@@ -870,7 +1380,7 @@ function SettingsPanel({ settings, onUpdateSettings, theme }: SettingsPanelProps
                                 key={minutes}
                                 onClick={() => onUpdateSettings({ flowBreakFixed: minutes as 5 | 10 | 20 | 30 })}
                                 className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
-                                  (settings.flowBreakFixed ?? 10) === minutes
+                                  settings.flowBreakFixed === minutes
                                     ? 'settings-active-button'
                                     : theme === 'dark' 
                                       ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
@@ -883,75 +1393,392 @@ function SettingsPanel({ settings, onUpdateSettings, theme }: SettingsPanelProps
                           </div>
                         </div>
                       )}
+
+                      {/* Tiered Options */}
+                      {settings.flowBreakType === 'tiered' && (
+                        <div className="space-y-1">
+                          <span className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
+                            Break by session length
+                          </span>
+                          {settings.flowBreakTiers.map((tier, index) => (
+                            <div key={index} className={`flex items-center gap-1 text-xs ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                              <span className="w-12">Under</span>
+                              <input
+                                type="number"
+                                min="1"
+                                max="600"
+                                value={tier.underMinutes}
+                                onChange={(e) => {
+                                  const underMinutes = parseMinutes(e.target.value, 1, 600);
+                                  if (underMinutes !== null) updateTier(index, { underMinutes });
+                                }}
+                                className={`w-14 ${numberInputClass}`}
+                              />
+                              <span>min →</span>
+                              <input
+                                type="number"
+                                min="1"
+                                max="120"
+                                value={tier.breakMinutes}
+                                onChange={(e) => {
+                                  const breakMinutes = parseMinutes(e.target.value, 1, 120);
+                                  if (breakMinutes !== null) updateTier(index, { breakMinutes });
+                                }}
+                                className={`w-14 ${numberInputClass}`}
+                              />
+                              <span>min</span>
+                              <button
+                                onClick={() => onUpdateSettings({ flowBreakTiers: settings.flowBreakTiers.filter((_, i) => i !== index) })}
+                                className={`p-1 rounded transition-colors ${
+                                  theme === 'dark' ? 'hover:bg-gray-600 hover:text-gray-300' : 'hover:bg-gray-200 hover:text-gray-700'
+                                }`}
+                                title="Remove tier"
+                              >
+                                <X size={12} />
+                              </button>
+                            </div>
+                          ))}
+                          <div className={`flex items-center gap-1 text-xs ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                            <span className="w-12">Longer</span>
+                            <span className="w-14" />
+                            <span>→</span>
+                            <input
+                              type="number"
+                              min="1"
+                              max="120"
+                              value={settings.flowBreakTierFallback}
+                              onChange={(e) => {
+                                const minutes = parseMinutes(e.target.value, 1, 120);
+                                if (minutes !== null) onUpdateSettings({ flowBreakTierFallback: minutes });
+                              }}
+                              className={`w-14 ${numberInputClass}`}
+                            />
+                            <span>min</span>
+                          </div>
+                          {settings.flowBreakTiers.length < MAX_BREAK_TIERS && (
+                            <button
+                              onClick={() => {
+                                const longest = settings.flowBreakTiers.reduce((max, tier) => Math.max(max, tier.underMinutes), 0);
+                                onUpdateSettings({
+                                  flowBreakTiers: [
+                                    ...settings.flowBreakTiers,
+                                    { underMinutes: Math.min(600, longest + 25), breakMinutes: settings.flowBreakTierFallback }
+                                  ]
+                                });
+                              }}
+                              className={`flex items-center px-2 py-1 rounded text-xs font-medium transition-colors ${
+                                theme === 'dark' ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                              }`}
+                            >
+                              <Plus size={12} className="mr-1" />
+                              Add tier
+                            </button>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Limits */}
+                      <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-1">
+                          <span className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
+                            Min break (min)
+                          </span>
+                          <input
+                            type="number"
+                            min="0"
+                            max="120"
+                            value={settings.flowBreakMinMinutes}
+                            onChange={(e) => {
+                              const minutes = parseMinutes(e.target.value, 0, 120);
+                              if (minutes !== null) onUpdateSettings({ flowBreakMinMinutes: minutes });
+                            }}
+                            className={`w-full ${numberInputClass}`}
+                            title="0 = no minimum"
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <span className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
+                            Max break (min)
+                          </span>
+                          <input
+                            type="number"
+                            min="0"
+                            max="120"
+                            value={settings.flowBreakMaxMinutes}
+                            onChange={(e) => {
+                              const minutes = parseMinutes(e.target.value, 0, 120);
+                              if (minutes !== null) onUpdateSettings({ flowBreakMaxMinutes: minutes });
+                            }}
+                            className={`w-full ${numberInputClass}`}
+                            title="0 = no maximum"
+                          />
+                        </div>
+                      </div>
+
+                      {/* Bank Unused Break Toggle */}
+                      <div className="flex items-center justify-between">
+                        <span
+                          className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}
+                          title="Break time left when you skip a break is added to your next break (up to 60 min)"
+                        >
+                          Bank unused break
+                        </span>
+                        <button
+                          onClick={() => onUpdateSettings({ flowBreakBankUnused: !settings.flowBreakBankUnused })}
+                          className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+                            settings.flowBreakBankUnused
+                              ? 'settings-active-toggle'
+                              : theme === 'dark' ? 'bg-gray-600' : 'bg-gray-300'
+                          }`}
+                        >
+                          <span
+                            className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${
+                              settings.flowBreakBankUnused ? 'translate-x-5' : 'translate-x-1'
+                            }`}
+                          />
+                        </button>
+                      </div>
                     </>
                   )}
                 </div>
               )}
 
-              {/* Pomodoro Mode Settings */}
-              {(settings.timerMode ?? 'flow') === 'pomodoro' && (
+              {/* Timer Mode Settings */}
+              {settings.timerMode === 'timer' && (
                 <div className="space-y-3 pl-3 border-l border-gray-300 dark:border-gray-600">
-                  {/* Work & Break Duration */}
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                    <div className="space-y-1">
-                      <span className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
-                        Work (min)
-                      </span>
-                      <input
-                        type="number"
-                        min="1"
-                        max="60"
-                        value={settings.pomodoroWorkDuration ?? 25}
-                        onChange={(e) => onUpdateSettings({ pomodoroWorkDuration: parseInt(e.target.value) })}
-                        className={`w-full px-2 py-1 rounded text-xs border transition-colors ${
-                          theme === 'dark' 
-                            ? 'bg-gray-700 text-white border-gray-600 focus:border-gray-500' 
-                            : 'bg-white text-gray-900 border-gray-300 focus:border-gray-400'
-                        } focus:outline-none focus:ring-1 focus:ring-opacity-50`}
-                      />
-                    </div>
-                    <div className="space-y-1">
-                      <span className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
-                        Break (min)
-                      </span>
-                      <input
-                        type="number"
-                        min="1"
-                        max="30"
-                        value={settings.pomodoroBreakDuration ?? 5}
-                        onChange={(e) => onUpdateSettings({ pomodoroBreakDuration: parseInt(e.target.value) })}
-                        className={`w-full px-2 py-1 rounded text-xs border transition-colors ${
-                          theme === 'dark' 
-                            ? 'bg-gray-700 text-white border-gray-600 focus:border-gray-500' 
-                            : 'bg-white text-gray-900 border-gray-300 focus:border-gray-400'
-                        } focus:outline-none focus:ring-1 focus:ring-opacity-50`}
+                  {/* Countdown Toggle */}
+                  <div className="flex items-center justify-between">
+                    <span className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
+                      Count down
+                    </span>
+                    <button
+                      onClick={() => onUpdateSettings({ timerCountdownEnabled: !settings.timerCountdownEnabled })}
+                      className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+                        settings.timerCountdownEnabled
+                          ? 'settings-active-toggle'
+                          : theme === 'dark' ? 'bg-gray-600' : 'bg-gray-300'
+                      }`}
+                    >
+                      <span
+                        className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${
+                          settings.timerCountdownEnabled ? 'translate-x-5' : 'translate-x-1'
+                        }`}
                       />
-                    </div>
+                    </button>
                   </div>
 
-                  {/* Sessions */}
-                  <div className="space-y-1">
-                    <span className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
-                      Sessions
-                    </span>
-                    <div className="flex gap-1">
-                      {[1, 2, 3, 4, 6, 8].map(sessions => (
+                  {settings.timerCountdownEnabled && (
+                    <>
+                      {/* Countdown Source */}
+                      <div className="space-y-1">
+                        <span className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
+                          Count down from
+                        </span>
+                        <div className="flex gap-1">
+                          {([['fixed', 'Duration'], ['goal', 'Task goal left']] as const).map(([source, label]) => (
+                            <button
+                              key={source}
+                              onClick={() => onUpdateSettings({ timerCountdownSource: source })}
+                              className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                                settings.timerCountdownSource === source
+                                  ? 'settings-active-button'
+                                  : theme === 'dark' 
+                                    ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                              }`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+
+                      {/* Countdown Duration */}
+                      <div className="space-y-1">
+                        <span
+                          className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}
+                          title={settings.timerCountdownSource === 'goal' ? 'Used when the task has no daily goal or no time left on it' : undefined}
+                        >
+                          {settings.timerCountdownSource === 'goal' ? 'Without a goal (min)' : 'Duration (min)'}
+                        </span>
+                        <input
+                          type="number"
+                          min="1"
+                          max="600"
+                          value={settings.timerCountdownMinutes}
+                          onChange={(e) => {
+                            const minutes = parseMinutes(e.target.value, 1, 600);
+                            if (minutes !== null) onUpdateSettings({ timerCountdownMinutes: minutes });
+                          }}
+                          className={`w-full ${numberInputClass}`}
+                        />
+                      </div>
+
+                      {/* Overtime Toggle */}
+                      <div className="flex items-center justify-between">
+                        <span
+                          className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}
+                          title="Keep counting past zero; otherwise the session ends at zero"
+                        >
+                          Count overtime
+                        </span>
                         <button
-                          key={sessions}
-                          onClick={() => onUpdateSettings({ pomodoroSessions: sessions })}
-                          className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
-                            (settings.pomodoroSessions ?? 4) === sessions
-                              ? 'settings-active-button'
-                              : theme === 'dark' 
-                                ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                          onClick={() => onUpdateSettings({ timerOvertimeEnabled: !settings.timerOvertimeEnabled })}
+                          className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+                            settings.timerOvertimeEnabled
+                              ? 'settings-active-toggle'
+                              : theme === 'dark' ? 'bg-gray-600' : 'bg-gray-300'
                           }`}
                         >
-                          {sessions}
+                          <span
+                            className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${
+                              settings.timerOvertimeEnabled ? 'translate-x-5' : 'translate-x-1'
+                            }`}
+                          />
                         </button>
-                      ))}
-                    </div>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* Pomodoro Mode Settings */}
+              {settings.timerMode === 'pomodoro' && (
+                <div className="space-y-3 pl-3 border-l border-gray-300 dark:border-gray-600">
+                  {/* Custom Sequence Toggle */}
+                  <div className="flex items-center justify-between">
+                    <span
+                      className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}
+                      title="Run your own list of work and break steps instead of repeated sessions"
+                    >
+                      Custom sequence
+                    </span>
+                    <button
+                      onClick={() => onUpdateSettings({ pomodoroSequenceEnabled: !settings.pomodoroSequenceEnabled })}
+                      className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+                        settings.pomodoroSequenceEnabled
+                          ? 'settings-active-toggle'
+                          : theme === 'dark' ? 'bg-gray-600' : 'bg-gray-300'
+                      }`}
+                    >
+                      <span
+                        className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${
+                          settings.pomodoroSequenceEnabled ? 'translate-x-5' : 'translate-x-1'
+                        }`}
+                      />
+                    </button>
                   </div>
+
+                  {settings.pomodoroSequenceEnabled ? (
+                    <PomodoroSequenceSettings theme={theme} settings={settings} onUpdateSettings={onUpdateSettings} />
+                  ) : (
+                    <>
+                      {/* Work & Break Duration */}
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        <div className="space-y-1">
+                          <span className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
+                            Work (min)
+                          </span>
+                          <input
+                            type="number"
+                            min="1"
+                            max="60"
+                            value={settings.pomodoroWorkDuration}
+                            onChange={(e) => onUpdateSettings({ pomodoroWorkDuration: parseInt(e.target.value) })}
+                            className={`w-full px-2 py-1 rounded text-xs border transition-colors ${
+                              theme === 'dark' 
+                                ? 'bg-gray-700 text-white border-gray-600 focus:border-gray-500' 
+                                : 'bg-white text-gray-900 border-gray-300 focus:border-gray-400'
+                            } focus:outline-none focus:ring-1 focus:ring-opacity-50`}
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <span className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
+                            Break (min)
+                          </span>
+                          <input
+                            type="number"
+                            min="1"
+                            max="30"
+                            value={settings.pomodoroBreakDuration}
+                            onChange={(e) => onUpdateSettings({ pomodoroBreakDuration: parseInt(e.target.value) })}
+                            className={`w-full px-2 py-1 rounded text-xs border transition-colors ${
+                              theme === 'dark' 
+                                ? 'bg-gray-700 text-white border-gray-600 focus:border-gray-500' 
+                                : 'bg-white text-gray-900 border-gray-300 focus:border-gray-400'
+                            } focus:outline-none focus:ring-1 focus:ring-opacity-50`}
+                          />
+                        </div>
+                      </div>
+
+                      {/* Sessions */}
+                      <div className="space-y-1">
+                        <span className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
+                          Sessions
+                        </span>
+                        <div className="flex gap-1">
+                          {[1, 2, 3, 4, 6, 8].map(sessions => (
+                            <button
+                              key={sessions}
+                              onClick={() => onUpdateSettings({ pomodoroSessions: sessions })}
+                              className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                                settings.pomodoroSessions === sessions
+                                  ? 'settings-active-button'
+                                  : theme === 'dark' 
+                                    ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                              }`}
+                            >
+                              {sessions}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+
+                      {/* Long Break */}
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        <div className="space-y-1">
+                          <span className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
+                            Long break (min)
+                          </span>
+                          <input
+                            type="number"
+                            min="1"
+                            max="60"
+                            value={settings.pomodoroLongBreakDuration}
+                            onChange={(e) => onUpdateSettings({ pomodoroLongBreakDuration: parseInt(e.target.value) })}
+                            className={`w-full px-2 py-1 rounded text-xs border transition-colors ${
+                              theme === 'dark' 
+                                ? 'bg-gray-700 text-white border-gray-600 focus:border-gray-500' 
+                                : 'bg-white text-gray-900 border-gray-300 focus:border-gray-400'
+                            } focus:outline-none focus:ring-1 focus:ring-opacity-50`}
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <span className={`text-xs font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
+                            Long break every
+                          </span>
+                          <div className="flex gap-1">
+                            {[2, 3, 4, 6].map(interval => (
+                              <button
+                                key={interval}
+                                onClick={() => onUpdateSettings({ pomodoroLongBreakInterval: interval })}
+                                className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                                  settings.pomodoroLongBreakInterval === interval
+                                    ? 'settings-active-button'
+                                    : theme === 'dark' 
+                                      ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                                }`}
+                              >
+                                {interval}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      </div>
+                    </>
+                  )}
                 </div>
               )}
             </div>
@@ -1221,6 +2048,23 @@ function SettingsPanel({ settings, onUpdateSettings, theme }: SettingsPanelProps
             </div>
           </div>
 
+          {/* Keyboard Shortcuts */}
+          <div className={`p-5 rounded-xl border-2 ${
+            theme === 'dark' ? 'border-gray-600 bg-gray-800/70' : 'border-gray-300 bg-gray-50/80'
+          }`}>
+            <h4 className={`text-sm font-semibold mb-4 flex items-center ${
+              theme === 'dark' ? 'text-gray-200' : 'text-gray-800'
+            }`}>
+              <Keyboard size={16} className="mr-2" />
+              Keyboard Shortcuts
+            </h4>
+            <ShortcutSettings
+              theme={theme}
+              settings={settings}
+              onUpdateSettings={onUpdateSettings}
+              onShowShortcuts={onShowShortcuts}
+            />
+          </div>
 
         </div>
       </div>
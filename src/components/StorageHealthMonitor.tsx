@@ -0,0 +1,249 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { HardDrive, Archive, Download, AlertTriangle } from 'lucide-react';
+import type { Task } from '../App';
+import { useNotificationContext } from '../contexts/NotificationContext';
+import { useColorSystemContext } from '../contexts/ColorSystemContext';
+import { getAccentHex } from '../utils/colorSystem';
+import { exportBackup } from '../utils/dataManager';
+import {
+  measureLocalStorage,
+  estimateOriginStorage,
+  formatBytes,
+  STORAGE_WARNING_RATIO,
+  STORAGE_CRITICAL_RATIO,
+  STORAGE_WRITE_ERROR_EVENT,
+  type LocalStorageUsage,
+  type StorageWriteErrorDetail
+} from '../utils/storageHealth';
+
+/**
+ * StorageHealthMonitor
+ * Watches storage usage and failed writes (see utils/storageHealth):
+ * - usage past STORAGE_WARNING_RATIO of the quota raises a warning notification
+ * - usage past STORAGE_CRITICAL_RATIO, or any failed write, opens a dialog with the
+ *   usage per entry and ways to free localStorage: remove long-archived tasks (after a backup),
+ *   download a backup. Sessions live in IndexedDB, so removing them would free nothing here.
+ * Renders nothing until then; must sit inside NotificationProvider.
+ */
+interface StorageHealthMonitorProps {
+  tasks: Task[];
+  /** Drop tasks archived before the given moment from 'flow-tasks' */
+  onRemoveArchivedBefore: (date: Date) => void;
+  theme: 'light' | 'dark';
+  accentColor: string;
+}
+
+/** How often usage is re-measured while the app is open */
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+const ARCHIVED_AGE_OPTIONS = [0, 30, 90, 180, 365];
+
+type HealthLevel = 'ok' | 'warning' | 'critical';
+
+const getLevel = (ratio: number): HealthLevel =>
+  ratio >= STORAGE_CRITICAL_RATIO ? 'critical' : ratio >= STORAGE_WARNING_RATIO ? 'warning' : 'ok';
+
+const LEVEL_ORDER: Record<HealthLevel, number> = { ok: 0, warning: 1, critical: 2 };
+
+const StorageHealthMonitor: React.FC<StorageHealthMonitorProps> = ({ tasks, onRemoveArchivedBefore, theme, accentColor }) => {
+  const { showWarning, confirm, alert } = useNotificationContext();
+  const colorSystem = useColorSystemContext();
+  const accentHex = getAccentHex(accentColor, colorSystem.getAllAccentColors());
+
+  const [dialog, setDialog] = useState<{ failedKeys: string[]; quotaExceeded: boolean } | null>(null);
+  const [usage, setUsage] = useState<LocalStorageUsage | null>(null);
+  const [origin, setOrigin] = useState<{ usage: number; quota: number } | null>(null);
+  const [archivedDays, setArchivedDays] = useState(90);
+  // Highest level announced so far; drops back when usage goes down again
+  const announcedRef = useRef<HealthLevel>('ok');
+
+  const check = useCallback(async () => {
+    const local = measureLocalStorage();
+    const estimate = await estimateOriginStorage();
+    setUsage(local);
+    setOrigin(estimate);
+
+    const ratio = Math.max(local.ratio, estimate ? estimate.usage / estimate.quota : 0);
+    const level = getLevel(ratio);
+    if (LEVEL_ORDER[level] <= LEVEL_ORDER[announcedRef.current]) {
+      announcedRef.current = level;
+      return;
+    }
+    announcedRef.current = level;
+
+    if (level === 'critical') {
+      setDialog(prev => prev ?? { failedKeys: [], quotaExceeded: false });
+    } else {
+      const largest = local.entries.slice(0, 2).map(entry => `${entry.key} (${formatBytes(entry.bytes)})`).join(', ');
+      showWarning(
+        'Storage almost full',
+        `FLOW uses ${Math.round(ratio * 100)}% of the space the browser allows.${largest ? ` Largest: ${largest}.` : ''} Remove archived tasks or download a backup from Data Management.`,
+        10000
+      );
+    }
+  }, [showWarning]);
+
+  useEffect(() => {
+    check();
+    const interval = window.setInterval(check, CHECK_INTERVAL_MS);
+
+    const onWriteError = (event: Event) => {
+      const { key, quotaExceeded } = (event as CustomEvent<StorageWriteErrorDetail>).detail;
+      setDialog(prev => ({
+        failedKeys: prev?.failedKeys.includes(key) ? prev.failedKeys : [...(prev?.failedKeys ?? []), key],
+        quotaExceeded: (prev?.quotaExceeded ?? false) || quotaExceeded
+      }));
+      check();
+    };
+    window.addEventListener(STORAGE_WRITE_ERROR_EVENT, onWriteError);
+
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener(STORAGE_WRITE_ERROR_EVENT, onWriteError);
+    };
+  }, [check]);
+
+  if (!dialog) return null;
+
+  // 0 days = every archived task
+  const cutoff = new Date();
+  if (archivedDays > 0) {
+    cutoff.setHours(0, 0, 0, 0);
+    cutoff.setDate(cutoff.getDate() - archivedDays);
+  }
+  const oldTasks = tasks.filter(task =>
+    task.status === 'archived' &&
+    new Date(task.archivedAt || task.completedAt || task.createdAt).getTime() < cutoff.getTime()
+  );
+
+  const handleRemoveArchived = async () => {
+    if (oldTasks.length === 0) return;
+    try {
+      await exportBackup();
+    } catch {
+      alert('Could not create the backup; nothing was removed', 'error');
+      return;
+    }
+
+    const confirmed = await confirm(
+      `Downloaded a backup. Remove ${oldTasks.length} archived tasks from FLOW now? Their sessions stay in History; the backup restores the tasks from Data Management.`
+    );
+    if (!confirmed) return;
+    onRemoveArchivedBefore(cutoff);
+    alert(`Removed ${oldTasks.length} archived tasks`, 'success');
+    // useLocalStorage writes when idle; measure after it has
+    window.setTimeout(check, 500);
+  };
+
+  const handleBackup = () => {
+    exportBackup().catch(() => alert('Could not read sessions for the backup', 'error'));
+  };
+
+  const secondaryButton = `flex items-center justify-center px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+    theme === 'dark' ? 'bg-gray-800 hover:bg-gray-700' : 'bg-gray-100 hover:bg-gray-200'
+  }`;
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className={`w-full max-w-md ${
+        theme === 'dark' ? 'bg-gray-900 text-white' : 'bg-white text-gray-900'
+      } rounded-2xl shadow-2xl border ${
+        theme === 'dark' ? 'border-gray-700' : 'border-gray-200'
+      } overflow-hidden`}>
+        {/* Header */}
+        <div className={`flex items-center space-x-3 p-5 border-b ${
+          theme === 'dark' ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          <HardDrive size={20} style={{ color: accentHex }} />
+          <div>
+            <h3 className="text-lg font-semibold">
+              {dialog.failedKeys.length > 0 ? 'FLOW could not save your data' : 'Storage is nearly full'}
+            </h3>
+            <p className={`text-sm ${mutedText}`}>
+              {dialog.failedKeys.length > 0
+                ? `${dialog.quotaExceeded ? 'The browser ran out of space for' : 'Writing failed for'} ${dialog.failedKeys.join(', ')}. Recent changes may be lost on reload.`
+                : 'Free some space before new changes can no longer be saved.'}
+            </p>
+          </div>
+        </div>
+
+        <div className="p-5 space-y-4">
+          {/* Usage per entry */}
+          {usage && (
+            <div className={`p-3 rounded-lg text-sm ${theme === 'dark' ? 'bg-gray-800' : 'bg-gray-50'}`}>
+              <div className="flex justify-between font-medium mb-2">
+                <span>Local storage</span>
+                <span>{formatBytes(usage.totalBytes)} of ~{formatBytes(usage.quotaBytes)}</span>
+              </div>
+              <div className="space-y-1">
+                {usage.entries.slice(0, 5).map(entry => (
+                  <div key={entry.key} className="flex justify-between">
+                    <span className={mutedText}>{entry.key}</span>
+                    <span>{formatBytes(entry.bytes)}</span>
+                  </div>
+                ))}
+                {usage.otherBytes > 0 && (
+                  <div className="flex justify-between">
+                    <span className={mutedText}>other</span>
+                    <span>{formatBytes(usage.otherBytes)}</span>
+                  </div>
+                )}
+              </div>
+              {origin && (
+                <div className={`mt-2 pt-2 border-t ${theme === 'dark' ? 'border-gray-700' : 'border-gray-200'} flex justify-between`}>
+                  <span className={mutedText}>All site data (sessions included)</span>
+                  <span>{formatBytes(origin.usage)} of {formatBytes(origin.quota)}</span>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Remove long-archived tasks */}
+          <div>
+            <label className="block text-sm font-medium mb-2">Remove tasks archived</label>
+            <div className="flex gap-2">
+              <select
+                value={archivedDays}
+                onChange={(e) => setArchivedDays(Number(e.target.value))}
+                className={`flex-1 px-3 py-2 rounded-lg border transition-all duration-200 ${
+                  theme === 'dark'
+                    ? 'bg-gray-800 border-gray-700 text-white focus:border-gray-600'
+                    : 'bg-white border-gray-200 text-gray-900 focus:border-gray-400'
+                } focus:outline-none`}
+              >
+                {ARCHIVED_AGE_OPTIONS.map(days => (
+                  <option key={days} value={days}>{days === 0 ? 'at any time' : `over ${days} days ago`}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleRemoveArchived}
+                disabled={oldTasks.length === 0}
+                className="flex items-center px-4 py-2 rounded-lg font-medium text-white transition-all duration-200 hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+                style={{ backgroundColor: accentHex }}
+              >
+                <Archive size={16} className="mr-2" />
+                Remove {oldTasks.length}
+              </button>
+            </div>
+            <p className={`flex items-center text-xs mt-2 ${mutedText}`}>
+              <AlertTriangle size={12} className="mr-1 flex-shrink-0" />
+              Downloads a full backup first; you confirm before anything is removed. Sessions are kept.
+            </p>
+          </div>
+
+          <button onClick={handleBackup} className={`w-full ${secondaryButton}`}>
+            <Download size={16} className="mr-2" />
+            Download full backup
+          </button>
+
+          <button onClick={() => setDialog(null)} className={`w-full ${secondaryButton}`}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StorageHealthMonitor;
@@ -1,16 +1,37 @@
-import { useState, useRef } from 'react';
-import { Plus, X, BarChart3 } from 'lucide-react';
-import type { Task, Session } from '../App';
+import { useState, useRef, useMemo, useEffect } from 'react';
+import { Plus, X, BarChart3, Check, RotateCcw, Archive, ChevronDown, ChevronRight, SlidersHorizontal, Edit3, ListChecks } from 'lucide-react';
+import type { Task, Session, Project, SettingsProfile } from '../App';
 import { useColorSystemContext } from '../contexts/ColorSystemContext';
 import { useNotificationContext } from '../contexts/NotificationContext';
 import { getAccentHex } from '../utils/colorSystem';
+import { getWorkElapsedSeconds } from '../hooks/useTimer';
+import { isWorkSession } from '../utils/sessionUtils';
+import { NO_PROJECT, parseTaskTags, pickProjectColor, getSessionProjectId } from '../utils/projectUtils';
+import { getTaskUsage, rankTaskNames, RECENT_USAGE_DAYS } from '../utils/taskSearch';
 
 interface TaskManagerProps {
   tasks: Task[];
   activeTask: Task | null;
-  onAddTask: (name: string, estimatedTime?: number) => void;
+  onAddTask: (name: string, estimatedTime?: number, projectId?: string, tags?: string[], profileId?: string) => void;
   onDeleteTask: (id: string) => void;
+  onCompleteTask?: (id: string) => void;
+  onReopenTask?: (id: string) => void;
+  onArchiveTask?: (id: string) => void;
   onSelectTask: (task: Task | null) => void;
+  /** Settings profiles a task can be attached to */
+  profiles?: SettingsProfile[];
+  onSetTaskProfile?: (id: string, profileId?: string) => void;
+  /** Rename or change the goal of a task */
+  onUpdateTask?: (id: string, changes: Partial<Omit<Task, 'id'>>) => void;
+  /** Save a new task order (all task ids) */
+  onReorderTasks?: (orderedIds: string[]) => void;
+  /** Checklist of a task; ticking an item off while the timer runs records it on the session */
+  onAddSubtask?: (taskId: string, title: string) => void;
+  onToggleSubtask?: (taskId: string, subtaskId: string) => void;
+  onRemoveSubtask?: (taskId: string, subtaskId: string) => void;
+  projects?: Project[];
+  onAddProject?: (name: string, color: string) => Project;
+  onDeleteProject?: (id: string) => void;
   taskHistory: string[];
   theme: 'light' | 'dark';
   accentColor: string;
@@ -24,7 +45,20 @@ function TaskManager({
   activeTask,
   onAddTask,
   onDeleteTask,
+  onCompleteTask,
+  onReopenTask,
+  onArchiveTask,
   onSelectTask,
+  profiles = [],
+  onSetTaskProfile,
+  onUpdateTask,
+  onReorderTasks,
+  onAddSubtask,
+  onToggleSubtask,
+  onRemoveSubtask,
+  projects = [],
+  onAddProject,
+  onDeleteProject,
   taskHistory,
   theme,
   accentColor,
@@ -39,33 +73,72 @@ function TaskManager({
   const [newTaskName, setNewTaskName] = useState('');
   const [newTaskTime, setNewTaskTime] = useState('');
   const [isExpanded, setIsExpanded] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [newTaskProject, setNewTaskProject] = useState('');
+  const [newTaskProfile, setNewTaskProfile] = useState('');
+  const [profileEditingId, setProfileEditingId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editGoal, setEditGoal] = useState('');
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [checklistId, setChecklistId] = useState<string | null>(null);
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState('');
+  const [dropTarget, setDropTarget] = useState<{ id: string; position: 'before' | 'after' } | null>(null);
+  // Row to focus again after a keyboard move re-rendered the list
+  const refocusIdRef = useRef<string | null>(null);
+  const [isCreatingProject, setIsCreatingProject] = useState(false);
+  const [newProjectName, setNewProjectName] = useState('');
+  const [newProjectColor, setNewProjectColor] = useState('');
+  const accentPalette = colorSystem.getAllAccentColors();
   const inputRef = useRef<HTMLInputElement>(null);
 
-  const filteredSuggestions = (taskHistory || [])
-    .filter(task => {
-      if (task === newTaskName) return false;
-      
-      const searchTerm = newTaskName.toLowerCase();
-      const taskName = task.toLowerCase();
-      
-      // Create regex that matches the search term at the beginning of words
-      // \b ensures word boundary, so "in" will match "integrate" but not "maintain"
-      const regex = new RegExp(`\\b${searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'i');
-      
-      return regex.test(taskName);
-    })
-    .slice(0, 5);
+  // Word-start matching ("in" matches "integrate" but not "maintain", typos allowed in longer words),
+  // ranked by how often, how recently and at this time of day a name was worked on
+  const taskUsage = useMemo(() => getTaskUsage(Array.isArray(sessions) ? sessions : []), [sessions]);
+  const filteredSuggestions = rankTaskNames(
+    (taskHistory || []).filter(task => task !== newTaskName),
+    newTaskName,
+    taskUsage
+  ).slice(0, 5);
 
   const handleAddTask = () => {
     if (!newTaskName.trim()) return;
     const estimatedMinutes = newTaskTime ? parseInt(newTaskTime, 10) : undefined;
     const estimatedSeconds = estimatedMinutes ? estimatedMinutes * 60 : undefined;
-    onAddTask(newTaskName.trim(), estimatedSeconds);
+    const { name, tags } = parseTaskTags(newTaskName);
+    onAddTask(name, estimatedSeconds, newTaskProject || undefined, tags, newTaskProfile || undefined);
     setNewTaskName('');
     setNewTaskTime('');
     setIsExpanded(false);
   };
 
+  const handleProjectSelect = (value: string) => {
+    if (value === '__new') {
+      setIsCreatingProject(true);
+      setNewProjectName('');
+      setNewProjectColor(pickProjectColor(projects, accentPalette));
+      return;
+    }
+    setNewTaskProject(value);
+  };
+
+  const handleCreateProject = () => {
+    if (!newProjectName.trim() || !onAddProject) return;
+    const project = onAddProject(newProjectName.trim(), newProjectColor || pickProjectColor(projects, accentPalette));
+    setNewTaskProject(project.id);
+    setIsCreatingProject(false);
+    setNewProjectName('');
+  };
+
+  const handleDeleteProject = async (project: Project) => {
+    if (!onDeleteProject) return;
+    const confirmed = await confirm(`Delete project "${project.name}"? Its tasks and sessions are kept without a project.`);
+    if (confirmed) {
+      onDeleteProject(project.id);
+      if (newTaskProject === project.id) setNewTaskProject('');
+    }
+  };
+
   const handleExpand = () => {
     setIsExpanded(true);
     setTimeout(() => inputRef.current?.focus(), 0);
@@ -75,6 +148,7 @@ function TaskManager({
     setIsExpanded(false);
     setNewTaskName('');
     setNewTaskTime('');
+    setIsCreatingProject(false);
   };
 
   const handleDelete = async (id: string, taskName: string) => {
@@ -84,6 +158,55 @@ function TaskManager({
     }
   };
 
+  /** moveTask() -> place a task before or after another one; the order is saved through onReorderTasks */
+  const moveTask = (taskId: string, targetId: string, position: 'before' | 'after') => {
+    if (!onReorderTasks || taskId === targetId) return;
+    const ids = tasks.map(task => task.id).filter(id => id !== taskId);
+    const targetIndex = ids.indexOf(targetId);
+    if (targetIndex === -1) return;
+    ids.splice(position === 'before' ? targetIndex : targetIndex + 1, 0, taskId);
+    onReorderTasks(ids);
+  };
+
+  useEffect(() => {
+    if (!refocusIdRef.current) return;
+    document.querySelector<HTMLElement>(`[data-task-id="${refocusIdRef.current}"]`)?.focus();
+    refocusIdRef.current = null;
+  }, [tasks]);
+
+  const endDrag = () => {
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  const startEditing = (task: Task) => {
+    setEditingId(task.id);
+    setEditName(task.name);
+    setEditGoal(task.estimatedTime ? String(Math.round(task.estimatedTime / 60)) : '');
+  };
+
+  /** saveEditing() -> apply the inline name and goal (minutes; empty or 0 clears it) */
+  const saveEditing = () => {
+    const task = tasks.find(t => t.id === editingId);
+    setEditingId(null);
+    if (!task || !onUpdateTask) return;
+    const name = editName.trim();
+    const goalMinutes = parseInt(editGoal, 10);
+    const estimatedTime = goalMinutes > 0 ? goalMinutes * 60 : undefined;
+    const changes: Partial<Omit<Task, 'id'>> = {};
+    if (name && name !== task.name) changes.name = name;
+    if (estimatedTime !== task.estimatedTime) changes.estimatedTime = estimatedTime;
+    if (Object.keys(changes).length > 0) onUpdateTask(task.id, changes);
+  };
+
+  /** addSubtask() -> append the typed item to the open checklist */
+  const addSubtask = (taskId: string) => {
+    const title = newSubtaskTitle.trim();
+    if (!title || !onAddSubtask) return;
+    onAddSubtask(taskId, title);
+    setNewSubtaskTitle('');
+  };
+
   const handleContainerClick = (e: React.MouseEvent) => {
     const target = e.target as HTMLElement;
     const isInteractive = Boolean(target.closest('button, input, select, textarea, a, [role="button"], [data-no-clear]'));
@@ -93,6 +216,25 @@ function TaskManager({
     }
   };
 
+  // Active tasks carry over between days; completed ones stay visible until the day ends
+  const todayStr = new Date().toDateString();
+  const visibleTasks = tasks.filter(task => {
+    const status = task.status ?? 'active';
+    if (status === 'active') return true;
+    return status === 'completed' && new Date(task.completedAt || task.createdAt).toDateString() === todayStr;
+  });
+  const archivedTasks = tasks.filter(task => task.status === 'archived');
+
+  // Group visible tasks by project (in project order); tasks without a known project go last
+  const taskGroups: { project: Project | null; tasks: Task[] }[] = projects
+    .map(project => ({ project, tasks: visibleTasks.filter(task => task.projectId === project.id) }))
+    .filter(group => group.tasks.length > 0);
+  const ungroupedTasks = visibleTasks.filter(task => !task.projectId || !projects.some(p => p.id === task.projectId));
+  if (ungroupedTasks.length > 0) {
+    taskGroups.push({ project: null, tasks: ungroupedTasks });
+  }
+  const showGroupHeaders = taskGroups.some(group => group.project);
+
   /** formatHHMM() -> "H:MM" display for badges */
   const formatHHMM = (seconds: number) => {
     const h = Math.floor(seconds / 3600);
@@ -100,6 +242,594 @@ function TaskManager({
     return h > 0 ? `${h}:${m.toString().padStart(2, '0')}` : `${m}m`;
   };
 
+  /** renderGroupHeader() -> project color, name and today's total for the group */
+  const renderGroupHeader = (project: Project | null, groupTasks: Task[]) => {
+    const groupToday = Array.isArray(sessions)
+      ? sessions
+          .filter(s => s.date === todayStr && isWorkSession(s))
+          .filter(s => project
+            ? getSessionProjectId(s, tasks) === project.id
+            : groupTasks.some(task => task.id === s.taskId))
+          .reduce((sum, s) => sum + s.duration, 0)
+      : 0;
+
+    return (
+      <div className="flex items-center justify-between gap-2 pt-1 group" data-no-clear>
+        <div className={`flex items-center gap-2 min-w-0 text-xs font-semibold uppercase tracking-wide ${
+          theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
+        }`}>
+          <span
+            className="w-2.5 h-2.5 rounded-full flex-shrink-0"
+            style={{ backgroundColor: project ? getAccentHex(project.color, accentPalette) : (theme === 'dark' ? '#4b5563' : '#d1d5db') }}
+          />
+          <span className="truncate">{project ? project.name : 'No project'}</span>
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {groupToday > 0 && (
+            <span className={`text-xs tabular-nums ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`} title="Today's total for this project">
+              {formatHHMM(groupToday)}
+            </span>
+          )}
+          {project && onDeleteProject && (
+            <button
+              onClick={() => handleDeleteProject(project)}
+              className={`p-0.5 rounded opacity-0 group-hover:opacity-100 transition-opacity duration-240 ease-out-smooth ${
+                theme === 'dark' ? 'hover:bg-gray-700 text-gray-400 hover:text-red-400' : 'hover:bg-gray-100 text-gray-400 hover:text-red-500'
+              }`}
+              title="Delete project"
+            >
+              <X size={12} />
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  /** projectPicker -> project select for the add form (with a "New project…" entry) */
+  const projectPicker = onAddProject || projects.length > 0 ? (
+    <select
+      value={newTaskProject}
+      onChange={(e) => handleProjectSelect(e.target.value)}
+      className={`px-3 py-1 text-xs rounded-lg max-w-[110px] transition-colors duration-240 ease-out-smooth ${
+        theme === 'dark'
+          ? 'bg-gray-600 border-gray-500 text-white'
+          : 'bg-white border-gray-300 text-gray-700'
+      } border focus:outline-none shadow-sm`}
+      title="Project"
+    >
+      <option value="">No project</option>
+      {projects.map(project => (
+        <option key={project.id} value={project.id}>{project.name}</option>
+      ))}
+      {onAddProject && <option value="__new">New project…</option>}
+    </select>
+  ) : null;
+
+  /** profileSelectClass -> shared look of the profile selects (add form and task rows) */
+  const profileSelectClass = `px-3 py-1 text-xs rounded-lg max-w-[110px] transition-colors duration-240 ease-out-smooth ${
+    theme === 'dark'
+      ? 'bg-gray-600 border-gray-500 text-white'
+      : 'bg-white border-gray-300 text-gray-700'
+  } border focus:outline-none shadow-sm`;
+
+  /** profilePicker -> settings profile select for the add form; applied when the task is selected */
+  const profilePicker = profiles.length > 0 ? (
+    <select
+      value={newTaskProfile}
+      onChange={(e) => setNewTaskProfile(e.target.value)}
+      className={profileSelectClass}
+      title="Profile applied when the task is selected"
+    >
+      <option value="">No profile</option>
+      {profiles.map(profile => (
+        <option key={profile.id} value={profile.id}>{profile.name}</option>
+      ))}
+    </select>
+  ) : null;
+
+  /** newProjectForm -> inline name + palette color picker shown after choosing "New project…" */
+  const newProjectForm = isCreatingProject ? (
+    <div className={`rounded-lg border px-3 py-2 space-y-2 ${
+      theme === 'dark' ? 'border-gray-600 bg-gray-700/30' : 'border-gray-200 bg-gray-50/50'
+    }`}>
+      <input
+        type="text"
+        value={newProjectName}
+        onChange={(e) => setNewProjectName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') handleCreateProject();
+          if (e.key === 'Escape') setIsCreatingProject(false);
+        }}
+        placeholder="Project name..."
+        maxLength={30}
+        autoFocus
+        className={`w-full bg-transparent text-sm transition-colors duration-240 ease-out-smooth ${
+          theme === 'dark' ? 'text-white placeholder-gray-400' : 'text-gray-900 placeholder-gray-500'
+        } focus:outline-none`}
+      />
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-1.5">
+          {accentPalette.map(color => (
+            <button
+              key={color.value}
+              onClick={() => setNewProjectColor(color.value)}
+              className={`w-4 h-4 rounded-full transition-transform duration-240 ease-out-smooth ${
+                newProjectColor === color.value ? 'ring-2 ring-offset-1 scale-110' : 'hover:scale-110'
+              } ${theme === 'dark' ? 'ring-white ring-offset-gray-800' : 'ring-gray-700 ring-offset-white'}`}
+              style={{ backgroundColor: color.hexValue }}
+              title={color.name}
+            />
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setIsCreatingProject(false)}
+            className={`px-2 py-1 text-xs rounded-lg transition-colors duration-240 ease-out-smooth ${
+              theme === 'dark' ? 'text-gray-400 hover:bg-gray-600' : 'text-gray-500 hover:bg-gray-200'
+            }`}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCreateProject}
+            disabled={!newProjectName.trim()}
+            className={`px-2 py-1 text-xs rounded-lg font-medium transition-colors duration-240 ease-out-smooth ${
+              newProjectName.trim()
+                ? 'task-accent-bg'
+                : `${theme === 'dark' ? 'bg-gray-600 text-gray-400' : 'bg-gray-200 text-gray-500'} cursor-not-allowed`
+            }`}
+          >
+            Create
+          </button>
+        </div>
+      </div>
+    </div>
+  ) : null;
+
+  /** renderTask() -> one task row: name, tags, today's badge, actions, goal progress; reorderable within its group */
+  const renderTask = (task: Task, index: number, groupTasks: Task[]) => {
+    const showBadge = Array.isArray(sessions);
+    const isCompleted = task.status === 'completed';
+    const isEditing = editingId === task.id;
+    const canReorder = Boolean(onReorderTasks) && !isEditing;
+
+    // Base = Accumulated saved sessions for today
+    const baseToday = showBadge
+      ? (sessions as Session[])
+          .filter(s => s.taskId === task.id && s.date === todayStr)
+          .reduce((sum, s) => sum + s.duration, 0)
+      : 0;
+
+    // If this is the active task and a work session is running or paused, add its elapsed seconds
+    let liveExtra = 0;
+    try {
+      const raw = localStorage.getItem('flow-timer-state');
+      if (raw) {
+        const state = JSON.parse(raw || '{}');
+        if (
+          (state?.isRunning || state?.isPaused) &&
+          !state?.isBreak &&
+          activeTask &&
+          activeTask.id === task.id &&
+          typeof state?.startTime === 'number'
+        ) {
+          liveExtra = getWorkElapsedSeconds(state);
+        }
+      }
+    } catch {
+      // Ignore localStorage parsing errors
+    }
+
+    const totalToday = baseToday + liveExtra;
+    const taskProfile = task.profileId ? profiles.find(profile => profile.id === task.profileId) : undefined;
+    const subtasks = task.subtasks ?? [];
+    const doneSubtasks = subtasks.filter(subtask => subtask.done).length;
+    const hasGoal = typeof task.estimatedTime === 'number' && task.estimatedTime > 0;
+    const pctToday = hasGoal
+      ? Math.min(100, Math.max(0, Math.round(((totalToday || 0) / (task.estimatedTime || 1)) * 100)))
+      : 0;
+
+    const toggleSelected = () => {
+      if (isCompleted) return;
+      if (activeTask?.id === task.id) {
+        onSelectTask(null);
+      } else {
+        onSelectTask(task);
+      }
+    };
+
+    return (
+      <div
+        key={task.id}
+        data-task-item
+        data-task-id={task.id}
+        tabIndex={0}
+        onClick={toggleSelected}
+        onKeyDown={(e) => {
+          if (e.target !== e.currentTarget) return;
+          if (e.altKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown') && onReorderTasks) {
+            e.preventDefault();
+            const up = e.key === 'ArrowUp';
+            const neighbor = groupTasks[index + (up ? -1 : 1)];
+            if (!neighbor) return;
+            refocusIdRef.current = task.id;
+            moveTask(task.id, neighbor.id, up ? 'before' : 'after');
+          } else if (e.key === 'Enter') {
+            e.preventDefault();
+            toggleSelected();
+          } else if (e.key === 'F2' && onUpdateTask && !isCompleted) {
+            e.preventDefault();
+            startEditing(task);
+          }
+        }}
+        draggable={canReorder}
+        onDragStart={(e) => {
+          setDraggingId(task.id);
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', task.id);
+        }}
+        onDragOver={(e) => {
+          // Tasks move within their project group only
+          if (!draggingId || draggingId === task.id || !groupTasks.some(t => t.id === draggingId)) return;
+          e.preventDefault();
+          const rect = e.currentTarget.getBoundingClientRect();
+          const position = e.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+          if (dropTarget?.id !== task.id || dropTarget.position !== position) setDropTarget({ id: task.id, position });
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          if (draggingId && dropTarget) moveTask(draggingId, dropTarget.id, dropTarget.position);
+          endDrag();
+        }}
+        onDragEnd={endDrag}
+        title={onReorderTasks ? 'Drag or Alt+↑/↓ to reorder' : undefined}
+        style={dropTarget?.id === task.id
+          ? { boxShadow: `inset 0 ${dropTarget.position === 'before' ? 3 : -3}px 0 ${accentHex}` }
+          : undefined}
+        className={`rounded-lg animate-slide-in-up transition-all duration-240 ease-out-smooth border-2 focus:outline-none focus-visible:ring-2 focus-visible:ring-[var(--accent-color)] ${
+          isCompleted ? 'opacity-60' : 'cursor-pointer'
+        } ${
+          draggingId === task.id ? 'opacity-50' : ''
+        } ${
+          layout === 'compact' ? 'min-h-[3rem]' : 'min-h-10'
+        } ${
+          activeTask?.id === task.id
+            ? 'border-[var(--accent-color)] bg-[var(--accent-color)]/10 hover:bg-[var(--accent-color)]/15'
+            : theme === 'dark'
+              ? 'border-transparent bg-gray-700/50 hover:bg-gray-700'
+              : 'border-transparent bg-gray-50 hover:bg-gray-100'
+        }`}
+      >
+        <div className={`px-3 transition-colors duration-240 ease-out-smooth ${
+          layout === 'compact' ? 'py-3' : 'py-2 min-h-10'
+        }`}>
+          {/* Row 1: name, today's badge, delete */}
+          <div className={`flex ${layout === 'compact' ? 'items-start' : 'items-center'} justify-between gap-2`}>
+            <div className="min-w-0 flex-1">
+              {isEditing ? (
+                <input
+                  type="text"
+                  value={editName}
+                  onChange={(e) => setEditName(e.target.value)}
+                  onClick={(e) => e.stopPropagation()}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') saveEditing();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  maxLength={50}
+                  autoFocus
+                  className={`w-full px-2 py-0.5 rounded text-sm font-semibold border ${
+                    theme === 'dark' ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                  } focus:outline-none`}
+                />
+              ) : (
+                <span 
+                  onDoubleClick={(e) => {
+                    if (!onUpdateTask || isCompleted) return;
+                    e.stopPropagation();
+                    startEditing(task);
+                  }}
+                  className={`font-semibold transition-colors duration-240 ease-out-smooth ${
+                    isCompleted ? 'line-through' : ''
+                  } ${
+                    layout === 'compact' 
+                      ? 'block leading-tight' 
+                      : 'truncate'
+                  } ${
+                    activeTask?.id === task.id
+                      ? (theme === 'dark' ? 'text-white' : 'text-gray-900')
+                      : (theme === 'dark' ? 'text-gray-200' : 'text-gray-800')
+                  }`}
+                  style={layout === 'compact' ? {
+                    display: '-webkit-box',
+                    WebkitLineClamp: 3,
+                    WebkitBoxOrient: 'vertical',
+                    overflow: 'hidden',
+                    wordBreak: 'break-word'
+                  } : undefined}
+                >
+                  {task.name}
+                </span>
+              )}
+              {((task.tags && task.tags.length > 0) || taskProfile || subtasks.length > 0) && (
+                <div className={`mt-0.5 flex flex-wrap items-center gap-x-1.5 text-[10px] leading-3 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {task.tags?.map(tag => <span key={tag}>#{tag}</span>)}
+                  {taskProfile && (
+                    <span className="inline-flex items-center gap-0.5" title="Profile applied when the task is selected">
+                      <SlidersHorizontal size={9} />
+                      {taskProfile.name}
+                    </span>
+                  )}
+                  {subtasks.length > 0 && (
+                    <span className="inline-flex items-center gap-0.5 tabular-nums" title="Checklist items done">
+                      <ListChecks size={9} />
+                      {doneSubtasks}/{subtasks.length}
+                    </span>
+                  )}
+                </div>
+              )}
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              {showBadge && (
+                <div
+                  className="px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap inline-flex items-center transition-colors duration-240 ease-out-smooth task-accent-bg"
+                  title="Today's total time for this task"
+                >
+                  <span className="tabular-nums transition-colors duration-240 ease-out-smooth">{formatHHMM(totalToday)}</span>
+                </div>
+              )}
+              {!isCompleted && onCompleteTask && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onCompleteTask(task.id);
+                  }}
+                  className={`p-1 rounded transition-colors duration-240 ease-out-smooth ${
+                    theme === 'dark'
+                      ? 'hover:bg-gray-600 text-gray-400 hover:text-green-400'
+                      : 'hover:bg-gray-200 text-gray-400 hover:text-green-600'
+                  }`}
+                  title="Mark as completed"
+                >
+                  <Check size={14} />
+                </button>
+              )}
+              {isCompleted && onReopenTask && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onReopenTask(task.id);
+                  }}
+                  className={`p-1 rounded transition-colors duration-240 ease-out-smooth ${
+                    theme === 'dark'
+                      ? 'hover:bg-gray-600 text-gray-400 hover:text-gray-200'
+                      : 'hover:bg-gray-200 text-gray-400 hover:text-gray-700'
+                  }`}
+                  title="Reopen task"
+                >
+                  <RotateCcw size={14} />
+                </button>
+              )}
+              {!isCompleted && onUpdateTask && !isEditing && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    startEditing(task);
+                  }}
+                  className={`p-1 rounded transition-colors duration-240 ease-out-smooth ${
+                    theme === 'dark'
+                      ? 'hover:bg-gray-600 text-gray-400 hover:text-gray-200'
+                      : 'hover:bg-gray-200 text-gray-400 hover:text-gray-700'
+                  }`}
+                  title="Rename or change goal (F2)"
+                >
+                  <Edit3 size={14} />
+                </button>
+              )}
+              {onToggleSubtask && (!isCompleted || subtasks.length > 0) && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setChecklistId(checklistId === task.id ? null : task.id);
+                    setNewSubtaskTitle('');
+                  }}
+                  className={`p-1 rounded transition-colors duration-240 ease-out-smooth ${
+                    theme === 'dark'
+                      ? 'hover:bg-gray-600 text-gray-400 hover:text-gray-200'
+                      : 'hover:bg-gray-200 text-gray-400 hover:text-gray-700'
+                  }`}
+                  title="Checklist"
+                >
+                  <ListChecks size={14} />
+                </button>
+              )}
+              {!isCompleted && onSetTaskProfile && profiles.length > 0 && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setProfileEditingId(profileEditingId === task.id ? null : task.id);
+                  }}
+                  className={`p-1 rounded transition-colors duration-240 ease-out-smooth ${
+                    theme === 'dark'
+                      ? 'hover:bg-gray-600 text-gray-400 hover:text-gray-200'
+                      : 'hover:bg-gray-200 text-gray-400 hover:text-gray-700'
+                  }`}
+                  title="Settings profile for this task"
+                >
+                  <SlidersHorizontal size={14} />
+                </button>
+              )}
+              {onArchiveTask && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onArchiveTask(task.id);
+                  }}
+                  className={`p-1 rounded transition-colors duration-240 ease-out-smooth ${
+                    theme === 'dark'
+                      ? 'hover:bg-gray-600 text-gray-400 hover:text-gray-200'
+                      : 'hover:bg-gray-200 text-gray-400 hover:text-gray-700'
+                  }`}
+                  title="Archive task (keeps its history)"
+                >
+                  <Archive size={14} />
+                </button>
+              )}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDelete(task.id, task.name);
+                }}
+                className={`p-1 rounded transition-colors duration-240 ease-out-smooth ${
+                  theme === 'dark'
+                    ? 'hover:bg-gray-600 text-gray-400 hover:text-red-400'
+                    : 'hover:bg-gray-200 text-gray-400 hover:text-red-500'
+                }`}
+              >
+                <X size={14} />
+              </button>
+            </div>
+          </div>
+
+          {/* Goal editor, shown with the inline rename */}
+          {isEditing && (
+            <div className="mt-2 flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+              <span className={`text-[10px] ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>Goal</span>
+              <input
+                type="number"
+                min={0}
+                max={1440}
+                value={editGoal}
+                onChange={(e) => setEditGoal(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') saveEditing();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                placeholder="none"
+                className={`${profileSelectClass} w-20`}
+              />
+              <span className={`text-[10px] ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>min</span>
+              <div className="ml-auto flex items-center gap-1">
+                <button
+                  onClick={saveEditing}
+                  className="px-2 py-1 text-xs rounded-lg font-medium transition-colors duration-240 ease-out-smooth task-accent-bg"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => setEditingId(null)}
+                  className={`px-2 py-1 text-xs rounded-lg transition-colors duration-240 ease-out-smooth ${
+                    theme === 'dark'
+                      ? 'text-gray-400 hover:bg-gray-600 hover:text-gray-300'
+                      : 'text-gray-500 hover:bg-gray-200 hover:text-gray-700'
+                  }`}
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Profile picker, opened from the row's profile button */}
+          {profileEditingId === task.id && onSetTaskProfile && (
+            <div className="mt-2 flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+              <select
+                value={task.profileId ?? ''}
+                onChange={(e) => {
+                  onSetTaskProfile(task.id, e.target.value || undefined);
+                  setProfileEditingId(null);
+                }}
+                autoFocus
+                className={profileSelectClass}
+              >
+                <option value="">No profile</option>
+                {profiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+              </select>
+              <span className={`text-[10px] ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                Applied when the task is selected
+              </span>
+            </div>
+          )}
+
+          {/* Checklist, opened from the row's checklist button */}
+          {checklistId === task.id && onToggleSubtask && (
+            <div className="mt-2 space-y-1" onClick={(e) => e.stopPropagation()}>
+              {subtasks.map(subtask => (
+                <div key={subtask.id} className="group flex items-center gap-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={subtask.done}
+                    onChange={() => onToggleSubtask(task.id, subtask.id)}
+                    style={{ accentColor: accentHex }}
+                    className="flex-shrink-0 cursor-pointer"
+                  />
+                  <span className={`flex-1 truncate ${
+                    subtask.done
+                      ? `line-through ${theme === 'dark' ? 'text-gray-500' : 'text-gray-400'}`
+                      : (theme === 'dark' ? 'text-gray-200' : 'text-gray-700')
+                  }`}>
+                    {subtask.title}
+                  </span>
+                  {!isCompleted && onRemoveSubtask && (
+                    <button
+                      onClick={() => onRemoveSubtask(task.id, subtask.id)}
+                      className={`p-0.5 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity duration-240 ease-out-smooth ${
+                        theme === 'dark' ? 'text-gray-400 hover:text-red-400' : 'text-gray-400 hover:text-red-500'
+                      }`}
+                      title="Remove item"
+                    >
+                      <X size={12} />
+                    </button>
+                  )}
+                </div>
+              ))}
+              {!isCompleted && onAddSubtask && (
+                <input
+                  type="text"
+                  value={newSubtaskTitle}
+                  onChange={(e) => setNewSubtaskTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') addSubtask(task.id);
+                    if (e.key === 'Escape') setChecklistId(null);
+                  }}
+                  placeholder="Add item and press Enter"
+                  maxLength={80}
+                  autoFocus={subtasks.length === 0}
+                  className={`w-full px-2 py-1 rounded text-xs border ${
+                    theme === 'dark' ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400'
+                  } focus:outline-none`}
+                />
+              )}
+            </div>
+          )}
+
+          {/* Row 2: progress bar if goal is set */}
+          {hasGoal && (
+            <div className="mt-2">
+              <div className={`w-full h-1.5 rounded-full transition-colors duration-240 ease-out-smooth ${theme === 'dark' ? 'bg-gray-600' : 'bg-gray-200'}`}>
+                <div
+                  className="h-1.5 rounded-full transition-[width,background-color] duration-240 ease-out-smooth will-change-[width]"
+                  style={{ width: `${pctToday}%`, backgroundColor: accentHex }}
+                />
+              </div>
+              <div className="mt-1 flex items-center justify-between text-[10px] leading-3">
+                <span className={`transition-colors duration-240 ease-out-smooth ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                  Goal: {Math.floor((task.estimatedTime || 0) / 3600)}h {Math.floor(((task.estimatedTime || 0) % 3600) / 60)}m
+                </span>
+                <span className={`tabular-nums transition-colors duration-240 ease-out-smooth ${theme === 'dark' ? 'text-gray-400' : 'text-gray-900'}`}>
+                  {pctToday}%
+                </span>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
   return (
     <>
       <style>{`
@@ -140,7 +870,7 @@ function TaskManager({
         </div>
 
         <div className="space-y-3">
-          {tasks.length === 0 ? (
+          {visibleTasks.length === 0 ? (
             isExpanded ? (
               <div className="py-4" data-no-clear>
                 <div className="space-y-2">
@@ -159,7 +889,7 @@ function TaskManager({
                           if (e.key === 'Enter') handleAddTask();
                           if (e.key === 'Escape') handleCollapse();
                         }}
-                        placeholder="Task name..."
+                        placeholder="Task name... (#tags)"
                         maxLength={50}
                         className={`w-full bg-transparent text-sm font-semibold transition-colors duration-240 ease-out-smooth ${
                           theme === 'dark' ? 'text-white placeholder-gray-400' : 'text-gray-900 placeholder-gray-500'
@@ -200,6 +930,10 @@ function TaskManager({
                           <option value="360">6h</option>
                         </select>
 
+                        {projectPicker}
+
+                        {profilePicker}
+
                         <button
                           onClick={handleAddTask}
                           disabled={!newTaskName.trim()}
@@ -215,31 +949,44 @@ function TaskManager({
                     </div>
                   </div>
 
+                  {newProjectForm}
+
                   {/* Suggestions - показываем только после ввода минимум 2 символов */}
                   {newTaskName.length >= 2 && filteredSuggestions.length > 0 && (
                     <div className={`rounded-lg border shadow-sm ${
                       theme === 'dark' ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-200'
                     }`}>
-                      {filteredSuggestions.map((suggestion, index) => (
-                        <button
-                          key={index}
-                          onClick={() => {
-                            setNewTaskName(suggestion);
-                            inputRef.current?.focus();
-                          }}
-                          className={`w-full text-left px-3 py-2 text-sm transition-colors duration-240 ease-out-smooth ${
-                            index === 0 ? 'rounded-t-lg' : ''
-                          } ${
-                            index === filteredSuggestions.length - 1 ? 'rounded-b-lg' : ''
-                          } ${
-                            theme === 'dark'
-                              ? 'text-gray-300 hover:bg-gray-600'
-                              : 'text-gray-700 hover:bg-gray-50'
-                          }`}
-                        >
-                          {suggestion}
-                        </button>
-                      ))}
+                      {filteredSuggestions.map((suggestion, index) => {
+                        const recentSeconds = taskUsage.get(suggestion.toLowerCase())?.recentSeconds ?? 0;
+                        return (
+                          <button
+                            key={index}
+                            onClick={() => {
+                              setNewTaskName(suggestion);
+                              inputRef.current?.focus();
+                            }}
+                            className={`w-full flex items-center justify-between gap-2 text-left px-3 py-2 text-sm transition-colors duration-240 ease-out-smooth ${
+                              index === 0 ? 'rounded-t-lg' : ''
+                            } ${
+                              index === filteredSuggestions.length - 1 ? 'rounded-b-lg' : ''
+                            } ${
+                              theme === 'dark'
+                                ? 'text-gray-300 hover:bg-gray-600'
+                                : 'text-gray-700 hover:bg-gray-50'
+                            }`}
+                          >
+                            <span className="truncate">{suggestion}</span>
+                            {recentSeconds > 0 && (
+                              <span
+                                className={`text-xs flex-shrink-0 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}
+                                title={`Logged in the last ${RECENT_USAGE_DAYS} days`}
+                              >
+                                {formatHHMM(recentSeconds)} · {RECENT_USAGE_DAYS}d
+                              </span>
+                            )}
+                          </button>
+                        );
+                      })}
                     </div>
                   )}
                 </div>
@@ -261,155 +1008,18 @@ function TaskManager({
             )
           ) : (
             <>
-              {tasks.filter((task) => {
-                // Only show tasks that have today's sessions or were created today
-                const todayStr = new Date().toDateString();
-                const createdToday = new Date(task.createdAt).toDateString() === todayStr;
-                const hasTodaySessions = Array.isArray(sessions) && 
-                  (sessions as Session[]).some(s => s.taskId === task.id && s.date === todayStr);
-                
-                return createdToday || hasTodaySessions;
-              }).map((task) => {
-                const showBadge = Array.isArray(sessions);
-                const todayStr = new Date().toDateString();
-
-                // Base = Accumulated saved sessions for today
-                const baseToday = showBadge
-                  ? (sessions as Session[])
-                      .filter(s => s.taskId === task.id && s.date === todayStr)
-                      .reduce((sum, s) => sum + s.duration, 0)
-                  : 0;
-
-                // If this is the active task and timer is running, add elapsed live seconds
-                let liveExtra = 0;
-                try {
-                  const raw = localStorage.getItem('flow-timer-state');
-                  if (raw) {
-                    const state = JSON.parse(raw || '{}');
-                    if (
-                      state?.isRunning &&
-                      !state?.isBreak &&
-                      activeTask &&
-                      activeTask.id === task.id &&
-                      typeof state?.startTime === 'number'
-                    ) {
-                      const now = Date.now();
-                      const elapsed = Math.max(0, Math.floor((now - state.startTime) / 1000));
-                      liveExtra = elapsed;
-                    }
-                  }
-                } catch {
-                  // Ignore localStorage parsing errors
-                }
-
-                const totalToday = baseToday + liveExtra;
-                const hasGoal = typeof task.estimatedTime === 'number' && task.estimatedTime > 0;
-                const pctToday = hasGoal
-                  ? Math.min(100, Math.max(0, Math.round(((totalToday || 0) / (task.estimatedTime || 1)) * 100)))
-                  : 0;
-
-                return (
-                <div
-                  key={task.id}
-                  data-task-item
-                  onClick={() => {
-                    if (activeTask?.id === task.id) {
-                      onSelectTask(null);
-                    } else {
-                      onSelectTask(task);
-                    }
-                  }}
-                                     className={`rounded-lg animate-slide-in-up cursor-pointer transition-all duration-240 ease-out-smooth border-2 ${
-                     layout === 'compact' ? 'min-h-[3rem]' : 'min-h-10'
-                   } ${
-                     activeTask?.id === task.id
-                       ? 'border-[var(--accent-color)] bg-[var(--accent-color)]/10 hover:bg-[var(--accent-color)]/15'
-                       : theme === 'dark'
-                         ? 'border-transparent bg-gray-700/50 hover:bg-gray-700'
-                         : 'border-transparent bg-gray-50 hover:bg-gray-100'
-                   }`}
-                >
-                  <div className={`px-3 transition-colors duration-240 ease-out-smooth ${
-                    layout === 'compact' ? 'py-3' : 'py-2 min-h-10'
-                  }`}>
-                    {/* Row 1: name, today's badge, delete */}
-                    <div className={`flex ${layout === 'compact' ? 'items-start' : 'items-center'} justify-between gap-2`}>
-                      <div className="min-w-0 flex-1">
-                        <span 
-                          className={`font-semibold transition-colors duration-240 ease-out-smooth ${
-                            layout === 'compact' 
-                              ? 'block leading-tight' 
-                              : 'truncate'
-                          } ${
-                            activeTask?.id === task.id
-                              ? (theme === 'dark' ? 'text-white' : 'text-gray-900')
-                              : (theme === 'dark' ? 'text-gray-200' : 'text-gray-800')
-                          }`}
-                          style={layout === 'compact' ? {
-                            display: '-webkit-box',
-                            WebkitLineClamp: 3,
-                            WebkitBoxOrient: 'vertical',
-                            overflow: 'hidden',
-                            wordBreak: 'break-word'
-                          } : undefined}
-                        >
-                          {task.name}
-                        </span>
-                      </div>
-                      <div className="flex items-center gap-2 flex-shrink-0">
-                        {showBadge && (
-                          <div
-                            className="px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap inline-flex items-center transition-colors duration-240 ease-out-smooth task-accent-bg"
-                            title="Today's total time for this task"
-                          >
-                            <span className="tabular-nums transition-colors duration-240 ease-out-smooth">{formatHHMM(totalToday)}</span>
-                          </div>
-                        )}
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleDelete(task.id, task.name);
-                          }}
-                          className={`p-1 rounded transition-colors duration-240 ease-out-smooth ${
-                            theme === 'dark'
-                              ? 'hover:bg-gray-600 text-gray-400 hover:text-red-400'
-                              : 'hover:bg-gray-200 text-gray-400 hover:text-red-500'
-                          }`}
-                        >
-                          <X size={14} />
-                        </button>
-                      </div>
-                    </div>
-
-                    {/* Row 2: progress bar if goal is set */}
-                    {hasGoal && (
-                      <div className="mt-2">
-                        <div className={`w-full h-1.5 rounded-full transition-colors duration-240 ease-out-smooth ${theme === 'dark' ? 'bg-gray-600' : 'bg-gray-200'}`}>
-                          <div
-                            className="h-1.5 rounded-full transition-[width,background-color] duration-240 ease-out-smooth will-change-[width]"
-                            style={{ width: `${pctToday}%`, backgroundColor: accentHex }}
-                          />
-                        </div>
-                        <div className="mt-1 flex items-center justify-between text-[10px] leading-3">
-                          <span className={`transition-colors duration-240 ease-out-smooth ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
-                            Goal: {Math.floor((task.estimatedTime || 0) / 3600)}h {Math.floor(((task.estimatedTime || 0) % 3600) / 60)}m
-                          </span>
-                          <span className={`tabular-nums transition-colors duration-240 ease-out-smooth ${theme === 'dark' ? 'text-gray-400' : 'text-gray-900'}`}>
-                            {pctToday}%
-                          </span>
-                        </div>
-                      </div>
-                    )}
-                  </div>
+              {taskGroups.map(group => (
+                <div key={group.project?.id ?? NO_PROJECT} className="space-y-3">
+                  {showGroupHeaders && renderGroupHeader(group.project, group.tasks)}
+                  {group.tasks.map(renderTask)}
                 </div>
-              );
-            })}
+              ))}
             </>
           )}
         </div>
 
         {/* Small plus button when tasks exist */}
-        {tasks.length > 0 && !isExpanded && (
+        {visibleTasks.length > 0 && !isExpanded && (
           <div className="mt-3" data-no-clear>
             <button
               onClick={handleExpand}
@@ -426,7 +1036,7 @@ function TaskManager({
         )}
 
         {/* Universal Add Task Form - только когда есть задачи */}
-        {isExpanded && tasks.length > 0 && (
+        {isExpanded && visibleTasks.length > 0 && (
           <div className="mt-3" data-no-clear>
             <div className="space-y-2">
               <div className={`rounded-lg border transition-colors duration-240 ease-out-smooth ${
@@ -444,7 +1054,7 @@ function TaskManager({
                       if (e.key === 'Enter') handleAddTask();
                       if (e.key === 'Escape') handleCollapse();
                     }}
-                    placeholder="Task name..."
+                    placeholder="Task name... (#tags)"
                     maxLength={50}
                     className={`w-full bg-transparent text-sm font-semibold transition-colors duration-240 ease-out-smooth ${
                       theme === 'dark' ? 'text-white placeholder-gray-400' : 'text-gray-900 placeholder-gray-500'
@@ -485,6 +1095,10 @@ function TaskManager({
                       <option value="360">6h</option>
                     </select>
 
+                    {projectPicker}
+
+                    {profilePicker}
+
                     <button
                       onClick={handleAddTask}
                       disabled={!newTaskName.trim()}
@@ -500,6 +1114,8 @@ function TaskManager({
                 </div>
               </div>
 
+              {newProjectForm}
+
               {/* Suggestions - показываем только после ввода минимум 2 символов */}
               {newTaskName.length >= 2 && filteredSuggestions.length > 0 && (
                 <div className={`rounded-lg border shadow-sm ${
@@ -530,6 +1146,59 @@ function TaskManager({
             </div>
           </div>
         )}
+
+        {/* Archived tasks: hidden from the list, kept for history */}
+        {archivedTasks.length > 0 && (
+          <div className="mt-4" data-no-clear>
+            <button
+              onClick={() => setShowArchived(prev => !prev)}
+              className={`flex items-center gap-1 text-xs transition-colors duration-240 ease-out-smooth ${
+                theme === 'dark' ? 'text-gray-400 hover:text-gray-300' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {showArchived ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+              Archived ({archivedTasks.length})
+            </button>
+            {showArchived && (
+              <div className="mt-2 space-y-1">
+                {archivedTasks.map(task => (
+                  <div
+                    key={task.id}
+                    className={`flex items-center justify-between gap-2 px-3 py-1.5 rounded-lg text-sm ${
+                      theme === 'dark' ? 'bg-gray-700/30 text-gray-400' : 'bg-gray-50 text-gray-500'
+                    }`}
+                  >
+                    <span className="truncate">{task.name}</span>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <span className="text-xs tabular-nums mr-1" title="Total time for this task">
+                        {formatHHMM(task.timeSpent)}
+                      </span>
+                      {onReopenTask && (
+                        <button
+                          onClick={() => onReopenTask(task.id)}
+                          className={`p-1 rounded transition-colors duration-240 ease-out-smooth ${
+                            theme === 'dark' ? 'hover:bg-gray-600 hover:text-gray-200' : 'hover:bg-gray-200 hover:text-gray-700'
+                          }`}
+                          title="Restore to task list"
+                        >
+                          <RotateCcw size={12} />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleDelete(task.id, task.name)}
+                        className={`p-1 rounded transition-colors duration-240 ease-out-smooth ${
+                          theme === 'dark' ? 'hover:bg-gray-600 hover:text-red-400' : 'hover:bg-gray-200 hover:text-red-500'
+                        }`}
+                      >
+                        <X size={12} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </>
   );
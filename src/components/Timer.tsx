@@ -1,27 +1,37 @@
 import React from 'react';
-import { Play, Pause, RotateCcw, SkipForward, Square } from 'lucide-react';
-import type { Task, Settings } from '../App';
+import { Play, Pause, RotateCcw, SkipForward, Square, Circle } from 'lucide-react';
+import type { Task, Settings, PomodoroStep } from '../App';
+import type { BreakType } from '../hooks/useTimer';
 
 import { useColorSystemContext } from '../contexts/ColorSystemContext';
 import { useNotificationContext } from '../contexts/NotificationContext';
 import { getAccentHex } from '../utils/colorSystem';
 import { formatTimerDisplay } from '../utils/timeUtils';
+import { getStepName } from '../utils/pomodoroSequence';
 
 /**
  * Timer.tsx
  * Stateless presentational component that renders:
- * - Current status (FOCUS / task name / RELAX)
- * - A large time display (mm:ss or h:mm:ss)
- * - Start/Stop primary button and a conditional Reset button
- * - An "Estimated break" chip while working, based on useTimer.estimatedBreakTime
+ * - Current status (FOCUS / task name / RELAX / LONG BREAK / the break step's label)
+ * - Pomodoro: a dot per step of the cycle and the name and number of the current step
+ * - A large time display (mm:ss or h:mm:ss; +mm:ss in countdown overtime)
+ * - Start/Stop primary button, a Pause/Resume button during work, and a conditional Reset button
+ * - An "Estimated break" chip while working, based on useTimer.estimatedBreakTime (Flow: the exact break stopping now would grant)
+ * - The active task's checklist in compact form: done/total and the next open items, ticked off with a click
  *
  * Props contract:
  * - time: seconds to display (work elapsed or break remaining)
  * - isRunning: whether timer loop is active
  * - isBreak: whether currently in break countdown
+ * - isPaused: whether the work session is paused (clock frozen)
+ * - breakType: 'long' shows a distinct LONG BREAK label
  * - onStart/onStop/onReset: control handlers from useTimer
+ * - onPause/onResume: pause controls from useTimer
  * - activeTask: selected task or null (controls readiness)
  * - estimatedBreakTime: seconds; only shown during active work
+ * - pomodoroSteps/pomodoroStepIndex: Pomodoro cycle and the step in progress
+ * - countdownTarget/isOvertime: Timer mode countdown; overtime shows as +m:ss
+ * - onToggleSubtask: ticks off a checklist item of activeTask
  * - theme, accentColor, isWidget: visual presentation
  */
 interface TimerProps {
@@ -31,22 +41,40 @@ interface TimerProps {
   isRunning: boolean;
   /** True when in break countdown mode */
   isBreak: boolean;
+  /** True when the work session is paused */
+  isPaused?: boolean;
+  /** Kind of the current break (Pomodoro long breaks get their own label) */
+  breakType?: BreakType;
   /** Start work session (requires activeTask) */
   onStart: () => void;
   /** Stop work session (saves a session and starts break) */
   onStop: () => void;
+  /** Pause the running work session */
+  onPause?: () => void;
+  /** Resume a paused work session */
+  onResume?: () => void;
   /** Reset any session state (confirmation handled in component) */
   onReset: () => void;
   /** Skip current break */
   onSkipBreak?: () => void;
   /** The currently selected task (null means FOCUS) */
   activeTask: Task | null;
+  /** Tick off an item of the active task's checklist */
+  onToggleSubtask?: (taskId: string, subtaskId: string) => void;
   /** Estimated break length in seconds while working */
   estimatedBreakTime: number;
   /** Current session number (for Pomodoro mode) */
   currentSession?: number;
   /** Total sessions (for Pomodoro mode) */
   totalSessions?: number;
+  /** Steps of the running Pomodoro cycle, or of the next one while idle */
+  pomodoroSteps?: PomodoroStep[];
+  /** Index of the step in progress */
+  pomodoroStepIndex?: number;
+  /** Timer mode countdown target in seconds (running, or the next start's) */
+  countdownTarget?: number;
+  /** The countdown passed zero; time is the overtime */
+  isOvertime?: boolean;
   /** Current global theme */
   theme: 'light' | 'dark';
   /** Selected accent color token */
@@ -61,14 +89,23 @@ function Timer({
   time,
   isRunning,
   isBreak,
+  isPaused = false,
+  breakType,
   onStart,
   onStop,
+  onPause,
+  onResume,
   onReset,
   onSkipBreak,
   activeTask,
+  onToggleSubtask,
   estimatedBreakTime,
   currentSession = 1,
   totalSessions = 1,
+  pomodoroSteps = [],
+  pomodoroStepIndex = 0,
+  countdownTarget,
+  isOvertime = false,
   theme,
   accentColor,
   isWidget,
@@ -114,21 +151,34 @@ function Timer({
   // Preserve original gating flags (needed by controls)
   // If tasks are disabled OR task selection is not required, allow start without activeTask
   // Use default values for backward compatibility
-  const showTasks = settings.showTasks ?? true;
-  const requireTaskSelection = settings.requireTaskSelection ?? true;
+  const showTasks = settings.showTasks;
+  const requireTaskSelection = settings.requireTaskSelection;
 
-  const canStart = Boolean(!isRunning && !isBreak && (
+  const canStart = Boolean(!isRunning && !isBreak && !isPaused && (
     !showTasks || // Tasks disabled - can start without task
     !requireTaskSelection || // Task selection not required
     activeTask // Has selected task
   ));
-  const canStop = Boolean(isRunning && !isBreak);
+  const canStop = Boolean((isRunning || isPaused) && !isBreak);
+  const canPause = Boolean(onPause && onResume && (isRunning || isPaused) && !isBreak);
 
   // Use settings prop for Color Timer state (more reliable than localStorage parsing)
-  const colorTimerOn = settings.colorTimer ?? false;
+  const colorTimerOn = settings.colorTimer;
 
   // Debug logging
-  const timerMode = settings.timerMode ?? 'flow';
+  const timerMode = settings.timerMode;
+
+  // Pomodoro: step in progress, while a cycle runs (or is paused)
+  const cycleActive = isRunning || isPaused;
+  const currentStep = timerMode === 'pomodoro' && cycleActive ? pomodoroSteps[pomodoroStepIndex] : undefined;
+
+  // Timer mode countdown: before starting, the clock shows the target
+  const countdownIdle = countdownTarget !== undefined && !isRunning && !isPaused && !isBreak;
+
+  // Checklist: the next open items of the active task (fewer in the widget)
+  const subtasks = activeTask?.subtasks ?? [];
+  const doneSubtasks = subtasks.filter(subtask => subtask.done).length;
+  const openSubtasks = subtasks.filter(subtask => !subtask.done).slice(0, isWidget ? 1 : 3);
 
 
   // Debug logging
@@ -174,50 +224,29 @@ function Timer({
           ].join(' ')}
           title={activeTask?.name} // Show full name on hover
         >
-          {isBreak ? 'RELAX' : (activeTask && activeTask.name ? truncateTaskName(activeTask.name) : 'FOCUS')}
+          {isBreak ? (currentStep?.label ? currentStep.label.toUpperCase() : breakType === 'long' ? 'LONG BREAK' : 'RELAX') : (activeTask && activeTask.name ? truncateTaskName(activeTask.name) : 'FOCUS')}
         </div>
 
-        {/* Pomodoro Session Progress */}
-        {timerMode === 'pomodoro' && !isBreak && (
-          <div className="flex items-center justify-center gap-1 mb-3">
-            {Array.from({ length: settings.pomodoroSessions || 4 }, (_, i) => {
-              // Если таймер не запущен - все точки серые
-              if (!isRunning) {
-                const dotStyle = colorTimerOn
-                  ? 'bg-white/30'
-                  : theme === 'dark'
-                    ? 'bg-gray-600'
-                    : 'bg-gray-300';
-                return (
-                  <div
-                    key={i}
-                    className={`w-2 h-2 rounded-full transition-all duration-300 ${dotStyle}`}
-                  />
-                );
-              }
+        {/* Pomodoro Step Progress: a dot per step, smaller for breaks */}
+        {timerMode === 'pomodoro' && (
+          <div className="mb-3">
+            <div className="flex items-center justify-center gap-1">
+              {pomodoroSteps.map((step, i) => {
+                const size = step.kind === 'work' ? 'w-2 h-2' : 'w-1.5 h-1.5';
+                const title = `${getStepName(step)} · ${step.minutes} min`;
+
+                // Done and current steps in the accent color; the current one pulses
+                if (cycleActive && i <= pomodoroStepIndex) {
+                  return (
+                    <div
+                      key={i}
+                      className={`${size} rounded-full transition-all duration-300 ${i === pomodoroStepIndex ? 'animate-pulse' : ''}`}
+                      style={{ backgroundColor: colorTimerOn ? '#ffffff' : accentHex }}
+                      title={title}
+                    />
+                  );
+                }
 
-              // Если таймер запущен
-              const accentColorStyle = { backgroundColor: colorTimerOn ? '#ffffff' : accentHex };
-              if (i < currentSession - 1) {
-                // Завершенные сессии - статично акцентным цветом
-                return (
-                  <div
-                    key={i}
-                    className="w-2 h-2 rounded-full transition-all duration-300"
-                    style={accentColorStyle}
-                  />
-                );
-              } else if (i === currentSession - 1) {
-                // Текущая сессия - мигает акцентным цветом
-                return (
-                  <div
-                    key={i}
-                    className="w-2 h-2 rounded-full transition-all duration-300 animate-pulse"
-                    style={accentColorStyle}
-                  />
-                );
-              } else {
-                // Будущие сессии - серые
                 const dotStyle = colorTimerOn
                   ? 'bg-white/30'
                   : theme === 'dark'
@@ -226,11 +255,28 @@ function Timer({
                 return (
                   <div
                     key={i}
-                    className={`w-2 h-2 rounded-full transition-all duration-300 ${dotStyle}`}
+                    className={`${size} rounded-full transition-all duration-300 ${dotStyle}`}
+                    title={title}
                   />
                 );
-              }
-            })}
+              })}
+            </div>
+            {currentStep && (
+              <div className={`text-xs mt-1 ${
+                colorTimerOn ? 'text-white/80' : theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
+              }`}>
+                {getStepName(currentStep)} · {pomodoroStepIndex + 1}/{pomodoroSteps.length}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Countdown target, or the overtime past it */}
+        {timerMode === 'timer' && countdownTarget !== undefined && (
+          <div className={`text-xs mb-3 ${
+            colorTimerOn ? 'text-white/80' : theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
+          }`}>
+            {isOvertime ? `Overtime past ${formatTimerDisplay(countdownTarget)}` : `Countdown · ${formatTimerDisplay(countdownTarget)}`}
           </div>
         )}
 
@@ -243,7 +289,12 @@ function Timer({
           ].join(' ')}
           style={colorTimerOn ? { color: '#ffffff' } : undefined}
         >
-          {formatTimerDisplay(time)}
+          <span
+            className={isPaused ? 'opacity-60 animate-pulse' : undefined}
+            style={isOvertime && !colorTimerOn ? { color: accentHex } : undefined}
+          >
+            {isOvertime && '+'}{formatTimerDisplay(countdownIdle ? countdownTarget : time)}
+          </span>
         </div>
 
         {/* Controls */}
@@ -259,7 +310,7 @@ function Timer({
                     ? onStop
                     : undefined
             }
-            disabled={!canStart && !canStop && !(isBreak && onSkipBreak && (settings.flowBreakSkipEnabled ?? true))}
+            disabled={!canStart && !canStop && !(isBreak && onSkipBreak && settings.flowBreakSkipEnabled)}
             className={`${isWidget ? 'w-14 h-14' : 'w-16 h-16'
               } rounded-full flex items-center justify-center font-semibold transition-all duration-300 ease-out-smooth transform animate-fade-in-up ${(() => {
                 if (!(canStart || canStop || (isBreak && onSkipBreak))) {
@@ -276,24 +327,41 @@ function Timer({
             title={
               isBreak
                 ? 'Skip break'
-                : isRunning
-                  ? (timerMode === 'timer' || timerMode === 'pomodoro' ? 'Stop' : 'Pause')
+                : canStop
+                  ? 'Stop'
                   : 'Start'
             }
           >
             {isBreak ? (
               <SkipForward size={isWidget ? 20 : 24} style={colorTimerOn ? { color: '#ffffff' } : undefined} />
-            ) : isRunning ? (
-              timerMode === 'timer' || timerMode === 'pomodoro' ? (
-                <Square size={isWidget ? 20 : 24} style={colorTimerOn ? { color: '#ffffff' } : undefined} />
-              ) : (
-                <Pause size={isWidget ? 20 : 24} style={colorTimerOn ? { color: '#ffffff' } : undefined} />
-              )
+            ) : canStop ? (
+              <Square size={isWidget ? 20 : 24} style={colorTimerOn ? { color: '#ffffff' } : undefined} />
             ) : (
               <Play size={isWidget ? 20 : 24} style={colorTimerOn ? { color: '#ffffff' } : undefined} />
             )}
           </button>
 
+          {/* Pause/Resume Button - work sessions only */}
+          {canPause && (
+            <button
+              onClick={isPaused ? onResume : onPause}
+              className={`${isWidget ? 'w-10 h-10' : 'w-12 h-12'
+                } rounded-full flex items-center justify-center transition-all duration-300 ease-out-smooth animate-fade-in-up ${colorTimerOn
+                  ? 'bg-white/20 hover:bg-white/30 text-white'
+                  : (theme === 'dark'
+                    ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                    : 'bg-gray-100 hover:bg-gray-200 text-gray-600')
+                }`}
+              title={isPaused ? 'Resume' : 'Pause'}
+            >
+              {isPaused ? (
+                <Play size={isWidget ? 16 : 18} style={colorTimerOn ? { color: '#ffffff' } : undefined} />
+              ) : (
+                <Pause size={isWidget ? 16 : 18} style={colorTimerOn ? { color: '#ffffff' } : undefined} />
+              )}
+            </button>
+          )}
+
           {/* Reset Button - only show for Flow mode */}
           {(isRunning || time > 0) && !isBreak && timerMode === 'flow' && (
             <button
@@ -343,7 +411,8 @@ function Timer({
                   className={`tabular-nums whitespace-nowrap ${!colorTimerOn && theme !== 'dark' ? 'text-[var(--accent-color)]' : ''
                     }`}
                 >
-                  {Math.ceil(estimatedBreakTime / 60)} min
+                  {/* Flow: to the second, as the break countdown will start */}
+                  {timerMode === 'flow' ? formatTimerDisplay(estimatedBreakTime) : `${Math.ceil(estimatedBreakTime / 60)} min`}
                 </span>
               </div>
             </div>
@@ -351,6 +420,50 @@ function Timer({
 
 
 
+        {/* Paused Indicator */}
+        {isPaused && (
+          <div
+            className={[
+              'mt-4 uppercase tracking-wide font-medium',
+              isWidget ? 'text-xs' : 'text-sm',
+              colorTimerOn ? 'text-white/90' : (theme === 'dark' ? 'text-gray-400' : 'text-gray-500')
+            ].join(' ')}
+          >
+            Paused
+          </div>
+        )}
+
+        {/* Checklist of the active task, hidden during breaks */}
+        {activeTask && subtasks.length > 0 && !isBreak && showTasks && (
+          <div
+            className={[
+              'mt-4 mx-auto max-w-xs',
+              isWidget ? 'text-xs' : 'text-sm',
+              colorTimerOn ? 'text-white/90' : (theme === 'dark' ? 'text-gray-300' : 'text-gray-600')
+            ].join(' ')}
+          >
+            <div className={`text-xs uppercase tracking-wide font-medium ${
+              colorTimerOn ? 'text-white/80' : (theme === 'dark' ? 'text-gray-400' : 'text-gray-500')
+            }`}>
+              Checklist <span className="tabular-nums">{doneSubtasks}/{subtasks.length}</span>
+            </div>
+            {openSubtasks.map(subtask => (
+              <button
+                key={subtask.id}
+                onClick={() => onToggleSubtask?.(activeTask.id, subtask.id)}
+                disabled={!onToggleSubtask}
+                className={`mt-1 w-full flex items-center gap-2 px-2 py-1 rounded-lg text-left transition-colors duration-200 ${
+                  colorTimerOn ? 'hover:bg-white/15' : (theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-gray-100')
+                }`}
+                title="Mark as done"
+              >
+                <Circle size={isWidget ? 12 : 14} className="flex-shrink-0" style={!colorTimerOn ? { color: accentHex } : undefined} />
+                <span className="truncate">{subtask.title}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* No Task Warning */}
         {!activeTask && !isWidget && showTasks && requireTaskSelection && (
           <div className={`mt-4 text-sm ${colorTimerOn ? 'text-white/90' : (theme === 'dark' ? 'text-gray-400' : 'text-gray-500')}`}>
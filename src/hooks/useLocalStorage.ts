@@ -1,4 +1,5 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { reportStorageWriteError } from '../utils/storageHealth';
 
 // Cache for parsed values to avoid repeated JSON.parse
 const parseCache = new Map<string, any>();
@@ -35,14 +36,43 @@ export function useLocalStorage<T>(key: string, initialValue: T) {
       // Update cache
       parseCache.set(key, valueToStore);
       
-      // Batch localStorage writes to avoid blocking
+      // Batch localStorage writes to avoid blocking. The write runs later, outside this
+      // try, so failures (quota exceeded) are reported from inside the callback.
       requestIdleCallback(() => {
-        window.localStorage.setItem(key, JSON.stringify(valueToStore));
+        try {
+          window.localStorage.setItem(key, JSON.stringify(valueToStore));
+        } catch (error) {
+          reportStorageWriteError(key, error);
+        }
       }, { timeout: 100 });
     } catch (error) {
       console.error(`Error setting localStorage key "${key}":`, error);
     }
   }, [key]);
 
+  // Follow writes from other tabs (the storage event never fires in the writing tab)
+  const initialValueRef = useRef(initialValue);
+  initialValueRef.current = initialValue;
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea !== window.localStorage) return;
+      // key is null when another tab cleared all of localStorage
+      if (event.key !== key && event.key !== null) return;
+      try {
+        const raw = event.key === null ? window.localStorage.getItem(key) : event.newValue;
+        const next = raw ? JSON.parse(raw) : initialValueRef.current;
+        parseCache.set(key, next);
+        storedValueRef.current = next;
+        setStoredValue(next);
+      } catch (error) {
+        console.error(`Error syncing localStorage key "${key}":`, error);
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [key]);
+
   return [storedValue, setValue] as const;
 }
\ No newline at end of file
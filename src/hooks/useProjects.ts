@@ -0,0 +1,61 @@
+import type { Project } from '../App';
+import { useLocalStorage } from './useLocalStorage';
+import { STORAGE_KEYS } from '../utils/constants';
+
+/**
+ * useProjects()
+ * LocalStorage-backed project registry.
+ *
+ * Storage keys:
+ * - 'flow-projects' -> Project[]
+ *
+ * API:
+ * - projects: Project[] (reactive)
+ * - addProject(name, color) -> Project
+ * - updateProject(id, changes)
+ * - deleteProject(id)
+ *
+ * Notes:
+ * - Deleting a project does not touch tasks; callers detach them (useTasks.detachProject).
+ */
+export function useProjects() {
+  const [projects, setProjects] = useLocalStorage<Project[]>(STORAGE_KEYS.PROJECTS, []);
+
+  /**
+   * addProject()
+   * Create and persist a project; returns it so callers can assign it right away.
+   */
+  const addProject = (name: string, color: string): Project => {
+    const project: Project = {
+      id: `project-${Date.now()}`,
+      name,
+      color,
+      createdAt: new Date().toISOString()
+    };
+    setProjects(prev => [...prev, project]);
+    return project;
+  };
+
+  /**
+   * updateProject()
+   * Rename or recolor a project.
+   */
+  const updateProject = (id: string, changes: Partial<Pick<Project, 'name' | 'color'>>) => {
+    setProjects(prev => prev.map(project => project.id === id ? { ...project, ...changes } : project));
+  };
+
+  /**
+   * deleteProject()
+   * Remove a project definition.
+   */
+  const deleteProject = (id: string) => {
+    setProjects(prev => prev.filter(project => project.id !== id));
+  };
+
+  return {
+    projects,
+    addProject,
+    updateProject,
+    deleteProject
+  };
+}
@@ -0,0 +1,174 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { Session } from '../App';
+import type { DateRange } from '../utils/dataManager';
+import {
+  migrateLegacySessions,
+  loadAllSessions,
+  querySessionsByDateRange,
+  subscribeToSessionWrites,
+  writeSessionChanges
+} from '../utils/sessionStore';
+import { TAB_ID } from './useTabLeader';
+import { reportStorageWriteError } from '../utils/storageHealth';
+import { STORAGE_KEYS } from '../utils/constants';
+
+/**
+ * useSessions()
+ * Session history backed by the IndexedDB session store (see utils/sessionStore).
+ *
+ * API:
+ * - sessions: Session[] (reactive, oldest first)
+ * - setSessions(value | updater): same contract as the useLocalStorage setter it replaces;
+ *   only sessions that were added, changed or removed are written
+ * - isLoaded: false until the store has been read (and legacy sessions migrated)
+ *
+ * Notes:
+ * - Sessions recorded before loading finishes are kept when the stored ones arrive
+ * - Writes are announced on the 'flow-sessions' BroadcastChannel; other tabs apply them
+ */
+
+const SESSIONS_CHANNEL = 'flow-sessions';
+
+interface SessionsMessage {
+  type: 'sessions-changed';
+  from: string;
+  put: Session[];
+  deleteIds: string[];
+}
+
+/** Sessions added or replaced (by identity) and ids removed between two lists */
+const diffSessions = (prev: Session[], next: Session[]) => {
+  const prevById = new Map(prev.map(session => [session.id, session]));
+  const nextIds = new Set(next.map(session => session.id));
+  return {
+    put: next.filter(session => prevById.get(session.id) !== session),
+    deleteIds: prev.filter(session => !nextIds.has(session.id)).map(session => session.id)
+  };
+};
+
+const applySessionChanges = (sessions: Session[], put: Session[], deleteIds: string[]): Session[] => {
+  const putById = new Map(put.map(session => [session.id, session]));
+  const removed = new Set(deleteIds);
+  const kept = sessions
+    .filter(session => !removed.has(session.id))
+    .map(session => putById.get(session.id) ?? session);
+  const keptIds = new Set(kept.map(session => session.id));
+  return [...kept, ...put.filter(session => !keptIds.has(session.id))];
+};
+
+export function useSessions() {
+  const [sessions, setSessionsState] = useState<Session[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Latest list, so functional updates chain even before React re-renders
+  const sessionsRef = useRef(sessions);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+
+  const replaceInMemory = (next: Session[]) => {
+    sessionsRef.current = next;
+    setSessionsState(next);
+  };
+
+  // Load once: move any legacy localStorage array into the store, then read it
+  useEffect(() => {
+    let cancelled = false;
+    migrateLegacySessions()
+      .catch(error => {
+        console.error('Error migrating sessions to IndexedDB:', error);
+        return 0;
+      })
+      .then(() => loadAllSessions())
+      .then(loaded => {
+        if (cancelled) return;
+        const loadedIds = new Set(loaded.map(session => session.id));
+        replaceInMemory([...loaded, ...sessionsRef.current.filter(session => !loadedIds.has(session.id))]);
+      })
+      .catch(error => console.error('Error loading sessions:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Apply writes made in other tabs
+  useEffect(() => {
+    if (typeof BroadcastChannel === 'undefined') return;
+    const channel = new BroadcastChannel(SESSIONS_CHANNEL);
+    channelRef.current = channel;
+    channel.onmessage = (event: MessageEvent<SessionsMessage>) => {
+      const message = event.data;
+      if (message?.type !== 'sessions-changed' || message.from === TAB_ID) return;
+      replaceInMemory(applySessionChanges(sessionsRef.current, message.put, message.deleteIds));
+    };
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  const setSessions = useCallback((value: Session[] | ((prev: Session[]) => Session[])) => {
+    const prev = sessionsRef.current;
+    const next = value instanceof Function ? value(prev) : value;
+    if (next === prev) return;
+    replaceInMemory(next);
+
+    const { put, deleteIds } = diffSessions(prev, next);
+    writeSessionChanges(put, deleteIds, next)
+      .then(() => {
+        if (put.length === 0 && deleteIds.length === 0) return;
+        const message: SessionsMessage = { type: 'sessions-changed', from: TAB_ID, put, deleteIds };
+        channelRef.current?.postMessage(message);
+      })
+      .catch(error => reportStorageWriteError(STORAGE_KEYS.SESSIONS, error));
+  }, []);
+
+  return { sessions, setSessions, isLoaded };
+}
+
+/** Stable empty result while a range is being read */
+const NO_SESSIONS: Session[] = [];
+
+/**
+ * useSessionsInRange()
+ * Sessions whose date falls in the range, read from the store's day index only; the
+ * full history is never loaded for it. The range is read again after every write in
+ * this tab (subscribeToSessionWrites) and every change announced by another tab.
+ * Empty until the first read of a range returns.
+ */
+export function useSessionsInRange(dateRange: DateRange): Session[] {
+  const start = dateRange.start.getTime();
+  const end = dateRange.end.getTime();
+  const [version, setVersion] = useState(0);
+  const [result, setResult] = useState<{ start: number; end: number; found: Session[] } | null>(null);
+
+  useEffect(() => {
+    const refresh = () => setVersion(v => v + 1);
+    const unsubscribe = subscribeToSessionWrites(refresh);
+    const channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(SESSIONS_CHANNEL);
+    if (channel) {
+      channel.onmessage = (event: MessageEvent<SessionsMessage>) => {
+        // This tab's own writes arrive through subscribeToSessionWrites
+        if (event.data?.type === 'sessions-changed' && event.data.from !== TAB_ID) refresh();
+      };
+    }
+    return () => {
+      unsubscribe();
+      channel?.close();
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    querySessionsByDateRange({ start: new Date(start), end: new Date(end) })
+      .then(found => {
+        if (!cancelled) setResult({ start, end, found });
+      })
+      .catch(error => console.error('Error querying sessions:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [start, end, version]);
+
+  return result && result.start === start && result.end === end ? result.found : NO_SESSIONS;
+}
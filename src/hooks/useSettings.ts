@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import type { Settings } from '../App';
+import { useLocalStorage } from './useLocalStorage';
+import { DEFAULT_SETTINGS, normalizeSettings } from '../utils/settingsSchema';
+import { STORAGE_KEYS } from '../utils/constants';
+
+/**
+ * useSettings()
+ * 'flow-settings' through the settings schema (see utils/settingsSchema): whatever is
+ * stored - an older version, invalid fields, something that is not JSON at all - comes
+ * out as complete, valid Settings.
+ *
+ * API:
+ * - settings: Settings (reactive; every field present)
+ * - setSettings(value | updater): updaters receive the normalized settings
+ *
+ * Notes:
+ * - When normalizing changed anything (migration, repaired field) the result is written back once
+ * - The legacy 'flow-layout' key is left in place; it is only read by the v1 -> v2 migration
+ */
+export function useSettings() {
+  const [stored, setStored] = useLocalStorage<unknown>(STORAGE_KEYS.SETTINGS, DEFAULT_SETTINGS);
+  const settings = useMemo(() => normalizeSettings(stored), [stored]);
+
+  useEffect(() => {
+    if (JSON.stringify(stored) !== JSON.stringify(settings)) setStored(settings);
+  }, [stored, settings, setStored]);
+
+  const setSettings = useCallback((value: Settings | ((prev: Settings) => Settings)) => {
+    setStored((prev: unknown) => {
+      const current = normalizeSettings(prev);
+      return value instanceof Function ? value(current) : value;
+    });
+  }, [setStored]);
+
+  return [settings, setSettings] as const;
+}
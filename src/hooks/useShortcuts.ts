@@ -0,0 +1,48 @@
+import { useEffect, useRef } from 'react';
+import {
+  eventToBinding,
+  findConflicts,
+  isTypingTarget,
+  SHORTCUT_ACTIONS,
+  type ShortcutAction,
+  type ShortcutBindings
+} from '../utils/shortcuts';
+
+/**
+ * useShortcuts(bindings, handlers)
+ * Runs the handler of the action bound to a key press anywhere in the window.
+ *
+ * Rules:
+ * - Nothing fires while typing (inputs, textareas, selects, contenteditable), on
+ *   key repeat, or for presses another handler already took (defaultPrevented)
+ * - Space on a focused button, link or checkbox is left to that element, which it activates
+ * - Bindings in conflict (shared or reserved, see findConflicts) are ignored
+ * - Actions without a handler let the key through untouched
+ *
+ * Handlers are read through a ref, so they may be new functions on every render.
+ */
+export function useShortcuts(bindings: ShortcutBindings, handlers: Partial<Record<ShortcutAction, () => void>>) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const conflicts = findConflicts(bindings);
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.defaultPrevented || isTypingTarget(e.target)) return;
+      const binding = eventToBinding(e);
+      if (!binding) return;
+      if (binding === 'Space' && e.target instanceof Element && e.target.closest('button, a, [role="button"], input')) return;
+
+      const entry = SHORTCUT_ACTIONS.find(({ action }) => bindings[action] === binding && !conflicts.has(action));
+      const handler = entry && handlersRef.current[entry.action];
+      if (!handler) return;
+
+      e.preventDefault();
+      handler();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [bindings]);
+}
@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * useTabLeader()
+ * Elects one open tab as the timer leader through a short lease in localStorage.
+ *
+ * Storage keys:
+ * - 'flow-timer-leader' -> { tabId, expiresAt } (ephemeral; not part of backups)
+ *
+ * Rules:
+ * - The leader renews its lease every LEASE_RENEW_MS; a lease not renewed within
+ *   LEASE_MS is free to claim (closed or crashed tab)
+ * - A tab that becomes visible takes over, because hidden tabs stop animation frames
+ * - A closing leader releases the lease so another tab claims it right away
+ *
+ * API:
+ * - isLeader: boolean (reactive)
+ * - isLeaderRef: ref for long-lived closures such as the rAF ticker
+ */
+
+/** Identifies this tab in the lease and in cross-tab messages */
+export const TAB_ID = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+const LEADER_KEY = 'flow-timer-leader';
+const LEASE_MS = 5000;
+const LEASE_RENEW_MS = 2000;
+
+interface LeaderLease {
+  tabId: string;
+  expiresAt: number;
+}
+
+const readLease = (): LeaderLease | null => {
+  try {
+    const raw = localStorage.getItem(LEADER_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed && typeof parsed.tabId === 'string' && typeof parsed.expiresAt === 'number' ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Take (or renew) the lease when it is free, expired, already ours, or `force` is set.
+ * Returns whether this tab leads afterwards.
+ */
+const claimLease = (force: boolean): boolean => {
+  const lease = readLease();
+  const now = Date.now();
+  if (!force && lease && lease.tabId !== TAB_ID && lease.expiresAt > now) return false;
+  try {
+    localStorage.setItem(LEADER_KEY, JSON.stringify({ tabId: TAB_ID, expiresAt: now + LEASE_MS }));
+  } catch {
+    // Without storage every tab acts on its own, as before
+  }
+  return true;
+};
+
+const releaseLease = () => {
+  if (readLease()?.tabId === TAB_ID) localStorage.removeItem(LEADER_KEY);
+};
+
+export function useTabLeader() {
+  // Claimed synchronously so mount-time reconciliation already knows who leads
+  const [isLeader, setIsLeader] = useState(() =>
+    claimLease(typeof document !== 'undefined' && document.visibilityState === 'visible')
+  );
+  const isLeaderRef = useRef(isLeader);
+  isLeaderRef.current = isLeader;
+
+  useEffect(() => {
+    const update = (leading: boolean) => {
+      isLeaderRef.current = leading;
+      setIsLeader(leading);
+    };
+
+    const renew = () => update(claimLease(false));
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') update(claimLease(true));
+    };
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== LEADER_KEY && e.key !== null) return;
+      const lease = readLease();
+      if (!lease) {
+        // The leader closed: claim the lease now instead of waiting for the next renewal
+        renew();
+      } else if (lease.tabId !== TAB_ID) {
+        update(false);
+      }
+    };
+    const onPageHide = () => releaseLease();
+
+    renew();
+    const interval = window.setInterval(renew, LEASE_RENEW_MS);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('storage', onStorage);
+    window.addEventListener('pagehide', onPageHide);
+    return () => {
+      window.clearInterval(interval);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('storage', onStorage);
+      window.removeEventListener('pagehide', onPageHide);
+      releaseLease();
+    };
+  }, []);
+
+  return { isLeader, isLeaderRef };
+}
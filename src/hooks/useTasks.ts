@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
-import type { Task } from '../App';
+import type { Task, TaskStatus, Session, Subtask } from '../App';
 import { useLocalStorage } from './useLocalStorage';
+import { getTaskTimeTotals } from '../utils/sessionUtils';
 
 /**
  * useTasks()
@@ -13,13 +14,24 @@ import { useLocalStorage } from './useLocalStorage';
  * API:
  * - tasks: Task[] (reactive)
  * - activeTask: Task | null (reactive)
- * - addTask(name, estimatedTime?)
+ * - addTask(name, estimatedTime?, projectId?, tags?, profileId?)
+ * - updateTask(id, changes) (App carries a rename over to past sessions and task history)
+ * - reorderTasks(orderedIds)
+ * - addSubtask(taskId, title) / toggleSubtask(taskId, subtaskId) / removeSubtask(taskId, subtaskId)
  * - deleteTask(id)
  * - setActiveTask(task)
+ * - completeTask(id) / reopenTask(id) / archiveTask(id)
+ * - archiveCompletedBefore(date)
+ * - removeArchivedBefore(date) (frees localStorage; sessions and task history are kept)
+ * - detachProject(projectId)
+ * - setTaskProfile(id, profileId?) / detachProfile(profileId)
+ * - recomputeTimeSpent(sessions, taskIds)
  *
  * Notes:
  * - deleteTask also cleans up the 'flow-task-history' suggestion list.
  * - Keeps activeTask in sync with tasks when list changes.
+ * - Tasks persist across days; only their status changes (see TaskStatus).
+ * - The order of 'flow-tasks' is the order TaskManager lists them in.
  */
 export function useTasks() {
   const [tasks, setTasks] = useLocalStorage<Task[]>('flow-tasks', []);
@@ -27,19 +39,74 @@ export function useTasks() {
 
   /**
    * addTask()
-   * Create and persist a new Task with optional goal (seconds).
+   * Create and persist a new Task with optional goal (seconds), project, tags and settings profile.
    */
-  const addTask = (name: string, estimatedTime?: number) => {
+  const addTask = (name: string, estimatedTime?: number, projectId?: string, tags?: string[], profileId?: string) => {
     const newTask: Task = {
       id: Date.now().toString(),
       name,
       timeSpent: 0,
       estimatedTime,
-      createdAt: new Date().toISOString()
+      createdAt: new Date().toISOString(),
+      ...(projectId ? { projectId } : {}),
+      ...(tags && tags.length > 0 ? { tags } : {}),
+      ...(profileId ? { profileId } : {})
     };
     setTasks(prev => [...prev, newTask]);
   };
 
+  /**
+   * updateTask()
+   * Merge changes into a task. An undefined estimatedTime clears the goal.
+   */
+  const updateTask = (id: string, changes: Partial<Omit<Task, 'id'>>) => {
+    setTasks(prev => prev.map(task => task.id === id ? { ...task, ...changes } : task));
+  };
+
+  /**
+   * reorderTasks()
+   * Put tasks in the order of `orderedIds`; tasks not listed follow in their current order.
+   */
+  const reorderTasks = (orderedIds: string[]) => {
+    setTasks(prev => {
+      const byId = new Map(prev.map(task => [task.id, task]));
+      const ordered = orderedIds.map(id => byId.get(id)).filter((task): task is Task => Boolean(task));
+      const rest = prev.filter(task => !orderedIds.includes(task.id));
+      return [...ordered, ...rest];
+    });
+  };
+
+  const updateSubtasks = (taskId: string, update: (subtasks: Subtask[]) => Subtask[]) => {
+    setTasks(prev => prev.map(task => task.id === taskId ? { ...task, subtasks: update(task.subtasks ?? []) } : task));
+  };
+
+  /**
+   * addSubtask()
+   * Append an open item to a task's checklist.
+   */
+  const addSubtask = (taskId: string, title: string) => {
+    const subtask: Subtask = { id: Date.now().toString(), title, done: false };
+    updateSubtasks(taskId, subtasks => [...subtasks, subtask]);
+  };
+
+  /**
+   * toggleSubtask()
+   * Tick an item off (stamping completedAt, which the running session records) or reopen it.
+   */
+  const toggleSubtask = (taskId: string, subtaskId: string) => {
+    const now = new Date().toISOString();
+    updateSubtasks(taskId, subtasks => subtasks.map(subtask => {
+      if (subtask.id !== subtaskId) return subtask;
+      return subtask.done
+        ? { ...subtask, done: false, completedAt: undefined }
+        : { ...subtask, done: true, completedAt: now };
+    }));
+  };
+
+  const removeSubtask = (taskId: string, subtaskId: string) => {
+    updateSubtasks(taskId, subtasks => subtasks.filter(subtask => subtask.id !== subtaskId));
+  };
+
   /**
    * deleteTask()
    * Remove a task by id, clear active selection if it matches,
@@ -79,6 +146,109 @@ export function useTasks() {
     }
   };
 
+  /**
+   * setTaskStatus()
+   * Move a task through its lifecycle, stamping completedAt/archivedAt.
+   * A task that leaves the active list is also deselected.
+   */
+  const setTaskStatus = (id: string, status: TaskStatus) => {
+    const now = new Date().toISOString();
+    setTasks(prev => prev.map(task => {
+      if (task.id !== id) return task;
+      if (status === 'active') {
+        return { ...task, status, completedAt: undefined, archivedAt: undefined };
+      }
+      if (status === 'completed') {
+        return { ...task, status, completedAt: now, archivedAt: undefined };
+      }
+      return { ...task, status, archivedAt: now };
+    }));
+
+    if (status !== 'active' && activeTask?.id === id) {
+      setActiveTaskState(null);
+    }
+  };
+
+  const completeTask = (id: string) => setTaskStatus(id, 'completed');
+  const reopenTask = (id: string) => setTaskStatus(id, 'active');
+  const archiveTask = (id: string) => setTaskStatus(id, 'archived');
+
+  /**
+   * archiveCompletedBefore()
+   * Day rollover: archive tasks completed before the given day.
+   * Active tasks carry over untouched.
+   */
+  const archiveCompletedBefore = (date: Date) => {
+    const dayStart = new Date(date);
+    dayStart.setHours(0, 0, 0, 0);
+    setTasks(prev => {
+      const stale = prev.filter(task =>
+        task.status === 'completed' &&
+        new Date(task.completedAt || task.createdAt).getTime() < dayStart.getTime()
+      );
+      if (stale.length === 0) return prev;
+      const archivedAt = new Date().toISOString();
+      return prev.map(task => stale.includes(task) ? { ...task, status: 'archived' as const, archivedAt } : task);
+    });
+  };
+
+  /**
+   * removeArchivedBefore()
+   * Drop tasks archived before the given moment from 'flow-tasks'. Their sessions carry
+   * name, project and tags, so History is unaffected; 'flow-task-history' keeps the names.
+   */
+  const removeArchivedBefore = (date: Date) => {
+    setTasks(prev => {
+      const kept = prev.filter(task =>
+        task.status !== 'archived' ||
+        new Date(task.archivedAt || task.completedAt || task.createdAt).getTime() >= date.getTime()
+      );
+      return kept.length === prev.length ? prev : kept;
+    });
+  };
+
+  /**
+   * detachProject()
+   * Clear a deleted project from every task that belonged to it.
+   */
+  const detachProject = (projectId: string) => {
+    setTasks(prev => prev.some(task => task.projectId === projectId)
+      ? prev.map(task => task.projectId === projectId ? { ...task, projectId: undefined } : task)
+      : prev
+    );
+  };
+
+  /**
+   * setTaskProfile()
+   * Attach a settings profile to a task (applied when the task is selected), or clear it.
+   */
+  const setTaskProfile = (id: string, profileId?: string) => {
+    setTasks(prev => prev.map(task => task.id === id ? { ...task, profileId } : task));
+  };
+
+  /**
+   * detachProfile()
+   * Clear a deleted settings profile from every task that used it.
+   */
+  const detachProfile = (profileId: string) => {
+    setTasks(prev => prev.some(task => task.profileId === profileId)
+      ? prev.map(task => task.profileId === profileId ? { ...task, profileId: undefined } : task)
+      : prev
+    );
+  };
+
+  /**
+   * recomputeTimeSpent()
+   * Reset timeSpent of the given tasks to the sum of their work sessions,
+   * after sessions were edited by hand.
+   */
+  const recomputeTimeSpent = (sessions: Session[], taskIds: string[]) => {
+    const totals = getTaskTimeTotals(sessions);
+    setTasks(prev => prev.map(task =>
+      taskIds.includes(task.id) ? { ...task, timeSpent: totals.get(task.id) || 0 } : task
+    ));
+  };
+
   /**
    * setActiveTask()
    * Persist active selection for cross-reload continuity.
@@ -105,7 +275,21 @@ export function useTasks() {
     tasks,
     activeTask,
     addTask,
+    updateTask,
+    reorderTasks,
+    addSubtask,
+    toggleSubtask,
+    removeSubtask,
     deleteTask,
-    setActiveTask
+    setActiveTask,
+    completeTask,
+    reopenTask,
+    archiveTask,
+    archiveCompletedBefore,
+    removeArchivedBefore,
+    detachProject,
+    setTaskProfile,
+    detachProfile,
+    recomputeTimeSpent
   };
 }
\ No newline at end of file
@@ -10,14 +10,11 @@ export function useTheme(theme: 'light' | 'dark', accentColor: string) {
   const toggleTheme = () => {
     const newTheme: 'light' | 'dark' = theme === 'light' ? 'dark' : 'light';
 
-    // Persist
-    const settings = JSON.parse(localStorage.getItem('flow-settings') || '{}');
-    localStorage.setItem('flow-settings', JSON.stringify({ ...settings, theme: newTheme }));
-
     // Apply to DOM immediately for visual change
     applyThemeAttribute(newTheme);
 
-    // IMPORTANT: also update the in-app state so components re-render and the icon flips
+    // IMPORTANT: update (and persist) the in-app settings so components re-render and the icon flips.
+    // Settings are written only by useSettings, which keeps 'flow-settings' valid and versioned.
     try {
       const event = new CustomEvent('flow-theme-changed', { detail: { theme: newTheme } });
       window.dispatchEvent(event);
@@ -30,12 +27,10 @@ export function useTheme(theme: 'light' | 'dark', accentColor: string) {
     // Sync attribute/class on first mount
     applyThemeAttribute(theme);
 
-    // Bridge to local storage state in App: listen and mutate storage-backed settings to force re-render
+    // App stores the new theme in settings; here only the styles need a nudge
     const onThemeChanged = (e: Event) => {
       const detail = (e as CustomEvent<{ theme: 'light' | 'dark' }>).detail;
       if (!detail) return;
-      const settings = JSON.parse(localStorage.getItem('flow-settings') || '{}');
-      localStorage.setItem('flow-settings', JSON.stringify({ ...settings, theme: detail.theme }));
       // Trigger a micro reflow hint so Tailwind class-based styles update smoothly
       document.body?.offsetHeight; // read to force style recalc
     };
@@ -1,37 +1,77 @@
 import { useState, useEffect, useRef } from 'react';
-import type { Task, Session, Settings } from '../App';
+import type { Task, Session, SessionKind, Settings, PomodoroStep } from '../App';
+import { appendUniqueSessions, splitSessionAtMidnight, isWorkSession } from '../utils/sessionUtils';
+import {
+  appendJournalEntry,
+  touchJournal,
+  readJournal,
+  findUnfinishedSession,
+  getRecoveredWork,
+  HEARTBEAT_INTERVAL_MS,
+  type RecoveredSession
+} from '../utils/timerJournal';
+import { useTabLeader, TAB_ID } from './useTabLeader';
+import { safeSetItem } from '../utils/storageHealth';
+import { computeFlowBreak, bankSkippedBreak } from '../utils/breakPolicy';
+import { buildClassicSteps, countWorkSteps, getPomodoroSteps, getStepName } from '../utils/pomodoroSequence';
+import { soundManager } from '../utils/soundManager';
 
 /**
  * useTimer()
  * A drift-free work/break timer hook that supports two modes:
- * 1. Flow mode: Flexible work time with optional proportional/fixed breaks
- * 2. Pomodoro mode: Fixed work/break cycles with session counting
+ * 1. Flow mode: Flexible work time with optional breaks from the Flow break policy (utils/breakPolicy)
+ * 2. Pomodoro mode: A sequence of work and break steps (utils/pomodoroSequence) - the classic
+ *    work/break cycles with periodic long breaks, or a custom sequence
+ * Timer mode counts up with no breaks, or (settings.timerCountdownEnabled) counts down to a
+ * target with an alert at zero, then either finishes or counts overtime (Session.overtime).
  * 
  * Features:
  * - Tracks work elapsed time using wall-clock (Date.now) to avoid setInterval drift
  * - Persists state to localStorage to survive reloads and resumes correctly
  * - Supports both countdown (Pomodoro) and count-up (Flow) timing
+ * - Work sessions can be paused and resumed; paused time is excluded from elapsed time
  * - Emits audio and optional visual notifications at break end
+ * - Records completed Pomodoros, interrupted Pomodoros, and finished or skipped
+ *   breaks as sessions (see Session.kind) so rest can be reviewed in History
+ * - Journals every transition to 'flow-timer-journal' before applying it; a work
+ *   session cut short by a crash is offered back through recovery/resolveRecovery
+ * - Stays in sync across open tabs: state changes are broadcast on the 'flow-timer'
+ *   BroadcastChannel (with `storage` events as fallback) and adopted by the other tabs.
+ *   Only the leader tab (useTabLeader) runs automatic transitions, so Pomodoro
+ *   completions and finished breaks are recorded, journaled and announced once
  *
  * Inputs:
  * - activeTask: current selected task or null (cannot start without)
  * - tasks: current task list (used to update timeSpent on stop)
  * - sessions: historical sessions (not mutated here directly, only appended)
- * - setSessions: setter to append newly finished work sessions
+ * - setSessions: setter to append newly finished work and rest sessions
  * - settings: user preferences (audio/visual notifications, timer mode, etc.)
  *
  * Returns:
  * - time: number
  * - isRunning: boolean
  * - isBreak: boolean
+ * - isPaused: boolean
+ * - breakType: BreakType | undefined (set while in a break)
  * - startTimer(): void
- * - stopTimer(): void
+ * - stopTimer(): void (also finishes a paused session)
+ * - pauseTimer(): void (work sessions only)
+ * - resumeTimer(): void
  * - resetTimer(): void
  * - estimatedBreakTime: number (seconds, computed live while working)
+ * - countdownTarget: number | undefined (Timer mode countdown: the running target, or the one starting would use)
+ * - isOvertime: boolean (the countdown passed zero; time counts the overtime)
  * - currentSession: number (for Pomodoro mode)
  * - totalSessions: number (for Pomodoro mode)
+ * - pomodoroSteps: PomodoroStep[] (the running cycle, or the one starting would run)
+ * - pomodoroStepIndex: number (step in progress; 0 when idle)
  * - skipBreak(): void (skip current break)
+ * - recovery: RecoveredSession | null (unfinished work found at startup)
+ * - resolveRecovery(action, endAt?): void ('keep' | 'trim' | 'discard')
  */
+/** Kind of break in progress: Pomodoro alternates short breaks with periodic long ones */
+export type BreakType = 'short' | 'long';
+
 interface TimerState {
   /** seconds for display (work elapsed or break remaining) */
   time: number;
@@ -42,16 +82,136 @@ interface TimerState {
   sessionId: string;
   /** ms timestamp when break should end */
   targetTime?: number;
-  /** Pomodoro mode: current session number (1-based) */
+  /** Pomodoro mode: current session number (1-based; counts work steps) */
   currentSession?: number;
-  /** Pomodoro mode: total sessions configured */
+  /** Pomodoro mode: work steps in the cycle */
   totalSessions?: number;
-  /** Pomodoro mode: work duration in seconds */
+  /** Pomodoro mode: duration of the current work step in seconds */
   workDuration?: number;
-  /** Pomodoro mode: break duration in seconds */
+  /** Pomodoro mode: steps of the running cycle, copied from the settings at start */
+  steps?: PomodoroStep[];
+  /** Pomodoro mode: index of the current step in steps */
+  stepIndex?: number;
+  /** Kind of the current break (only meaningful while isBreak) */
+  breakType?: BreakType;
+  /** ms timestamp when the current break began (survives reloads, unlike startTime) */
+  breakStartedAt?: number;
+  /** True when a work session is paused (isRunning is false while paused) */
+  isPaused?: boolean;
+  /** ms timestamp when the current pause began */
+  pausedAt?: number;
+  /** ms accumulated in completed pauses of the current work session */
+  pausedMs?: number;
+  /** Flow mode: unused break seconds carried over to the next break (settings.flowBreakBankUnused) */
+  bankedBreakSeconds?: number;
+  /** Timer mode countdown: target in worked seconds, fixed at start */
+  countdownTarget?: number;
+  /** Timer mode countdown: keep counting past zero instead of finishing the session */
+  countdownOvertime?: boolean;
+  /** Timer mode countdown: the zero alert went off (so it goes off once, in one tab) */
+  countdownAlerted?: boolean;
+}
+
+/**
+ * getWorkElapsedSeconds()
+ * Wall-clock seconds worked since startTime, excluding paused time.
+ * While paused the clock is frozen at pausedAt.
+ */
+export const getWorkElapsedSeconds = (
+  state: Pick<TimerState, 'startTime' | 'isPaused' | 'pausedAt' | 'pausedMs'>,
+  now: number = Date.now()
+): number => {
+  const end = state.isPaused && state.pausedAt ? state.pausedAt : now;
+  return Math.max(0, Math.floor((end - state.startTime - (state.pausedMs || 0)) / 1000));
+};
+
+/**
+ * getCountdownTarget()
+ * Seconds a Timer mode countdown started now runs for: timerCountdownMinutes, or with the
+ * 'goal' source what is left of the task's daily goal (Task.estimatedTime minus today's work).
+ * Falls back to timerCountdownMinutes without a task, a goal, or time left on it.
+ */
+export const getCountdownTarget = (
+  settings: Settings,
+  task: Task | null,
+  sessions: Session[],
+  now: number = Date.now()
+): number => {
+  const fixed = settings.timerCountdownMinutes * 60;
+  if (settings.timerCountdownSource !== 'goal' || !task?.estimatedTime) return fixed;
+
+  const today = new Date(now).toDateString();
+  const workedToday = sessions
+    .filter(s => s.taskId === task.id && s.date === today && isWorkSession(s))
+    .reduce((sum, s) => sum + s.duration, 0);
+  const left = task.estimatedTime - workedToday;
+  return left > 0 ? left : fixed;
+};
+
+/** Durations a Pomodoro state saved before sequences carried instead of steps (seconds) */
+interface LegacyPomodoroState {
   breakDuration?: number;
+  longBreakDuration?: number;
+  longBreakInterval?: number;
 }
 
+/**
+ * getSavedSteps()
+ * Steps of a saved or broadcast Pomodoro state. Older states only have the classic
+ * durations; their cycle is rebuilt so a session running across an update continues.
+ */
+const getSavedSteps = (parsed: Partial<TimerState> & LegacyPomodoroState): Pick<TimerState, 'steps' | 'stepIndex'> => {
+  if (Array.isArray(parsed.steps) && parsed.steps.length > 0) {
+    return { steps: parsed.steps, stepIndex: typeof parsed.stepIndex === 'number' ? parsed.stepIndex : 0 };
+  }
+  if (typeof parsed.currentSession !== 'number' || typeof parsed.workDuration !== 'number') {
+    return { steps: undefined, stepIndex: undefined };
+  }
+  const steps = buildClassicSteps({
+    workMinutes: Math.round(parsed.workDuration / 60),
+    breakMinutes: Math.round((parsed.breakDuration || 300) / 60),
+    longBreakMinutes: Math.round((parsed.longBreakDuration || 900) / 60),
+    sessions: parsed.totalSessions || 1,
+    longBreakInterval: parsed.longBreakInterval || 0
+  });
+  return { steps, stepIndex: (parsed.currentSession - 1) * 2 + (parsed.isBreak ? 1 : 0) };
+};
+
+/** Cross-tab channel for timer state changes */
+const TIMER_CHANNEL = 'flow-timer';
+
+/**
+ * normalizeTimerState()
+ * Saved or broadcast state with every required field present.
+ */
+const normalizeTimerState = (parsed: Partial<TimerState>): TimerState => ({
+  time: typeof parsed.time === 'number' ? parsed.time : 0,
+  isRunning: !!parsed.isRunning,
+  isBreak: !!parsed.isBreak,
+  startTime: typeof parsed.startTime === 'number' ? parsed.startTime : 0,
+  sessionId: typeof parsed.sessionId === 'string' ? parsed.sessionId : '',
+  targetTime: typeof parsed.targetTime === 'number' ? parsed.targetTime : undefined,
+  currentSession: typeof parsed.currentSession === 'number' ? parsed.currentSession : undefined,
+  totalSessions: typeof parsed.totalSessions === 'number' ? parsed.totalSessions : undefined,
+  workDuration: typeof parsed.workDuration === 'number' ? parsed.workDuration : undefined,
+  ...getSavedSteps(parsed),
+  breakType: parsed.breakType === 'long' || parsed.breakType === 'short' ? parsed.breakType : undefined,
+  breakStartedAt: typeof parsed.breakStartedAt === 'number' ? parsed.breakStartedAt : undefined,
+  isPaused: !!parsed.isPaused,
+  pausedAt: typeof parsed.pausedAt === 'number' ? parsed.pausedAt : undefined,
+  pausedMs: typeof parsed.pausedMs === 'number' ? parsed.pausedMs : 0,
+  bankedBreakSeconds: typeof parsed.bankedBreakSeconds === 'number' ? parsed.bankedBreakSeconds : undefined,
+  countdownTarget: typeof parsed.countdownTarget === 'number' ? parsed.countdownTarget : undefined,
+  countdownOvertime: parsed.countdownOvertime === true ? true : undefined,
+  countdownAlerted: parsed.countdownAlerted === true ? true : undefined,
+});
+
+/**
+ * Everything but the display time. The display time is derived from the wall clock,
+ * so ticking alone is neither persisted nor broadcast.
+ */
+const getStateKey = (state: TimerState): string => JSON.stringify({ ...state, time: undefined });
+
 export function useTimer(
   activeTask: Task | null,
   tasks: Task[],
@@ -59,23 +219,29 @@ export function useTimer(
   setSessions: (sessions: Session[] | ((prev: Session[]) => Session[])) => void,
   settings: Settings
 ) {
+  // Work cut short by a crash or a lost timer state, rebuilt from the journal once at startup
+  const [recovery, setRecovery] = useState<RecoveredSession | null>(() => {
+    try {
+      const saved = localStorage.getItem('flow-timer-state');
+      return findUnfinishedSession(readJournal(), saved ? JSON.parse(saved) : null, sessions);
+    } catch {
+      return null;
+    }
+  });
+
+  // Sessions load asynchronously (IndexedDB); drop the prompt once its session shows up recorded
+  useEffect(() => {
+    if (recovery && sessions.some(s => s.id === recovery.recordId)) setRecovery(null);
+  }, [recovery, sessions]);
+
   const [timerState, setTimerState] = useState<TimerState>(() => {
     const saved = localStorage.getItem('flow-timer-state');
-    if (saved) {
-      const parsed = JSON.parse(saved) as Partial<TimerState>;
+    const parsed = saved ? JSON.parse(saved) as Partial<TimerState> : null;
+    // A stale snapshot of the recovered session must not resume; the user decides what to keep
+    const isRecovered = !!recovery && !recovery.stopped && parsed?.sessionId === recovery.sessionId;
+    if (parsed && !isRecovered) {
       // Normalize saved state to ensure required fields exist
-      return {
-        time: typeof parsed.time === 'number' ? parsed.time : 0,
-        isRunning: !!parsed.isRunning,
-        isBreak: !!parsed.isBreak,
-        startTime: typeof parsed.startTime === 'number' ? parsed.startTime : 0,
-        sessionId: typeof parsed.sessionId === 'string' ? parsed.sessionId : '',
-        targetTime: typeof parsed.targetTime === 'number' ? parsed.targetTime : undefined,
-        currentSession: typeof parsed.currentSession === 'number' ? parsed.currentSession : undefined,
-        totalSessions: typeof parsed.totalSessions === 'number' ? parsed.totalSessions : undefined,
-        workDuration: typeof parsed.workDuration === 'number' ? parsed.workDuration : undefined,
-        breakDuration: typeof parsed.breakDuration === 'number' ? parsed.breakDuration : undefined,
-      };
+      return normalizeTimerState(parsed);
     }
     return {
       time: 0,
@@ -87,33 +253,126 @@ export function useTimer(
       currentSession: undefined,
       totalSessions: undefined,
       workDuration: undefined,
-      breakDuration: undefined,
+      steps: undefined,
+      stepIndex: undefined,
+      breakType: undefined,
+      breakStartedAt: undefined,
+      isPaused: false,
+      pausedAt: undefined,
+      pausedMs: 0,
     };
   });
 
   const tickRef = useRef<number | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
+  // Latest task/session inputs for recording from the long-lived rAF ticker closure
+  const latestRef = useRef({ activeTask, tasks, sessions });
+  latestRef.current = { activeTask, tasks, sessions };
+
+  // Only the leader tab runs automatic transitions (Pomodoro completion, break end)
+  const { isLeaderRef } = useTabLeader();
+
+  const stateKey = getStateKey(timerState);
+  const stateKeyRef = useRef(stateKey);
+  stateKeyRef.current = stateKey;
+  // Key of the last state adopted from another tab; it is already saved, so it is not echoed back
+  const adoptedKeyRef = useRef<string | null>(null);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+
+  // Save timer state to localStorage and tell the other tabs
+  useEffect(() => {
+    if (stateKey === adoptedKeyRef.current) return;
+    if (!safeSetItem('flow-timer-state', JSON.stringify(timerState))) return;
+    channelRef.current?.postMessage({ type: 'timer-state', from: TAB_ID });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stateKey]);
+
+  // Adopt state changes made in other tabs. Both signals re-read localStorage, which
+  // always holds the latest write, so a late event can never roll the state back.
+  useEffect(() => {
+    const adoptSavedState = () => {
+      let next: TimerState;
+      try {
+        const saved = localStorage.getItem('flow-timer-state');
+        if (!saved) return;
+        next = normalizeTimerState(JSON.parse(saved));
+      } catch {
+        return;
+      }
+      const nextKey = getStateKey(next);
+      if (nextKey === stateKeyRef.current) return;
+      adoptedKeyRef.current = nextKey;
+      setTimerState(next);
+    };
+
+    const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(TIMER_CHANNEL) : null;
+    channelRef.current = channel;
+    if (channel) {
+      channel.onmessage = (event: MessageEvent) => {
+        if (event.data?.type === 'timer-state' && event.data.from !== TAB_ID) adoptSavedState();
+      };
+    }
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === 'flow-timer-state') adoptSavedState();
+    };
+    window.addEventListener('storage', onStorage);
 
-  // Save timer state to localStorage
+    return () => {
+      window.removeEventListener('storage', onStorage);
+      channel?.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  // Heartbeat while work runs, so a crash can be told apart from a quick reload
   useEffect(() => {
-    localStorage.setItem('flow-timer-state', JSON.stringify(timerState));
-  }, [timerState]);
+    if (!timerState.isRunning || timerState.isBreak) return;
+    const beat = () => touchJournal();
+    beat();
+    const interval = window.setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    window.addEventListener('pagehide', beat);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('pagehide', beat);
+    };
+  }, [timerState.isRunning, timerState.isBreak]);
+
+  /** Journal the start of a work session under the id it will be recorded with */
+  const journalWorkStart = (
+    at: number,
+    sessionId: string,
+    recordId: string,
+    mode: 'flow' | 'pomodoro' | 'timer',
+    task: Task | null,
+    workDuration?: number
+  ) => {
+    appendJournalEntry({
+      type: 'start',
+      at,
+      sessionId,
+      recordId,
+      mode,
+      ...(task ? { taskId: task.id, taskName: task.name } : {}),
+      ...(workDuration ? { workDuration } : {}),
+    });
+  };
 
-  // On mount, reconcile saved state with wall clock so timers continue across reloads
+  // On mount, reconcile saved state with wall clock so timers continue across reloads.
+  // A follower tab leaves this to the leader; its ticker derives the display time itself.
   useEffect(() => {
     const saved = localStorage.getItem('flow-timer-state');
-    if (!saved) return;
+    if (!saved || !isLeaderRef.current) return;
 
-    const parsed = JSON.parse(saved) as TimerState;
+    const parsed = normalizeTimerState(JSON.parse(saved));
     const now = Date.now();
-    const timerMode = settings.timerMode ?? 'flow';
+    const timerMode = settings.timerMode;
 
     if (parsed.isRunning) {
       if (!parsed.isBreak) {
         // Resume work session
         if (timerMode === 'flow') {
           // Flow mode: recompute elapsed since startTime
-          const elapsedSec = Math.max(0, Math.floor((now - parsed.startTime) / 1000));
+          const elapsedSec = getWorkElapsedSeconds(parsed, now);
           setTimerState(prev => ({
             ...prev,
             isRunning: true,
@@ -125,7 +384,7 @@ export function useTimer(
           }));
         } else {
           // Pomodoro mode: recompute remaining time
-          const elapsedSec = Math.floor((now - parsed.startTime) / 1000);
+          const elapsedSec = getWorkElapsedSeconds(parsed, now);
           const remainingSec = Math.max(0, (parsed.workDuration || 0) - elapsedSec);
           setTimerState(prev => ({
             ...prev,
@@ -138,7 +397,8 @@ export function useTimer(
             currentSession: parsed.currentSession,
             totalSessions: parsed.totalSessions,
             workDuration: parsed.workDuration,
-            breakDuration: parsed.breakDuration,
+            steps: parsed.steps,
+            stepIndex: parsed.stepIndex,
           }));
         }
       } else {
@@ -156,10 +416,17 @@ export function useTimer(
             currentSession: parsed.currentSession,
             totalSessions: parsed.totalSessions,
             workDuration: parsed.workDuration,
-            breakDuration: parsed.breakDuration,
+            steps: parsed.steps,
+            stepIndex: parsed.stepIndex,
+            breakType: parsed.breakType,
+            breakStartedAt: parsed.breakStartedAt,
           }));
         } else {
           // Break already finished while closed
+          if (parsed.targetTime) {
+            appendJournalEntry({ type: 'break-end', at: parsed.targetTime });
+            recordRestSession('break', parsed, parsed.targetTime);
+          }
           setTimerState(prev => ({
             ...prev,
             isRunning: false,
@@ -169,7 +436,9 @@ export function useTimer(
             currentSession: undefined,
             totalSessions: undefined,
             workDuration: undefined,
-            breakDuration: undefined,
+            steps: undefined,
+            stepIndex: undefined,
+            breakType: undefined,
           }));
           // Fire notifications consistent with in-app finish behavior
           playNotification();
@@ -184,7 +453,8 @@ export function useTimer(
         }
       }
     }
-    // If not running, we leave it paused as saved.
+    // If not running (idle or paused), we leave it as saved: a paused
+    // session keeps its frozen time and pausedAt until resumed.
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
@@ -196,65 +466,54 @@ export function useTimer(
         if (!prev.isRunning) return prev;
 
         const now = Date.now();
-        const timerMode = settings.timerMode ?? 'flow';
+        const timerMode = settings.timerMode;
 
         if (!prev.isBreak) {
           // Work mode
-          if (timerMode === 'flow' || timerMode === 'timer') {
+          if (timerMode === 'timer' && prev.countdownTarget) {
+            // Timer mode countdown: remaining time, then overtime counting up past zero
+            const elapsedSec = getWorkElapsedSeconds(prev, now);
+            const target = prev.countdownTarget;
+            const displaySec = elapsedSec < target ? target - elapsedSec : prev.countdownOvertime ? elapsedSec - target : 0;
+            // Followers show the clock and leave the alert (and finishing) to the leader
+            if (elapsedSec >= target && !prev.countdownAlerted && isLeaderRef.current) {
+              queueMicrotask(() => reachCountdownZero(prev, prev.startTime + (target * 1000) + (prev.pausedMs || 0)));
+              return { ...prev, time: displaySec, countdownAlerted: true };
+            }
+            return displaySec !== prev.time ? { ...prev, time: displaySec } : prev;
+          } else if (timerMode === 'flow' || timerMode === 'timer') {
             // Flow/Timer mode: count up elapsed time
-            const elapsedSec = Math.floor((now - prev.startTime) / 1000);
+            const elapsedSec = getWorkElapsedSeconds(prev, now);
             if (elapsedSec !== prev.time) {
               return { ...prev, time: elapsedSec };
             }
             return prev;
           } else {
             // Pomodoro mode: count down from work duration
-            const elapsedSec = Math.floor((now - prev.startTime) / 1000);
+            const elapsedSec = getWorkElapsedSeconds(prev, now);
             const remainingSec = Math.max(0, (prev.workDuration || 0) - elapsedSec);
+            // Followers show 0 and wait for the leader; a new leader finishes what it finds at 0
+            const completes = remainingSec === 0 && isLeaderRef.current;
             
-            if (remainingSec !== prev.time) {
+            if (remainingSec !== prev.time || completes) {
               // If work session finished
-              if (remainingSec === 0) {
+              if (completes) {
                 queueMicrotask(() => {
-                  // Auto-start break or finish session
+                  // Record the finished work step and move on to the next step of the cycle
                   const currentSession = prev.currentSession || 1;
-                  const totalSessions = prev.totalSessions || 1;
-                  const breakDuration = prev.breakDuration || 300; // 5 minutes default
-                  
-                  if (currentSession < totalSessions) {
-                    // Start break
-                    const targetTime = now + breakDuration * 1000;
-                    setTimerState(current => ({
-                      ...current,
-                      isBreak: true,
-                      time: breakDuration,
-                      startTime: now,
-                      targetTime,
-                    }));
-                  } else {
-                    // All sessions completed
-                    setTimerState(current => ({
-                      ...current,
-                      isRunning: false,
-                      isBreak: false,
-                      time: 0,
-                      targetTime: undefined,
-                      currentSession: undefined,
-                      totalSessions: undefined,
-                      workDuration: undefined,
-                      breakDuration: undefined,
-                    }));
-                    
-                    playNotification();
-                    if (settings.visualNotifications) {
-                      if ('Notification' in window && Notification.permission === 'granted') {
-                        new Notification('All Pomodoro sessions completed!', {
-                          body: 'Great work! Take a longer break.',
-                          icon: '/favicon.ico',
-                        });
-                      }
-                    }
-                  }
+                  // When the step actually ended; a throttled tab or a reload notices it later
+                  const endedAt = prev.startTime + (prev.workDuration || 0) * 1000 + (prev.pausedMs || 0);
+
+                  appendJournalEntry({ type: 'complete', at: endedAt, recordId: `${prev.sessionId}-${currentSession}` });
+                  recordWorkSession(
+                    'work',
+                    `${prev.sessionId}-${currentSession}`,
+                    prev.startTime,
+                    endedAt,
+                    prev.workDuration || 0,
+                    Math.floor((prev.pausedMs || 0) / 1000)
+                  );
+                  advancePomodoro(prev, endedAt, true);
                 });
               }
               return { ...prev, time: remainingSec };
@@ -265,50 +524,30 @@ export function useTimer(
           // Break mode: countdown to targetTime
           if (!prev.targetTime) return prev;
           const remainingSec = Math.max(0, Math.ceil((prev.targetTime - now) / 1000));
-          if (remainingSec !== prev.time) {
+          const ends = remainingSec === 0 && isLeaderRef.current;
+          if (remainingSec !== prev.time || ends) {
             // If break finished
-            if (remainingSec === 0) {
+            if (ends) {
               queueMicrotask(() => {
+                appendJournalEntry({ type: 'break-end', at: prev.targetTime || now });
+                recordRestSession('break', prev, prev.targetTime || now);
+
                 if (timerMode === 'pomodoro') {
-                  // Start next Pomodoro session
-                  const currentSession = (prev.currentSession || 1) + 1;
-                  const totalSessions = prev.totalSessions || 1;
-                  const workDuration = prev.workDuration || 1500; // 25 minutes default
-                  
-                  if (currentSession <= totalSessions) {
-                    setTimerState(current => ({
-                      ...current,
-                      isBreak: false,
-                      time: workDuration,
-                      startTime: now,
-                      targetTime: undefined,
-                      currentSession,
-                    }));
-                  } else {
-                    // All sessions completed
-                    setTimerState(current => ({
-                      ...current,
-                      isRunning: false,
-                      isBreak: false,
-                      time: 0,
-                      targetTime: undefined,
-                      currentSession: undefined,
-                      totalSessions: undefined,
-                      workDuration: undefined,
-                      breakDuration: undefined,
-                    }));
-                  }
-                } else {
-                  // Flow mode: just stop
-                  setTimerState(current => ({
-                    ...current,
-                    isRunning: false,
-                    isBreak: false,
-                    time: 0,
-                    targetTime: undefined,
-                  }));
+                  // Next step of the cycle; it announces itself
+                  advancePomodoro(prev, now, true);
+                  return;
                 }
 
+                // Flow mode: just stop
+                setTimerState(current => ({
+                  ...current,
+                  isRunning: false,
+                  isBreak: false,
+                  time: 0,
+                  targetTime: undefined,
+                  breakType: undefined,
+                }));
+
                 playNotification();
 
                 if (settings.visualNotifications) {
@@ -348,7 +587,7 @@ export function useTimer(
         tickRef.current = null;
       }
     };
-  }, [timerState.isRunning, timerState.isBreak, settings.visualNotifications, settings.timerMode]);
+  }, [timerState.isRunning, timerState.isBreak, settings.visualNotifications, settings.timerMode, isLeaderRef]);
 
   // Audio notification
   const playNotification = () => {
@@ -380,19 +619,279 @@ export function useTimer(
     }
   };
 
+  /**
+   * playStepSound()
+   * The sound of a Pomodoro step that started on its own; without one, the usual
+   * notification sound when `fallback` is set.
+   */
+  const playStepSound = (step: PomodoroStep, fallback: boolean) => {
+    const sound = step.sound ? soundManager.findSoundById(step.sound) : undefined;
+    if (sound) {
+      if (settings.audioNotifications) soundManager.playNotificationSound(sound.url, settings.soundVolume);
+    } else if (fallback) {
+      playNotification();
+    }
+  };
+
+  /**
+   * reachCountdownZero()
+   * A Timer mode countdown reached zero at `zeroAt`: alert, then keep counting overtime,
+   * or record the session at its target and stop.
+   */
+  const reachCountdownZero = (state: TimerState, zeroAt: number) => {
+    playNotification();
+    if (settings.visualNotifications) {
+      if ('Notification' in window && Notification.permission === 'granted') {
+        new Notification('Time is up!', {
+          body: state.countdownOvertime ? 'Overtime is being counted.' : 'Session completed.',
+          icon: '/favicon.ico',
+        });
+      }
+    }
+    if (state.countdownOvertime) return;
+
+    appendJournalEntry({ type: 'complete', at: zeroAt, recordId: state.sessionId });
+    recordWorkSession('work', state.sessionId, state.startTime, zeroAt, state.countdownTarget || 0, Math.floor((state.pausedMs || 0) / 1000));
+    setTimerState(current => ({
+      ...current,
+      isRunning: false,
+      isBreak: false,
+      time: 0,
+      targetTime: undefined,
+      countdownTarget: undefined,
+      countdownOvertime: undefined,
+      countdownAlerted: undefined,
+      isPaused: false,
+      pausedAt: undefined,
+      pausedMs: 0,
+    }));
+  };
+
+  /**
+   * advancePomodoro()
+   * Leave the current step of a Pomodoro cycle (already recorded by the caller) for the
+   * next one, journaling its start, or end the cycle after the last step.
+   * `announce` is false when the user skipped ahead, so nothing is played or shown.
+   */
+  const advancePomodoro = (state: TimerState, now: number, announce: boolean) => {
+    const steps = state.steps || [];
+    const nextIndex = (state.stepIndex || 0) + 1;
+    const next = steps[nextIndex];
+
+    const notify = (title: string, body: string) => {
+      if (!settings.visualNotifications) return;
+      if ('Notification' in window && Notification.permission === 'granted') {
+        new Notification(title, { body, icon: '/favicon.ico' });
+      }
+    };
+
+    if (!next) {
+      setTimerState(current => ({
+        ...current,
+        isRunning: false,
+        isBreak: false,
+        time: 0,
+        targetTime: undefined,
+        currentSession: undefined,
+        totalSessions: undefined,
+        workDuration: undefined,
+        steps: undefined,
+        stepIndex: undefined,
+        breakType: undefined,
+      }));
+      if (!announce) return;
+      playNotification();
+      if (state.isBreak) {
+        notify('Break time is over!', 'Ready to get back to work?');
+      } else {
+        notify('All Pomodoro sessions completed!', 'Great work!');
+      }
+      return;
+    }
+
+    const duration = next.minutes * 60;
+    if (next.kind === 'work') {
+      const currentSession = countWorkSteps(steps, nextIndex);
+      journalWorkStart(now, state.sessionId, `${state.sessionId}-${currentSession}`, 'pomodoro', latestRef.current.activeTask, duration);
+      setTimerState(current => ({
+        ...current,
+        isBreak: false,
+        time: duration,
+        startTime: now,
+        targetTime: undefined,
+        currentSession,
+        workDuration: duration,
+        stepIndex: nextIndex,
+        breakType: undefined,
+        pausedMs: 0,
+      }));
+    } else {
+      appendJournalEntry({ type: 'break-start', at: now });
+      setTimerState(current => ({
+        ...current,
+        isBreak: true,
+        time: duration,
+        startTime: now,
+        targetTime: now + duration * 1000,
+        stepIndex: nextIndex,
+        breakType: next.kind === 'long-break' ? 'long' : 'short',
+        breakStartedAt: now,
+        pausedMs: 0,
+      }));
+    }
+
+    if (!announce) return;
+    const currentSession = state.currentSession || 1;
+    if (state.isBreak && next.kind === 'work') {
+      playStepSound(next, true);
+      notify('Break time is over!', next.label ? `Next: ${next.label}` : 'Ready to get back to work?');
+    } else if (!state.isBreak && next.kind !== 'work') {
+      // Short breaks start quietly unless they have a sound of their own
+      const isLastWork = currentSession >= countWorkSteps(steps);
+      playStepSound(next, isLastWork || next.kind === 'long-break');
+      if (isLastWork) {
+        notify('All Pomodoro sessions completed!', `Great work! Enjoy your ${getStepName(next).toLowerCase()}.`);
+      } else if (next.kind === 'long-break') {
+        notify('Time for a long break!', `You completed ${currentSession} sessions.`);
+      }
+    } else {
+      // Two work steps or two breaks in a row
+      playStepSound(next, true);
+      notify(`Next: ${getStepName(next)}`, `Step ${nextIndex + 1} of ${steps.length}`);
+    }
+  };
+
+  /**
+   * recordWorkSession()
+   * Append a work or interrupted session for the active task (or a generated
+   * "Focus #N" when none is selected) and add the worked seconds to the task's timeSpent.
+   * The session inherits the task's project and tags, and records the subtasks ticked off between start and end.
+   * Sessions that cross midnight are stored as one part per day.
+   * `overtimeSeconds` is the part of workedSeconds past a countdown target.
+   * `activeTask` defaults to the current selection; recovery passes the journaled task.
+   */
+  const recordWorkSession = (
+    kind: Extract<SessionKind, 'work' | 'interrupted'>,
+    id: string,
+    startedAt: number,
+    endedAt: number,
+    workedSeconds: number,
+    pausedSeconds: number,
+    overtimeSeconds = 0,
+    activeTask: Task | null = latestRef.current.activeTask
+  ) => {
+    const { tasks, sessions } = latestRef.current;
+
+    // Generate Focus session name if no task selected
+    let sessionTaskId = '';
+    let sessionTaskName = '';
+    
+    if (activeTask) {
+      sessionTaskId = activeTask.id;
+      sessionTaskName = activeTask.name;
+    } else {
+      // Generate Focus #N for sessions without task
+      const today = new Date(endedAt).toDateString();
+      const todayFocusSessions = sessions.filter(s => 
+        s.date === today && s.taskName.startsWith('Focus #')
+      );
+      const focusNumber = todayFocusSessions.length + 1;
+      sessionTaskId = `focus-${startedAt}`;
+      sessionTaskName = `Focus #${focusNumber}`;
+    }
+
+    // Subtasks ticked off while the session ran (the stored task; a recovered activeTask may be stale)
+    const subtasks = (activeTask && (tasks.find(task => task.id === activeTask.id) ?? activeTask).subtasks) || [];
+    const completedSubtasks = subtasks
+      .filter(subtask => {
+        const completedAt = subtask.completedAt ? Date.parse(subtask.completedAt) : NaN;
+        return subtask.done && completedAt >= startedAt && completedAt <= endedAt;
+      })
+      .map(subtask => ({ title: subtask.title, completedAt: subtask.completedAt as string }))
+      .sort((a, b) => a.completedAt.localeCompare(b.completedAt));
+
+    const session: Session = {
+      id,
+      kind,
+      taskId: sessionTaskId,
+      taskName: sessionTaskName,
+      startTime: new Date(startedAt).toISOString(),
+      endTime: new Date(endedAt).toISOString(),
+      duration: workedSeconds,
+      date: new Date(endedAt).toDateString(),
+      ...(pausedSeconds > 0 ? { pausedDuration: pausedSeconds } : {}),
+      ...(activeTask?.projectId ? { projectId: activeTask.projectId } : {}),
+      ...(activeTask?.tags && activeTask.tags.length > 0 ? { tags: activeTask.tags } : {}),
+      ...(overtimeSeconds > 0 ? { overtime: overtimeSeconds } : {}),
+      ...(completedSubtasks.length > 0 ? { completedSubtasks } : {}),
+    };
+
+    setSessions(prev => appendUniqueSessions(prev, splitSessionAtMidnight(session)));
+
+    // Update task time only if there's an active task
+    if (activeTask) {
+      const updatedTasks = tasks.map(task =>
+        task.id === activeTask.id
+          ? { ...task, timeSpent: task.timeSpent + workedSeconds }
+          : task
+      );
+      safeSetItem('flow-tasks', JSON.stringify(updatedTasks));
+    }
+  };
+
+  /**
+   * recordRestSession()
+   * Append a break that ran to completion or was skipped, measured from breakStartedAt.
+   * Ids are derived from the break start so a repeated call cannot record it twice.
+   */
+  const recordRestSession = (
+    kind: Extract<SessionKind, 'break' | 'skipped-break'>,
+    state: TimerState,
+    endedAt: number
+  ) => {
+    const startedAt = state.breakStartedAt ?? state.startTime;
+    if (!startedAt) return;
+    const step = state.steps?.[state.stepIndex ?? -1];
+
+    const session: Session = {
+      id: `${state.sessionId || startedAt}-${kind}-${startedAt}`,
+      kind,
+      taskId: '',
+      taskName: step?.label || (state.breakType === 'long' ? 'Long break' : 'Break'),
+      startTime: new Date(startedAt).toISOString(),
+      endTime: new Date(endedAt).toISOString(),
+      duration: Math.max(0, Math.floor((endedAt - startedAt) / 1000)),
+      date: new Date(endedAt).toDateString(),
+    };
+
+    setSessions(prev => appendUniqueSessions(prev, splitSessionAtMidnight(session)));
+  };
+
   const startTimer = () => {
     // Check if we can start based on settings
-    const showTasks = settings.showTasks ?? true;
-    const requireTaskSelection = settings.requireTaskSelection ?? true;
+    const showTasks = settings.showTasks;
+    const requireTaskSelection = settings.requireTaskSelection;
     
     // Only require activeTask if tasks are shown AND task selection is required
     if (showTasks && requireTaskSelection && !activeTask) {
       return;
     }
 
+    // A paused session must be resumed or stopped, not silently replaced
+    if (timerState.isPaused) return;
+
     const sessionId = Date.now().toString();
     const now = Date.now();
-    const timerMode = settings.timerMode ?? 'flow';
+    const timerMode = settings.timerMode;
+
+    // Pomodoro: the cycle is fixed at start; a sequence always begins with work
+    const steps = getPomodoroSteps(settings);
+
+    if (timerMode === 'pomodoro') {
+      journalWorkStart(now, sessionId, `${sessionId}-1`, timerMode, activeTask, steps[0].minutes * 60);
+    } else {
+      journalWorkStart(now, sessionId, sessionId, timerMode, activeTask);
+    }
 
     if (timerMode === 'flow') {
       // Flow mode: start counting up from 0
@@ -407,28 +906,40 @@ export function useTimer(
         currentSession: undefined,
         totalSessions: undefined,
         workDuration: undefined,
-        breakDuration: undefined,
+        steps: undefined,
+        stepIndex: undefined,
+        breakType: undefined,
+        isPaused: false,
+        pausedAt: undefined,
+        pausedMs: 0,
       }));
     } else if (timerMode === 'timer') {
-      // Timer mode: start counting up from 0 (like Flow but no breaks)
+      // Timer mode: count up from 0 (like Flow but no breaks), or down from the countdown target
+      const countdownTarget = settings.timerCountdownEnabled ? getCountdownTarget(settings, activeTask, sessions, now) : undefined;
       setTimerState(prev => ({
         ...prev,
         isRunning: true,
         isBreak: false,
         startTime: now,
         sessionId,
-        time: 0,
+        time: countdownTarget ?? 0,
+        countdownTarget,
+        countdownOvertime: countdownTarget ? settings.timerOvertimeEnabled : undefined,
+        countdownAlerted: undefined,
         targetTime: undefined,
         currentSession: undefined,
         totalSessions: undefined,
         workDuration: undefined,
-        breakDuration: undefined,
+        steps: undefined,
+        stepIndex: undefined,
+        breakType: undefined,
+        isPaused: false,
+        pausedAt: undefined,
+        pausedMs: 0,
       }));
     } else {
-      // Pomodoro mode: start countdown from work duration
-      const workDuration = (settings.pomodoroWorkDuration ?? 25) * 60; // Convert to seconds
-      const breakDuration = (settings.pomodoroBreakDuration ?? 5) * 60; // Convert to seconds
-      const totalSessions = settings.pomodoroSessions ?? 4;
+      // Pomodoro mode: start countdown from the first step
+      const workDuration = steps[0].minutes * 60; // Convert to seconds
       
       setTimerState(prev => ({
         ...prev,
@@ -439,75 +950,100 @@ export function useTimer(
         time: workDuration,
         targetTime: undefined,
         currentSession: 1,
-        totalSessions,
+        totalSessions: countWorkSteps(steps),
         workDuration,
-        breakDuration,
+        steps,
+        stepIndex: 0,
+        breakType: undefined,
+        isPaused: false,
+        pausedAt: undefined,
+        pausedMs: 0,
       }));
     }
   };
 
-  const stopTimer = () => {
+  /**
+   * pauseTimer()
+   * Freeze the current work session. Breaks cannot be paused.
+   */
+  const pauseTimer = () => {
     if (!timerState.isRunning || timerState.isBreak) return;
 
-    const timerMode = settings.timerMode ?? 'flow';
+    const now = Date.now();
+    appendJournalEntry({ type: 'pause', at: now });
+    setTimerState(prev => ({
+      ...prev,
+      isRunning: false,
+      isPaused: true,
+      pausedAt: now,
+    }));
+  };
+
+  /**
+   * resumeTimer()
+   * Continue a paused work session, adding the pause length to pausedMs.
+   */
+  const resumeTimer = () => {
+    if (!timerState.isPaused) return;
+
+    const now = Date.now();
+    appendJournalEntry({ type: 'resume', at: now });
+    setTimerState(prev => ({
+      ...prev,
+      isRunning: true,
+      isPaused: false,
+      pausedAt: undefined,
+      pausedMs: (prev.pausedMs || 0) + (prev.pausedAt ? Math.max(0, now - prev.pausedAt) : 0),
+    }));
+  };
+
+  const stopTimer = () => {
+    if ((!timerState.isRunning && !timerState.isPaused) || timerState.isBreak) return;
+
+    const timerMode = settings.timerMode;
     const now = Date.now();
     
-    // Compute actual worked seconds based on wall clock
+    // Compute actual worked seconds based on wall clock, excluding paused time
     let workedSeconds: number;
     
-    if (timerMode === 'flow') {
-      // Flow mode: elapsed time
-      workedSeconds = Math.max(0, Math.floor((now - timerState.startTime) / 1000));
+    if (timerMode !== 'pomodoro') {
+      // Flow/Timer mode: elapsed time
+      workedSeconds = getWorkElapsedSeconds(timerState, now);
     } else {
       // Pomodoro mode: work duration minus remaining time
-      const elapsedSec = Math.floor((now - timerState.startTime) / 1000);
+      const elapsedSec = getWorkElapsedSeconds(timerState, now);
       workedSeconds = Math.min(elapsedSec, timerState.workDuration || 0);
     }
 
-    // Generate Focus session name if no task selected
-    let sessionTaskId = '';
-    let sessionTaskName = '';
-    
-    if (activeTask) {
-      sessionTaskId = activeTask.id;
-      sessionTaskName = activeTask.name;
+    // Total paused time, including a pause still open at stop
+    const pausedMs = (timerState.pausedMs || 0) +
+      (timerState.isPaused && timerState.pausedAt ? Math.max(0, now - timerState.pausedAt) : 0);
+    const pausedSeconds = Math.floor(pausedMs / 1000);
+
+    // Save session; stopping a Pomodoro before it completes is recorded as interrupted
+    const sessionId = timerState.sessionId || Date.now().toString();
+    appendJournalEntry({ type: 'stop', at: now });
+    if (timerMode === 'pomodoro') {
+      recordWorkSession('interrupted', `${sessionId}-${timerState.currentSession || 1}`, timerState.startTime, now, workedSeconds, pausedSeconds);
     } else {
-      // Generate Focus #N for sessions without task
-      const today = new Date().toDateString();
-      const todayFocusSessions = sessions.filter(s => 
-        s.date === today && s.taskName.startsWith('Focus #')
-      );
-      const focusNumber = todayFocusSessions.length + 1;
-      sessionTaskId = `focus-${Date.now()}`;
-      sessionTaskName = `Focus #${focusNumber}`;
+      const overtimeSeconds = timerState.countdownTarget ? Math.max(0, workedSeconds - timerState.countdownTarget) : 0;
+      recordWorkSession('work', sessionId, timerState.startTime, now, workedSeconds, pausedSeconds, overtimeSeconds);
     }
 
-    // Save session
-    const session: Session = {
-      id: timerState.sessionId || Date.now().toString(),
-      taskId: sessionTaskId,
-      taskName: sessionTaskName,
-      startTime: new Date(timerState.startTime).toISOString(),
-      endTime: new Date().toISOString(),
-      duration: workedSeconds,
-      date: new Date().toDateString(),
-    };
-
-    setSessions(prev => [...prev, session]);
-
-    // Update task time only if there's an active task
-    if (activeTask) {
-      const updatedTasks = tasks.map(task =>
-        task.id === activeTask.id
-          ? { ...task, timeSpent: task.timeSpent + workedSeconds }
-          : task
-      );
-      localStorage.setItem('flow-tasks', JSON.stringify(updatedTasks));
-    }
+    // The session is closed; clear pause and countdown bookkeeping before any break/idle transition
+    setTimerState(prev => ({
+      ...prev,
+      isPaused: false,
+      pausedAt: undefined,
+      pausedMs: 0,
+      countdownTarget: undefined,
+      countdownOvertime: undefined,
+      countdownAlerted: undefined,
+    }));
 
     if (timerMode === 'flow') {
       // Flow mode: handle break based on settings
-      const flowBreakEnabled = settings.flowBreakEnabled ?? true;
+      const flowBreakEnabled = settings.flowBreakEnabled;
       
       if (!flowBreakEnabled) {
         // No break - just stop and reset
@@ -531,20 +1067,12 @@ export function useTimer(
         return;
       }
 
-      // Calculate break duration
-      let breakSeconds: number;
-      const flowBreakType = settings.flowBreakType ?? 'percentage';
-      
-      if (flowBreakType === 'percentage') {
-        const percentage = settings.flowBreakPercentage ?? 20;
-        breakSeconds = Math.floor(workedSeconds * percentage / 100);
-      } else {
-        const fixedMinutes = settings.flowBreakFixed ?? 10;
-        breakSeconds = fixedMinutes * 60;
-      }
+      // Same policy as estimatedBreakTime, so the break granted is the one shown while working
+      const breakSeconds = computeFlowBreak(workedSeconds, settings, timerState.bankedBreakSeconds).totalSeconds;
 
       // Start break countdown
       const targetTime = now + breakSeconds * 1000;
+      if (breakSeconds > 0) appendJournalEntry({ type: 'break-start', at: now });
 
       setTimerState(prev => ({
         ...prev,
@@ -553,6 +1081,10 @@ export function useTimer(
         time: breakSeconds,
         startTime: now,
         targetTime: breakSeconds > 0 ? targetTime : undefined,
+        breakType: breakSeconds > 0 ? 'short' : undefined,
+        breakStartedAt: breakSeconds > 0 ? now : undefined,
+        // The bank is spent on this break; skipping it banks what is left again
+        bankedBreakSeconds: undefined,
       }));
 
       if (breakSeconds === 0) {
@@ -596,7 +1128,9 @@ export function useTimer(
         currentSession: undefined,
         totalSessions: undefined,
         workDuration: undefined,
-        breakDuration: undefined,
+        steps: undefined,
+        stepIndex: undefined,
+        breakType: undefined,
       }));
       
       playNotification();
@@ -612,6 +1146,7 @@ export function useTimer(
   };
 
   const resetTimer = () => {
+    appendJournalEntry({ type: 'reset', at: Date.now() });
     setTimerState({
       time: 0,
       isRunning: false,
@@ -622,95 +1157,118 @@ export function useTimer(
       currentSession: undefined,
       totalSessions: undefined,
       workDuration: undefined,
-      breakDuration: undefined,
+      steps: undefined,
+      stepIndex: undefined,
+      breakType: undefined,
+      isPaused: false,
+      pausedAt: undefined,
+      pausedMs: 0,
+      // Banked break time belongs to the user, not to the session being reset
+      bankedBreakSeconds: timerState.bankedBreakSeconds,
     });
   };
 
   const skipBreak = () => {
     if (!timerState.isBreak || !timerState.isRunning) return;
     
-    const timerMode = settings.timerMode ?? 'flow';
+    const timerMode = settings.timerMode;
     const now = Date.now();
+
+    appendJournalEntry({ type: 'skip', at: now });
+    recordRestSession('skipped-break', timerState, now);
     
     if (timerMode === 'pomodoro') {
-      // Start next Pomodoro session
-      const currentSession = (timerState.currentSession || 1) + 1;
-      const totalSessions = timerState.totalSessions || 1;
-      const workDuration = timerState.workDuration || 1500; // 25 minutes default
-      
-      if (currentSession <= totalSessions) {
-        setTimerState(prev => ({
-          ...prev,
-          isBreak: false,
-          time: workDuration,
-          startTime: now,
-          targetTime: undefined,
-          currentSession,
-        }));
-      } else {
-        // All sessions completed
-        setTimerState(prev => ({
-          ...prev,
-          isRunning: false,
-          isBreak: false,
-          time: 0,
-          targetTime: undefined,
-          currentSession: undefined,
-          totalSessions: undefined,
-          workDuration: undefined,
-          breakDuration: undefined,
-        }));
-      }
+      // Straight on to the next step of the cycle
+      advancePomodoro(timerState, now, false);
     } else {
-      // Flow mode: just stop
+      // Flow mode: just stop, banking the rest of the break when enabled
+      const remainingSeconds = timerState.targetTime ? Math.ceil((timerState.targetTime - now) / 1000) : 0;
+      const bankedBreakSeconds = bankSkippedBreak(remainingSeconds, settings);
       setTimerState(prev => ({
         ...prev,
         isRunning: false,
         isBreak: false,
         time: 0,
         targetTime: undefined,
+        breakType: undefined,
+        bankedBreakSeconds: bankedBreakSeconds > 0 ? bankedBreakSeconds : undefined,
       }));
     }
   };
 
+  /**
+   * resolveRecovery()
+   * Answer the startup recovery prompt:
+   * - 'keep': record the work up to now (or up to the journaled stop)
+   * - 'trim': record it up to endAt (defaults to when the app was last seen)
+   * - 'discard': drop it
+   */
+  const resolveRecovery = (action: 'keep' | 'trim' | 'discard', endAt?: number) => {
+    if (!recovery) return;
+
+    if (action !== 'discard') {
+      const latestEnd = recovery.stopped ? recovery.lastSeenAt : Date.now();
+      const end = action === 'keep'
+        ? latestEnd
+        : Math.min(latestEnd, Math.max(recovery.startedAt, endAt ?? recovery.lastSeenAt));
+      const { workedSeconds, pausedSeconds, kind } = getRecoveredWork(recovery, end);
+      const task = tasks.find(t => t.id === recovery.taskId) ?? (recovery.taskId
+        ? { id: recovery.taskId, name: recovery.taskName, timeSpent: 0, createdAt: new Date(recovery.startedAt).toISOString() }
+        : null);
+      recordWorkSession(kind, recovery.recordId, recovery.startedAt, end, workedSeconds, pausedSeconds, 0, task);
+    }
+
+    appendJournalEntry({ type: 'resolve', at: Date.now(), recordId: recovery.recordId });
+    setRecovery(null);
+  };
+
   const estimatedBreakTime = (() => {
     if (!timerState.isRunning || timerState.isBreak) return 0;
     
-    const timerMode = settings.timerMode ?? 'flow';
+    const timerMode = settings.timerMode;
     
     if (timerMode === 'flow') {
-      const flowBreakEnabled = settings.flowBreakEnabled ?? true;
-      if (!flowBreakEnabled) return 0;
-      
-      const elapsedSec = Math.max(0, Math.floor((Date.now() - timerState.startTime) / 1000));
-      const flowBreakType = settings.flowBreakType ?? 'percentage';
-      
-      if (flowBreakType === 'percentage') {
-        const percentage = settings.flowBreakPercentage ?? 20;
-        return Math.floor(elapsedSec * percentage / 100);
-      } else {
-        const fixedMinutes = settings.flowBreakFixed ?? 10;
-        return fixedMinutes * 60;
-      }
+      // Exactly what stopTimer would grant right now
+      return computeFlowBreak(getWorkElapsedSeconds(timerState), settings, timerState.bankedBreakSeconds).totalSeconds;
     } else if (timerMode === 'timer') {
       // Timer mode: no breaks
       return 0;
     } else {
-      // Pomodoro mode: show break duration
-      return (settings.pomodoroBreakDuration ?? 5) * 60;
+      // Pomodoro mode: show the break step that follows the current one, if any
+      const next = timerState.steps?.[(timerState.stepIndex || 0) + 1];
+      return next && next.kind !== 'work' ? next.minutes * 60 : 0;
     }
   })();
 
+  const inWork = (timerState.isRunning || !!timerState.isPaused) && !timerState.isBreak;
+  const countdownTarget = inWork
+    ? timerState.countdownTarget
+    : settings.timerMode === 'timer' && settings.timerCountdownEnabled
+      ? getCountdownTarget(settings, activeTask, sessions)
+      : undefined;
+  const isOvertime = inWork && !!timerState.countdownTarget && !!timerState.countdownOvertime &&
+    getWorkElapsedSeconds(timerState) >= timerState.countdownTarget;
+
   return {
     time: timerState.time,
     isRunning: timerState.isRunning,
     isBreak: timerState.isBreak,
+    isPaused: !!timerState.isPaused,
+    breakType: timerState.isBreak ? timerState.breakType ?? 'short' : undefined,
     startTimer,
     stopTimer,
+    pauseTimer,
+    resumeTimer,
     resetTimer,
     skipBreak,
     estimatedBreakTime,
+    countdownTarget,
+    isOvertime,
     currentSession: timerState.currentSession || 1,
     totalSessions: timerState.totalSessions || 1,
+    pomodoroSteps: timerState.steps || getPomodoroSteps(settings),
+    pomodoroStepIndex: timerState.stepIndex || 0,
+    recovery,
+    resolveRecovery,
   };
 }
\ No newline at end of file
@@ -0,0 +1,63 @@
+/**
+ * Flow break policy
+ * How long a break a Flow work session earns. useTimer uses computeFlowBreak() both for
+ * the live "Estimated break" and when the session stops, so the estimate is exactly the
+ * break that is granted.
+ *
+ * 1. The rule for settings.flowBreakType turns the worked seconds into a break
+ *    (FLOW_BREAK_RULES; add a rule there to add a break type)
+ * 2. flowBreakMinMinutes / flowBreakMaxMinutes clamp it (0 = no limit)
+ * 3. With flowBreakBankUnused, break time left over from skipped breaks is added on top
+ */
+
+import type { Settings } from '../App';
+
+/** Unused break time is banked up to this much */
+export const MAX_BANKED_BREAK_SECONDS = 60 * 60;
+
+export type FlowBreakRule = (workedSeconds: number, settings: Settings) => number;
+
+/** Tiers are checked shortest first; sessions longer than every tier get flowBreakTierFallback */
+const tieredBreak: FlowBreakRule = (workedSeconds, settings) => {
+  const tier = [...settings.flowBreakTiers]
+    .sort((a, b) => a.underMinutes - b.underMinutes)
+    .find(t => workedSeconds < t.underMinutes * 60);
+  return (tier ? tier.breakMinutes : settings.flowBreakTierFallback) * 60;
+};
+
+export const FLOW_BREAK_RULES: Record<Settings['flowBreakType'], FlowBreakRule> = {
+  percentage: (workedSeconds, settings) => Math.floor(workedSeconds * settings.flowBreakPercentage / 100),
+  fixed: (_workedSeconds, settings) => settings.flowBreakFixed * 60,
+  tiered: tieredBreak
+};
+
+export interface FlowBreak {
+  /** Break earned by this session, after the caps */
+  earnedSeconds: number;
+  /** Banked break added on top */
+  bankedSeconds: number;
+  /** earnedSeconds + bankedSeconds */
+  totalSeconds: number;
+}
+
+/**
+ * Break granted for a Flow session of `workedSeconds`, given the current bank
+ */
+export const computeFlowBreak = (workedSeconds: number, settings: Settings, bankSeconds = 0): FlowBreak => {
+  if (!settings.flowBreakEnabled) return { earnedSeconds: 0, bankedSeconds: 0, totalSeconds: 0 };
+
+  let earnedSeconds = Math.max(0, FLOW_BREAK_RULES[settings.flowBreakType](workedSeconds, settings));
+  if (settings.flowBreakMinMinutes > 0) earnedSeconds = Math.max(earnedSeconds, settings.flowBreakMinMinutes * 60);
+  if (settings.flowBreakMaxMinutes > 0) earnedSeconds = Math.min(earnedSeconds, settings.flowBreakMaxMinutes * 60);
+
+  const bankedSeconds = settings.flowBreakBankUnused
+    ? Math.min(Math.max(0, Math.floor(bankSeconds)), MAX_BANKED_BREAK_SECONDS)
+    : 0;
+  return { earnedSeconds, bankedSeconds, totalSeconds: earnedSeconds + bankedSeconds };
+};
+
+/**
+ * Bank after a Flow break was skipped with `remainingSeconds` left
+ */
+export const bankSkippedBreak = (remainingSeconds: number, settings: Settings): number =>
+  settings.flowBreakBankUnused ? Math.min(Math.max(0, Math.floor(remainingSeconds)), MAX_BANKED_BREAK_SECONDS) : 0;
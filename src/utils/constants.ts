@@ -6,13 +6,18 @@
 // LocalStorage keys
 export const STORAGE_KEYS = {
   TASKS: 'flow-tasks',
+  PROJECTS: 'flow-projects',
   ACTIVE_TASK: 'flow-active-task',
   SESSIONS: 'flow-sessions',
   SETTINGS: 'flow-settings',
   TIMER_STATE: 'flow-timer-state',
+  TIMER_JOURNAL: 'flow-timer-journal',
   TASK_HISTORY: 'flow-task-history',
   LAST_RESET: 'flow-last-reset',
+  LAYOUT: 'flow-layout',
   COLOR_SYSTEM: 'colorSystem',
+  MUSIC_STREAMS: 'flow-music-streams',
+  MUSIC_STATE: 'flow-music-state',
 } as const;
 
 // Time constants
@@ -37,4 +42,12 @@ export const FILE_TYPES = {
     extension: '.csv',
     mimeType: 'text/csv;charset=utf-8;',
   },
+  JSON: {
+    extension: '.json',
+    mimeType: 'application/json;charset=utf-8;',
+  },
+  ICS: {
+    extension: '.ics',
+    mimeType: 'text/calendar;charset=utf-8;',
+  },
 } as const;
\ No newline at end of file
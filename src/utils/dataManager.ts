@@ -1,6 +1,8 @@
-import type { Task, Session } from '../App';
+import type { Task, Session, SessionKind, CompletedSubtask } from '../App';
 import { formatTime, formatDateTime } from './timeUtils';
 import { STORAGE_KEYS, FILE_TYPES, TIME_CONSTANTS } from './constants';
+import { isWorkSession, toDayKey } from './sessionUtils';
+import { loadAllSessions, replaceAllSessions, writeSessionChanges } from './sessionStore';
 
 /**
  * Data Manager Utilities
@@ -31,6 +33,34 @@ export interface DateRange {
 
 
 
+/**
+ * Triggers a browser download of text content
+ */
+const downloadFile = (content: string, fileName: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: mimeType });
+  
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Quotes a CSV field when it contains a comma, quote or line break (RFC 4180)
+ */
+const toCSVField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Column layout of the detailed (lossless) export */
+const DETAILED_CSV_COLUMNS = [
+  'Id', 'Kind', 'Date', 'Task Id', 'Task', 'Duration (sec)',
+  'Start Time', 'End Time', 'Paused (sec)', 'Project Id', 'Tags', 'Overtime (sec)', 'Completed Subtasks'
+];
+
 /**
  * Filters sessions by date range
  */
@@ -42,9 +72,10 @@ export const filterSessionsByDateRange = (sessions: Session[], dateRange: DateRa
 };
 
 /**
- * Creates summary from sessions
+ * Creates summary from sessions (work time only; recorded breaks are ignored)
  */
-export const createSummary = (sessions: Session[]) => {
+export const createSummary = (allSessions: Session[]) => {
+  const sessions = allSessions.filter(isWorkSession);
   const totalTime = sessions.reduce((sum, session) => sum + session.duration, 0);
   const uniqueTasks = new Set(sessions.map(session => session.taskId)).size;
   const averageSessionTime = sessions.length > 0 ? totalTime / sessions.length : 0;
@@ -61,9 +92,10 @@ export const createSummary = (sessions: Session[]) => {
 
 /**
  * Export to CSV format (Excel-compatible)
+ * Only work sessions are written; the Date/Task/Duration layout has no place for breaks.
  */
 export const exportToCSV = (sessions: Session[], _tasks: Task[], dateRange: DateRange): void => {
-  const filteredSessions = filterSessionsByDateRange(sessions, dateRange);
+  const filteredSessions = filterSessionsByDateRange(sessions, dateRange).filter(isWorkSession);
   const summary = createSummary(filteredSessions);
 
   // Create CSV content
@@ -86,106 +118,420 @@ export const exportToCSV = (sessions: Session[], _tasks: Task[], dateRange: Date
     // Session data
     ...filteredSessions.map(session => [
       new Date(session.date).toLocaleDateString('en-US'),
-      `"${session.taskName}"`,
+      toCSVField(session.taskName),
       session.duration,
       formatTime(session.duration)
     ].join(','))
   ].join('\n');
 
-  const blob = new Blob([csvContent], { type: FILE_TYPES.CSV.mimeType });
-  
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = `flow-export-${dateRange.start.toISOString().split('T')[0]}-${dateRange.end.toISOString().split('T')[0]}.csv`;
-  link.click();
-  URL.revokeObjectURL(url);
+  downloadFile(
+    csvContent,
+    `flow-export-${dateRange.start.toISOString().split('T')[0]}-${dateRange.end.toISOString().split('T')[0]}.csv`,
+    FILE_TYPES.CSV.mimeType
+  );
+};
+
+/**
+ * Export every session field to CSV (lossless)
+ * One row per session, breaks included, with ids and ISO timestamps, so that
+ * importFromCSV restores the exact same sessions.
+ */
+export const exportToDetailedCSV = (sessions: Session[], dateRange: DateRange): void => {
+  const filteredSessions = filterSessionsByDateRange(sessions, dateRange);
+
+  const csvContent = [
+    DETAILED_CSV_COLUMNS.join(','),
+    ...filteredSessions.map(session => [
+      session.id,
+      session.kind ?? '',
+      toDayKey(new Date(session.date)),
+      session.taskId,
+      session.taskName,
+      session.duration,
+      session.startTime ?? '',
+      session.endTime ?? '',
+      session.pausedDuration ?? '',
+      session.projectId ?? '',
+      (session.tags ?? []).join(';'),
+      session.overtime ?? '',
+      session.completedSubtasks?.length ? JSON.stringify(session.completedSubtasks) : ''
+    ].map(toCSVField).join(','))
+  ].join('\r\n');
+
+  downloadFile(
+    csvContent,
+    `flow-sessions-${dateRange.start.toISOString().split('T')[0]}-${dateRange.end.toISOString().split('T')[0]}.csv`,
+    FILE_TYPES.CSV.mimeType
+  );
+};
+
+/**
+ * iCalendar (RFC 5545)
+ * One VEVENT per work session so focus time can be overlaid on a calendar.
+ * Sessions without a start time (e.g. rows imported from a summary CSV) cannot be placed and are skipped.
+ */
+
+const formatICSDate = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/** Escape TEXT values: backslash, semicolon, comma and line breaks */
+const escapeICSText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/** Fold content lines longer than 75 octets, never splitting a multi-byte character */
+const foldICSLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+export const createICS = (sessions: Session[], dateRange: DateRange): { content: string; exported: number; skipped: number } => {
+  const workSessions = filterSessionsByDateRange(sessions, dateRange).filter(isWorkSession);
+  const timedSessions = workSessions.filter(session => session.startTime && !isNaN(new Date(session.startTime).getTime()));
+  const stamp = formatICSDate(new Date());
+
+  const events = timedSessions.flatMap(session => {
+    const start = new Date(session.startTime!);
+    const end = session.endTime ? new Date(session.endTime) : new Date(start.getTime() + session.duration * 1000);
+    const description = [
+      `Focused: ${formatTime(session.duration)}`,
+      ...(session.pausedDuration ? [`Paused: ${formatTime(session.pausedDuration)}`] : []),
+      ...(session.overtime ? [`Overtime: ${formatTime(session.overtime)}`] : []),
+      ...(session.completedSubtasks?.length ? [`Done: ${session.completedSubtasks.map(subtask => subtask.title).join(', ')}`] : []),
+      ...(session.kind === 'interrupted' ? ['Interrupted Pomodoro'] : [])
+    ].join('\n');
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${session.id}@flow-timer`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatICSDate(start)}`,
+      `DTEND:${formatICSDate(end)}`,
+      `SUMMARY:${escapeICSText(session.taskName)}`,
+      `DESCRIPTION:${escapeICSText(description)}`,
+      ...(session.tags && session.tags.length > 0 ? [`CATEGORIES:${session.tags.map(escapeICSText).join(',')}`] : []),
+      'TRANSP:OPAQUE',
+      'END:VEVENT'
+    ];
+  });
+
+  const content = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//FLOW//Flow Timer//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:FLOW Focus',
+    ...events,
+    'END:VCALENDAR'
+  ].map(foldICSLine).join('\r\n') + '\r\n';
+
+  return { content, exported: timedSessions.length, skipped: workSessions.length - timedSessions.length };
+};
+
+/**
+ * Export to iCalendar (.ics)
+ * Returns how many sessions were written and how many had no start time.
+ * Nothing is downloaded when no session in the range can be placed on a calendar.
+ */
+export const exportToICS = (sessions: Session[], dateRange: DateRange): { exported: number; skipped: number } => {
+  const { content, exported, skipped } = createICS(sessions, dateRange);
+  if (exported === 0) return { exported, skipped };
+  downloadFile(
+    content,
+    `flow-calendar-${dateRange.start.toISOString().split('T')[0]}-${dateRange.end.toISOString().split('T')[0]}.ics`,
+    FILE_TYPES.ICS.mimeType
+  );
+  return { exported, skipped };
+};
+
+/**
+ * CSV reading (RFC 4180)
+ * Quoted fields may contain commas, escaped quotes ("") and line breaks.
+ * Accepts CRLF or LF line endings and a leading byte order mark.
+ */
+
+export interface CSVRecord {
+  /** 1-based line number where the record starts */
+  line: number;
+  fields: string[];
+}
+
+export interface CSVRowError {
+  line: number;
+  message: string;
+  /** Original row, re-joined for display */
+  raw: string;
+}
+
+export interface CSVImportResult {
+  sessions: Session[];
+  errors: CSVRowError[];
+}
+
+export const parseCSV = (content: string): CSVRecord[] => {
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+  const records: CSVRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+    fields = [];
+    field = '';
+    recordLine = line;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      line++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || fields.length > 0) endRecord();
+  return records;
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Parse a calendar date from an import file into a local Date at midnight.
+ * Supports YYYY-MM-DD, DD-MM-YY, DD.MM.YYYY, M/D/YYYY (FLOW's own export),
+ * "Mon Oct 19 2026" (Date.toDateString) and full ISO timestamps.
+ */
+export const parseImportDate = (value: string): Date | null => {
+  const text = value.trim();
+  const toYear = (year: string) => (year.length === 2 ? 2000 + parseInt(year) : parseInt(year));
+  const build = (year: number, month: number, day: number) => {
+    const date = new Date(year, month, day);
+    return date.getFullYear() === year && date.getMonth() === month && date.getDate() === day ? date : null;
+  };
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) return build(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+
+  match = text.match(/^(\d{1,2})[-.](\d{1,2})[-.](\d{2}|\d{4})$/);
+  if (match) return build(toYear(match[3]), parseInt(match[2]) - 1, parseInt(match[1]));
+
+  match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (match) return build(toYear(match[3]), parseInt(match[1]) - 1, parseInt(match[2]));
+
+  match = text.match(/^(?:[a-z]{3},?\s+)?([a-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})$/i);
+  if (match && MONTH_NAMES.includes(match[1].toLowerCase())) {
+    return build(parseInt(match[3]), MONTH_NAMES.indexOf(match[1].toLowerCase()), parseInt(match[2]));
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}T/.test(text)) {
+    const date = new Date(text);
+    if (isNaN(date.getTime())) return null;
+    date.setHours(0, 0, 0, 0);
+    return date;
+  }
+
+  return null;
+};
+
+const parseTimestamp = (value: string | undefined): Date | null | undefined => {
+  if (!value || !value.trim()) return undefined;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const normalizeHeader = (value: string) => value.trim().toLowerCase().replace(/[^a-z]/g, '');
+
+/** The JSON array of the Completed Subtasks column, or null when it is not one */
+const parseCompletedSubtasks = (text: string): CompletedSubtask[] | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(parsed)) return null;
+  const valid = parsed.every(item =>
+    typeof item === 'object' && item !== null &&
+    typeof item.title === 'string' && item.title.trim() !== '' &&
+    typeof item.completedAt === 'string' && !isNaN(Date.parse(item.completedAt))
+  );
+  return valid ? parsed.map(item => ({ title: item.title, completedAt: item.completedAt })) : null;
+};
+
+const SESSION_KINDS: SessionKind[] = ['work', 'break', 'skipped-break', 'interrupted'];
+
+/**
+ * Turn parsed CSV records into sessions.
+ * Rows that cannot be read are reported in `errors` rather than dropped silently.
+ */
+export const parseSessionsCSV = (content: string): CSVImportResult => {
+  const records = parseCSV(content);
+
+  // Header follows the DETAILED DATA marker in FLOW exports; plain files start with it
+  const markerIndex = records.findIndex(record => record.fields[0]?.trim() === 'DETAILED DATA');
+  const headerIndex = markerIndex !== -1
+    ? markerIndex + 1
+    : records.findIndex(record => record.fields.some(field => normalizeHeader(field) === 'task'));
+
+  if (headerIndex === -1 || !records[headerIndex]) {
+    throw new Error('Invalid file format: DETAILED DATA section not found');
+  }
+
+  const header = records[headerIndex].fields.map(normalizeHeader);
+  const column = (...names: string[]) => header.findIndex(name => names.includes(name));
+  const columns = {
+    date: column('date'),
+    task: column('task', 'taskname'),
+    duration: column('durationsec', 'duration'),
+    startTime: column('starttime'),
+    endTime: column('endtime'),
+    id: column('id'),
+    kind: column('kind'),
+    taskId: column('taskid'),
+    paused: column('pausedsec', 'pausedduration'),
+    projectId: column('projectid'),
+    tags: column('tags'),
+    overtime: column('overtimesec', 'overtime'),
+    completedSubtasks: column('completedsubtasks')
+  };
+
+  if (columns.task === -1 || (columns.date === -1 && columns.startTime === -1)) {
+    throw new Error('Invalid file format: Date and Task columns are required');
+  }
+
+  const sessions: Session[] = [];
+  const errors: CSVRowError[] = [];
+
+  records.slice(headerIndex + 1).forEach(({ line, fields }, index) => {
+    if (fields.every(field => !field.trim())) return;
+
+    const cell = (col: number) => (col === -1 ? '' : (fields[col] ?? '').trim());
+    const fail = (message: string) => errors.push({ line, message, raw: fields.join(',') });
+
+    const kindText = cell(columns.kind);
+    const kind = SESSION_KINDS.find(k => k === kindText);
+    if (kindText && !kind) return fail(`Unknown session kind "${kindText}"`);
+
+    // Breaks are stored with an empty task id, so only work rows need a task
+    const taskName = cell(columns.task);
+    const isBreak = kind === 'break' || kind === 'skipped-break';
+    if (!taskName && !isBreak) return fail('Missing task name');
+
+    const startTime = parseTimestamp(cell(columns.startTime));
+    const endTime = parseTimestamp(cell(columns.endTime));
+    if (startTime === null) return fail(`Unreadable start time "${cell(columns.startTime)}"`);
+    if (endTime === null) return fail(`Unreadable end time "${cell(columns.endTime)}"`);
+    if (startTime && endTime && endTime < startTime) return fail('End time is before start time');
+
+    const dateText = cell(columns.date);
+    const date = dateText ? parseImportDate(dateText) : null;
+    if (dateText && !date) return fail(`Unreadable date "${dateText}"`);
+
+    const durationText = cell(columns.duration);
+    let duration = durationText === '' ? NaN : Number(durationText);
+    if (durationText === '' && startTime && endTime) {
+      duration = Math.round((endTime.getTime() - startTime.getTime()) / 1000);
+    }
+    if (!Number.isFinite(duration) || duration < 0) {
+      return fail(durationText ? `Invalid duration "${durationText}"` : 'Missing duration');
+    }
+
+    const pausedText = cell(columns.paused);
+    const paused = Number(pausedText);
+    if (pausedText && (!Number.isFinite(paused) || paused < 0)) return fail(`Invalid paused time "${pausedText}"`);
+
+    const overtimeText = cell(columns.overtime);
+    const overtime = Number(overtimeText);
+    if (overtimeText && (!Number.isFinite(overtime) || overtime < 0)) return fail(`Invalid overtime "${overtimeText}"`);
+
+    const subtasksText = cell(columns.completedSubtasks);
+    const completedSubtasks = subtasksText ? parseCompletedSubtasks(subtasksText) : [];
+    if (!completedSubtasks) return fail('Invalid completed subtasks (expected a JSON list of { title, completedAt })');
+
+    // Recorded sessions are keyed by the day they ended, so an explicit date wins over startTime
+    const day = date || startTime;
+    if (!day) return fail('Missing date');
+
+    const projectId = cell(columns.projectId);
+    const tags = cell(columns.tags).split(/[;\s]+/).filter(Boolean);
+
+    const session: Session = {
+      id: cell(columns.id) || `imported-${Date.now()}-${index}-${Math.random().toString(36).slice(2, 8)}`,
+      ...(kind ? { kind } : {}),
+      taskId: cell(columns.taskId) || (isBreak ? '' : `task-${taskName.toLowerCase().replace(/\s+/g, '-')}`),
+      taskName,
+      duration: Math.round(duration),
+      date: day.toDateString(),
+      // Summary rows have no times of day, so timestamps are only kept when the file has them
+      ...(startTime ? { startTime: startTime.toISOString() } : {}),
+      ...(endTime ? { endTime: endTime.toISOString() } : {}),
+      ...(pausedText ? { pausedDuration: paused } : {}),
+      ...(projectId ? { projectId } : {}),
+      ...(tags.length > 0 ? { tags } : {}),
+      ...(overtime > 0 ? { overtime: Math.min(Math.round(overtime), Math.round(duration)) } : {}),
+      ...(completedSubtasks.length > 0 ? { completedSubtasks } : {})
+    };
+    sessions.push(session);
+  });
+
+  return { sessions, errors };
 };
 
 /**
  * Import from CSV file
  */
-export const importFromCSV = (file: File): Promise<Session[]> => {
+export const importFromCSV = (file: File): Promise<CSVImportResult> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const content = e.target?.result as string;
-        const lines = content.split('\n');
-        
-        // Find the start of detailed data
-        let dataStartIndex = -1;
-        for (let i = 0; i < lines.length; i++) {
-          if (lines[i].includes('DETAILED DATA')) {
-            dataStartIndex = i + 2; // Skip header line
-            break;
-          }
-        }
-        
-        if (dataStartIndex === -1) {
-          throw new Error('Invalid file format: DETAILED DATA section not found');
-        }
-        
-        const sessions: Session[] = [];
-        
-        for (let i = dataStartIndex; i < lines.length; i++) {
-          const line = lines[i].trim();
-          if (!line) continue;
-          
-          const parts = line.split(',');
-          if (parts.length < 4) continue;
-          
-          try {
-            const date = parts[0];
-            const taskName = parts[1].replace(/"/g, ''); // Remove quotes
-            const duration = parts[2];
-            
-            // Create date objects (assuming UTC)
-            // Handle both DD-MM-YY and YYYY-MM-DD formats
-            const dateParts = date.split('-');
-            let startDateTime: Date;
-            
-            if (dateParts[0].length === 2) {
-              // DD-MM-YY format (like 01-07-25)
-              const day = parseInt(dateParts[0]);
-              const month = parseInt(dateParts[1]) - 1; // Month is 0-indexed
-              const year = 2000 + parseInt(dateParts[2]); // Assume 20XX
-              startDateTime = new Date(Date.UTC(year, month, day));
-            } else {
-              // YYYY-MM-DD format
-              const year = parseInt(dateParts[0]);
-              const month = parseInt(dateParts[1]) - 1; // Month is 0-indexed
-              const day = parseInt(dateParts[2]);
-              startDateTime = new Date(Date.UTC(year, month, day));
-            }
-            
-            if (isNaN(startDateTime.getTime()) || isNaN(Number(duration))) {
-              continue; // Skip invalid rows
-            }
-
-            const session: Session = {
-              id: `imported-${Date.now()}-${Math.random()}`,
-              taskId: `task-${taskName.toLowerCase().replace(/\s+/g, '-')}`,
-              taskName,
-              duration: Number(duration),
-              date: startDateTime.toDateString(),
-              startTime: startDateTime.toISOString(),
-              endTime: new Date(startDateTime.getTime() + Number(duration) * TIME_CONSTANTS.MILLISECONDS_IN_SECOND).toISOString()
-           };
-           
-           sessions.push(session);
-           console.log('Parsed session:', session);
-          } catch (error) {
-            // Skip invalid rows
-            continue;
-          }
-        }
-        
-        if (sessions.length === 0) {
+        const result = parseSessionsCSV(e.target?.result as string);
+        if (result.sessions.length === 0 && result.errors.length === 0) {
           throw new Error('No valid session data found in file');
         }
-        
-        resolve(sessions);
+        resolve(result);
       } catch (error) {
         reject(new Error(`Error reading file: ${error instanceof Error ? error.message : 'Unknown error'}`));
       }
@@ -196,24 +542,377 @@ export const importFromCSV = (file: File): Promise<Session[]> => {
 };
 
 /**
- * Delete sessions by date range
+ * CSV merge import
+ * Classifies imported rows against existing history before anything is written.
  */
-export const deleteSessionsByDateRange = (
-  sessions: Session[], 
-  dateRange: DateRange
-): Session[] => {
-  return sessions.filter(session => {
-    const sessionDate = new Date(session.date);
-    return sessionDate < dateRange.start || sessionDate > dateRange.end;
+
+export type ImportRowStatus = 'new' | 'duplicate' | 'conflict';
+
+export interface ImportDiffRow {
+  session: Session;
+  status: ImportRowStatus;
+  /** Existing session the row duplicates or conflicts with */
+  match?: Session;
+  /** Why a row conflicts */
+  reason?: string;
+}
+
+export interface ImportDiff {
+  rows: ImportDiffRow[];
+  counts: Record<ImportRowStatus, number>;
+}
+
+const sameTask = (a: Session, b: Session) =>
+  a.taskName.trim().toLowerCase() === b.taskName.trim().toLowerCase();
+
+const toMs = (iso?: string) => (iso ? new Date(iso).getTime() : NaN);
+
+const sameCompletedSubtasks = (a: Session, b: Session) =>
+  JSON.stringify(a.completedSubtasks ?? []) === JSON.stringify(b.completedSubtasks ?? []);
+
+/**
+ * Compare imported sessions with existing history:
+ * - duplicate: same date, task, duration and completed subtasks (and the same start time when both rows have one)
+ * - conflict: same task starting at the same time with a different duration or other completed subtasks,
+ *   or a time range that overlaps an existing work session
+ * - new: everything else
+ */
+export const diffImportedSessions = (existing: Session[], imported: Session[]): ImportDiff => {
+  const existingWork = existing.filter(isWorkSession);
+  const existingIds = new Map(existing.map(e => [e.id, e]));
+  const rows: ImportDiffRow[] = imported.map(session => {
+    // Detailed exports carry session ids, which identify a duplicate exactly
+    const sameId = existingIds.get(session.id);
+    if (sameId) return { session, status: 'duplicate', match: sameId };
+    if (!isWorkSession(session)) return { session, status: 'new' };
+
+    const sameDayTask = existingWork.filter(e => e.date === session.date && sameTask(e, session));
+    const start = toMs(session.startTime);
+
+    const sameRecording = sameDayTask.find(e =>
+      e.duration === session.duration &&
+      (!session.startTime || !e.startTime || toMs(e.startTime) === start)
+    );
+    if (sameRecording && sameCompletedSubtasks(sameRecording, session)) {
+      return { session, status: 'duplicate', match: sameRecording };
+    }
+    if (sameRecording) {
+      return { session, status: 'conflict', match: sameRecording, reason: 'Same session, other completed subtasks' };
+    }
+
+    if (!isNaN(start)) {
+      const restarted = sameDayTask.find(e => toMs(e.startTime) === start);
+      if (restarted) {
+        return { session, status: 'conflict', match: restarted, reason: `Same start, recorded as ${formatTime(restarted.duration)}` };
+      }
+
+      const end = toMs(session.endTime);
+      if (!isNaN(end)) {
+        const overlapping = existingWork.find(e => {
+          const eStart = toMs(e.startTime);
+          const eEnd = toMs(e.endTime);
+          return !isNaN(eStart) && !isNaN(eEnd) && start < eEnd && eStart < end;
+        });
+        if (overlapping) {
+          return { session, status: 'conflict', match: overlapping, reason: `Overlaps "${overlapping.taskName}"` };
+        }
+      }
+    }
+
+    return { session, status: 'new' };
   });
+
+  const counts = { new: 0, duplicate: 0, conflict: 0 };
+  rows.forEach(row => counts[row.status]++);
+  return { rows, counts };
+};
+
+/**
+ * Full backup (JSON)
+ * A versioned snapshot of every app localStorage entry that can be restored in
+ * 'replace' mode (overwrite everything) or 'merge' mode (add what is missing).
+ */
+
+/** Current backup schema version; bump it and add a migration when the format changes */
+export const BACKUP_SCHEMA_VERSION = 1;
+
+/**
+ * Every entry included in a backup. All are localStorage entries except 'flow-sessions',
+ * which is read from and written to the session store but keeps its key in the file.
+ */
+export const BACKUP_KEYS = Object.values(STORAGE_KEYS);
+
+export type BackupKey = typeof BACKUP_KEYS[number];
+
+/** Entries stored as plain strings rather than JSON */
+const RAW_BACKUP_KEYS: readonly BackupKey[] = [STORAGE_KEYS.LAST_RESET];
+
+/** Backed up for completeness but never restored: an old timer would resume with hours of phantom time */
+const SKIP_ON_RESTORE: readonly BackupKey[] = [STORAGE_KEYS.TIMER_STATE, STORAGE_KEYS.TIMER_JOURNAL];
+
+export interface BackupFile {
+  app: 'flow';
+  schemaVersion: number;
+  exportedAt: string;
+  data: Partial<Record<BackupKey, unknown>>;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreSummary {
+  mode: RestoreMode;
+  sessionsAdded: number;
+  tasksAdded: number;
+  keysRestored: number;
+}
+
+/**
+ * Migrations keyed by the version they upgrade from (n -> n + 1)
+ */
+const BACKUP_MIGRATIONS: Record<number, (backup: BackupFile) => BackupFile> = {};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isArrayOf = (value: unknown, check: (item: unknown) => boolean): boolean =>
+  Array.isArray(value) && value.every(check);
+
+const isTaskLike = (item: unknown) =>
+  isRecord(item) && typeof item.id === 'string' && typeof item.name === 'string';
+
+const isSessionLike = (item: unknown) =>
+  isRecord(item) && typeof item.id === 'string' && typeof item.duration === 'number' && typeof item.date === 'string';
+
+/**
+ * Shape checks per entry; entries without a check only need to be valid JSON
+ */
+const BACKUP_VALIDATORS: Partial<Record<BackupKey, (value: unknown) => boolean>> = {
+  [STORAGE_KEYS.TASKS]: value => isArrayOf(value, isTaskLike),
+  [STORAGE_KEYS.PROJECTS]: value => isArrayOf(value, item => isRecord(item) && typeof item.id === 'string' && typeof item.name === 'string'),
+  [STORAGE_KEYS.ACTIVE_TASK]: value => value === null || isTaskLike(value),
+  [STORAGE_KEYS.SESSIONS]: value => isArrayOf(value, isSessionLike),
+  [STORAGE_KEYS.SETTINGS]: isRecord,
+  [STORAGE_KEYS.TIMER_STATE]: value => value === null || isRecord(value),
+  [STORAGE_KEYS.TIMER_JOURNAL]: value => isRecord(value) && Array.isArray(value.entries),
+  [STORAGE_KEYS.TASK_HISTORY]: value => isArrayOf(value, item => typeof item === 'string'),
+  [STORAGE_KEYS.LAST_RESET]: value => typeof value === 'string',
+  [STORAGE_KEYS.LAYOUT]: value => typeof value === 'string',
+  [STORAGE_KEYS.COLOR_SYSTEM]: isRecord,
+  [STORAGE_KEYS.MUSIC_STREAMS]: value => isArrayOf(value, item => isRecord(item) && typeof item.url === 'string'),
+  [STORAGE_KEYS.MUSIC_STATE]: isRecord,
+};
+
+/**
+ * Snapshot all backup entries from localStorage and the session store
+ */
+export const createBackup = async (): Promise<BackupFile> => {
+  const data: BackupFile['data'] = {};
+  for (const key of BACKUP_KEYS) {
+    if (key === STORAGE_KEYS.SESSIONS) {
+      data[key] = await loadAllSessions();
+      continue;
+    }
+    const raw = localStorage.getItem(key);
+    if (raw === null) continue;
+    if (RAW_BACKUP_KEYS.includes(key)) {
+      data[key] = raw;
+      continue;
+    }
+    try {
+      data[key] = JSON.parse(raw);
+    } catch {
+      console.warn(`Skipping unreadable localStorage entry "${key}" in backup`);
+    }
+  }
+
+  return {
+    app: 'flow',
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data
+  };
+};
+
+/**
+ * Export a full JSON backup
+ */
+export const exportBackup = async (): Promise<void> => {
+  const backup = await createBackup();
+  downloadFile(
+    JSON.stringify(backup, null, 2),
+    `flow-backup-${backup.exportedAt.split('T')[0]}${FILE_TYPES.JSON.extension}`,
+    FILE_TYPES.JSON.mimeType
+  );
+};
+
+/**
+ * Validate parsed JSON as a backup file and upgrade it to the current schema.
+ * Throws with a readable message listing every problem found.
+ */
+export const validateBackup = (parsed: unknown): BackupFile => {
+  if (!isRecord(parsed) || parsed.app !== 'flow' || !isRecord(parsed.data)) {
+    throw new Error('Not a FLOW backup file');
+  }
+
+  const version = parsed.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Backup has no valid schema version');
+  }
+  if (version > BACKUP_SCHEMA_VERSION) {
+    throw new Error(`Backup was made by a newer version of FLOW (schema ${version}, supported up to ${BACKUP_SCHEMA_VERSION})`);
+  }
+
+  let backup: BackupFile = {
+    app: 'flow',
+    schemaVersion: version,
+    exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+    data: parsed.data as BackupFile['data']
+  };
+
+  // Run migrations in order up to the current version
+  while (backup.schemaVersion < BACKUP_SCHEMA_VERSION) {
+    const migrate = BACKUP_MIGRATIONS[backup.schemaVersion];
+    if (!migrate) {
+      throw new Error(`No migration from backup schema ${backup.schemaVersion}`);
+    }
+    backup = { ...migrate(backup), schemaVersion: backup.schemaVersion + 1 };
+  }
+
+  const problems = BACKUP_KEYS
+    .filter(key => key in backup.data && BACKUP_VALIDATORS[key] && !BACKUP_VALIDATORS[key]!(backup.data[key]))
+    .map(key => `"${key}" has an unexpected format`);
+  if (problems.length > 0) {
+    throw new Error(`Invalid backup: ${problems.join('; ')}`);
+  }
+
+  // Drop unknown entries so they are never written to storage
+  const data: BackupFile['data'] = {};
+  for (const key of BACKUP_KEYS) {
+    if (key in backup.data) data[key] = backup.data[key];
+  }
+  return { ...backup, data };
+};
+
+/**
+ * Read, validate and migrate a backup file
+ */
+export const readBackupFile = (file: File): Promise<BackupFile> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const parsed = JSON.parse(e.target?.result as string);
+        resolve(validateBackup(parsed));
+      } catch (error) {
+        reject(new Error(`Error reading backup: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    };
+    reader.onerror = () => reject(new Error('Error reading file'));
+    reader.readAsText(file);
+  });
+};
+
+const readStored = <T>(key: BackupKey, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+/** Union of two lists by key; items already present win */
+const mergeBy = <T>(current: T[], incoming: T[], keyOf: (item: T) => string): T[] => {
+  const seen = new Set(current.map(keyOf));
+  return [...current, ...incoming.filter(item => !seen.has(keyOf(item)))];
+};
+
+/**
+ * Merge one backup entry into what is stored now.
+ * Lists are unioned (existing items win); settings-like objects only gain missing fields;
+ * per-device state (active task, timer, music playback, last rollover) is kept as is.
+ */
+const mergeEntry = (key: BackupKey, incoming: unknown): unknown => {
+  switch (key) {
+    case STORAGE_KEYS.TASKS:
+      return mergeBy(readStored<Task[]>(key, []), incoming as Task[], t => t.id);
+    case STORAGE_KEYS.PROJECTS:
+      return mergeBy(readStored<{ id: string }[]>(key, []), incoming as { id: string }[], p => p.id);
+    case STORAGE_KEYS.TASK_HISTORY:
+      return mergeBy(readStored<string[]>(key, []), incoming as string[], name => name);
+    case STORAGE_KEYS.MUSIC_STREAMS:
+      return mergeBy(readStored<{ url: string }[]>(key, []), incoming as { url: string }[], s => s.url);
+    case STORAGE_KEYS.SETTINGS:
+      return { ...(incoming as object), ...readStored<object>(key, {}) };
+    case STORAGE_KEYS.COLOR_SYSTEM: {
+      const current = readStored<Record<string, unknown[]>>(key, {});
+      const next = incoming as Record<string, unknown[]>;
+      const byValue = (c: unknown) => String((c as { value?: string; key?: string }).value ?? (c as { key?: string }).key);
+      return {
+        ...next,
+        ...current,
+        customAccentColors: mergeBy(current.customAccentColors || [], next.customAccentColors || [], byValue),
+        customLightBackgrounds: mergeBy(current.customLightBackgrounds || [], next.customLightBackgrounds || [], byValue),
+        customDarkBackgrounds: mergeBy(current.customDarkBackgrounds || [], next.customDarkBackgrounds || [], byValue),
+      };
+    }
+    default:
+      return localStorage.getItem(key) === null ? incoming : undefined;
+  }
+};
+
+/**
+ * Write a validated backup to localStorage and the session store.
+ * The app keeps parsed copies in memory, so callers should reload afterwards.
+ */
+export const restoreBackup = async (backup: BackupFile, mode: RestoreMode): Promise<RestoreSummary> => {
+  const storedSessions = await loadAllSessions();
+  const sessionsBefore = storedSessions.length;
+  const tasksBefore = readStored<Task[]>(STORAGE_KEYS.TASKS, []).length;
+
+  if (mode === 'replace') {
+    BACKUP_KEYS.forEach(key => localStorage.removeItem(key));
+  }
+
+  let keysRestored = 0;
+  for (const key of BACKUP_KEYS) {
+    if (key === STORAGE_KEYS.SESSIONS || !(key in backup.data) || SKIP_ON_RESTORE.includes(key)) continue;
+    const value = mode === 'merge' ? mergeEntry(key, backup.data[key]) : backup.data[key];
+    if (value === undefined) continue;
+    localStorage.setItem(key, RAW_BACKUP_KEYS.includes(key) ? String(value) : JSON.stringify(value));
+    keysRestored++;
+  }
+
+  // Sessions: union by id when merging (existing ones win), otherwise the backup's list
+  const incomingSessions = (backup.data[STORAGE_KEYS.SESSIONS] as Session[] | undefined) ?? [];
+  let sessionsAfter = sessionsBefore;
+  if (mode === 'merge') {
+    const known = new Set(storedSessions.map(s => s.id));
+    const added = incomingSessions.filter(s => !known.has(s.id));
+    await writeSessionChanges(added, [], [...storedSessions, ...added]);
+    sessionsAfter += added.length;
+  } else {
+    await replaceAllSessions(incomingSessions);
+    sessionsAfter = incomingSessions.length;
+  }
+  if (STORAGE_KEYS.SESSIONS in backup.data) keysRestored++;
+
+  const tasksAfter = readStored<Task[]>(STORAGE_KEYS.TASKS, []).length;
+
+  return {
+    mode,
+    sessionsAdded: mode === 'merge' ? sessionsAfter - sessionsBefore : sessionsAfter,
+    tasksAdded: mode === 'merge' ? tasksAfter - tasksBefore : tasksAfter,
+    keysRestored
+  };
 };
 
 /**
  * Delete all history
  */
-export const deleteAllHistory = (): void => {
+export const deleteAllHistory = async (): Promise<void> => {
   if (window.confirm('Are you sure you want to delete all history? This action cannot be undone.')) {
-    localStorage.removeItem(STORAGE_KEYS.SESSIONS);
+    await replaceAllSessions([]);
     localStorage.removeItem(STORAGE_KEYS.TASK_HISTORY);
     window.location.reload();
   }
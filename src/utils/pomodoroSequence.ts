@@ -0,0 +1,67 @@
+/**
+ * Pomodoro sequences
+ * A Pomodoro cycle is a list of steps - work, break or long break - that useTimer runs in
+ * order. With settings.pomodoroSequenceEnabled the user's own pomodoroSequence is run;
+ * otherwise the classic settings are expanded into one: pomodoroSessions × (work, break),
+ * with a long break after every pomodoroLongBreakInterval-th session and after the last.
+ *
+ * The steps are copied into the timer state when a cycle starts, so editing the
+ * settings mid-cycle only affects the next cycle.
+ */
+
+import type { PomodoroStep, Settings } from '../App';
+
+/** Classic Pomodoro settings, in minutes */
+export interface ClassicPomodoro {
+  workMinutes: number;
+  breakMinutes: number;
+  longBreakMinutes: number;
+  sessions: number;
+  longBreakInterval: number;
+}
+
+export const buildClassicSteps = ({
+  workMinutes,
+  breakMinutes,
+  longBreakMinutes,
+  sessions,
+  longBreakInterval
+}: ClassicPomodoro): PomodoroStep[] => {
+  const steps: PomodoroStep[] = [];
+  for (let session = 1; session <= Math.max(1, sessions); session++) {
+    const isLong = session >= sessions || (longBreakInterval > 0 && session % longBreakInterval === 0);
+    steps.push({ kind: 'work', minutes: workMinutes });
+    steps.push(isLong ? { kind: 'long-break', minutes: longBreakMinutes } : { kind: 'break', minutes: breakMinutes });
+  }
+  return steps;
+};
+
+/**
+ * Steps a Pomodoro cycle started now would run
+ */
+export const getPomodoroSteps = (settings: Settings): PomodoroStep[] =>
+  settings.pomodoroSequenceEnabled
+    ? settings.pomodoroSequence
+    : buildClassicSteps({
+      workMinutes: settings.pomodoroWorkDuration,
+      breakMinutes: settings.pomodoroBreakDuration,
+      longBreakMinutes: settings.pomodoroLongBreakDuration,
+      sessions: settings.pomodoroSessions,
+      longBreakInterval: settings.pomodoroLongBreakInterval
+    });
+
+/**
+ * Work steps up to and including `throughIndex` (all of them by default).
+ * For a work step this is its session number, which recorded sessions are keyed by.
+ */
+export const countWorkSteps = (steps: PomodoroStep[], throughIndex = steps.length - 1): number =>
+  steps.slice(0, throughIndex + 1).filter(step => step.kind === 'work').length;
+
+const STEP_NAMES: Record<PomodoroStep['kind'], string> = {
+  work: 'Work',
+  break: 'Break',
+  'long-break': 'Long break'
+};
+
+/** The step's label, or what kind of step it is */
+export const getStepName = (step: PomodoroStep): string => step.label || STEP_NAMES[step.kind];
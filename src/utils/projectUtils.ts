@@ -0,0 +1,50 @@
+/**
+ * Project and tag utilities
+ * Shared by the task list, the timer and History
+ */
+
+import type { Project, Session, Task } from '../App';
+import type { AccentColor } from './colorSystem';
+
+/**
+ * Filter value meaning "sessions/tasks without a project"
+ */
+export const NO_PROJECT = 'none';
+
+/**
+ * Splits "#tags" out of a task name: "Write docs #client #q3" -> { name: 'Write docs', tags: ['client', 'q3'] }
+ */
+export const parseTaskTags = (input: string): { name: string; tags: string[] } => {
+  const tags: string[] = [];
+  const name = input
+    .replace(/(^|\s)#([\p{L}\p{N}_-]+)/gu, (_match, _space, tag: string) => {
+      const normalized = tag.toLowerCase();
+      if (!tags.includes(normalized)) tags.push(normalized);
+      return ' ';
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+  return { name: name || input.trim(), tags };
+};
+
+/**
+ * Picks the first palette color not already used by a project (cycles when all are taken)
+ */
+export const pickProjectColor = (projects: Project[], palette: AccentColor[]): string => {
+  if (palette.length === 0) return 'blue-500';
+  const used = new Set(projects.map(p => p.color));
+  const unused = palette.find(c => !used.has(c.value));
+  return (unused ?? palette[projects.length % palette.length]).value;
+};
+
+/**
+ * Project of a session; sessions recorded before projects existed fall back to their task's project
+ */
+export const getSessionProjectId = (session: Session, tasks: Task[]): string | undefined =>
+  session.projectId ?? tasks.find(t => t.id === session.taskId)?.projectId;
+
+/**
+ * Tags of a session, with the same task fallback as getSessionProjectId
+ */
+export const getSessionTags = (session: Session, tasks: Task[]): string[] =>
+  session.tags ?? tasks.find(t => t.id === session.taskId)?.tags ?? [];
@@ -0,0 +1,240 @@
+/**
+ * Session store
+ * Sessions live in IndexedDB instead of one JSON array under 'flow-sessions', which was
+ * re-serialized on every change and ran into the ~5MB localStorage quota for heavy users.
+ *
+ * Database 'flow', object store 'sessions', records { id, day, session }:
+ * - index 'day'    -> local YYYY-MM-DD of Session.date (range queries)
+ * - index 'taskId' -> Session.taskId
+ *
+ * Sessions found under 'flow-sessions' (older versions, restored backups) are moved in by
+ * migrateLegacySessions(). Without IndexedDB (some private modes) every function falls
+ * back to the localStorage array, so callers never need to care which backend is in use.
+ */
+
+import type { Session } from '../App';
+import type { DateRange } from './dataManager';
+import { STORAGE_KEYS } from './constants';
+import { toDayKey } from './sessionUtils';
+
+const DB_NAME = 'flow';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+interface SessionRecord {
+  id: string;
+  day: string;
+  session: Session;
+}
+
+const toRecord = (session: Session): SessionRecord => ({
+  id: session.id,
+  day: toDayKey(new Date(session.date)),
+  session
+});
+
+const sessionTime = (session: Session) => new Date(session.startTime || session.date).getTime() || 0;
+
+/** Chronological order, as sessions were appended when they lived in one array */
+const sortSessions = (sessions: Session[]): Session[] =>
+  [...sessions].sort((a, b) => sessionTime(a) - sessionTime(b));
+
+const inDateRange = (session: Session, dateRange: DateRange) => {
+  const sessionDate = new Date(session.date);
+  return sessionDate >= dateRange.start && sessionDate <= dateRange.end;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/** Writes still in flight; a reload must wait for them (see waitForSessionWrites) */
+const pendingWrites = new Set<Promise<void>>();
+
+/** Called after every write in this tab has committed (see subscribeToSessionWrites) */
+const writeListeners = new Set<() => void>();
+
+const notifyWriteListeners = () => writeListeners.forEach(listener => listener());
+
+const trackWrite = (write: Promise<void>): Promise<void> => {
+  pendingWrites.add(write);
+  write.then(
+    () => {
+      pendingWrites.delete(write);
+      notifyWriteListeners();
+    },
+    () => pendingWrites.delete(write)
+  );
+  return write;
+};
+
+/**
+ * Run `listener` whenever a write made in this tab has committed, so range queries can
+ * be repeated. Returns the unsubscribe function.
+ */
+export const subscribeToSessionWrites = (listener: () => void): (() => void) => {
+  writeListeners.add(listener);
+  return () => {
+    writeListeners.delete(listener);
+  };
+};
+
+/**
+ * Resolves once every write started so far has settled
+ */
+export const waitForSessionWrites = async (): Promise<void> => {
+  await Promise.allSettled(Array.from(pendingWrites));
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('day', 'day');
+        store.createIndex('taskId', 'session.taskId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+/** The database, or null when only the localStorage fallback is usable */
+const getDatabase = async (): Promise<IDBDatabase | null> => {
+  try {
+    return await openDatabase();
+  } catch (error) {
+    console.warn('Session store: IndexedDB unavailable, using localStorage', error);
+    return null;
+  }
+};
+
+/**
+ * Run one transaction on the sessions store; resolves with the request's result
+ * once the transaction has committed.
+ */
+const runTransaction = <T>(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> =>
+  new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = work(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const readLegacySessions = (): Session[] | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEYS.SESSIONS);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeLegacySessions = (sessions: Session[]) => {
+  localStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify(sessions));
+};
+
+const recordsToSessions = (records: SessionRecord[] | undefined): Session[] =>
+  sortSessions((records || []).map(record => record.session));
+
+/**
+ * Move sessions left in localStorage into IndexedDB, then drop the array.
+ * Sessions already in the store win. Returns how many were moved.
+ */
+export const migrateLegacySessions = async (): Promise<number> => {
+  const legacy = readLegacySessions();
+  if (!legacy) return 0;
+  const db = await getDatabase();
+  if (!db) return 0;
+
+  const existing = new Set((await runTransaction(db, 'readonly', store => store.getAllKeys())) || []);
+  const added = legacy.filter(session => session && typeof session.id === 'string' && !existing.has(session.id));
+  await runTransaction(db, 'readwrite', store => {
+    added.forEach(session => store.put(toRecord(session)));
+  });
+  localStorage.removeItem(STORAGE_KEYS.SESSIONS);
+  if (added.length > 0) notifyWriteListeners();
+  return added.length;
+};
+
+/**
+ * Every session, oldest first
+ */
+export const loadAllSessions = async (): Promise<Session[]> => {
+  const db = await getDatabase();
+  if (!db) return sortSessions(readLegacySessions() || []);
+  return recordsToSessions(await runTransaction<SessionRecord[]>(db, 'readonly', store => store.getAll()));
+};
+
+/**
+ * Sessions whose Session.date falls in the range (same rule as filterSessionsByDateRange),
+ * read through the 'day' index
+ */
+export const querySessionsByDateRange = async (dateRange: DateRange): Promise<Session[]> => {
+  const db = await getDatabase();
+  if (!db) return sortSessions((readLegacySessions() || []).filter(s => inDateRange(s, dateRange)));
+
+  const from = toDayKey(dateRange.start);
+  const to = toDayKey(dateRange.end);
+  if (!from || !to || from > to) return [];
+  const records = await runTransaction<SessionRecord[]>(db, 'readonly', store =>
+    store.index('day').getAll(IDBKeyRange.bound(from, to))
+  );
+  return recordsToSessions(records).filter(s => inDateRange(s, dateRange));
+};
+
+/**
+ * Sessions recorded for one task, read through the 'taskId' index
+ */
+export const querySessionsByTask = async (taskId: string): Promise<Session[]> => {
+  const db = await getDatabase();
+  if (!db) return sortSessions((readLegacySessions() || []).filter(s => s.taskId === taskId));
+  return recordsToSessions(await runTransaction<SessionRecord[]>(db, 'readonly', store =>
+    store.index('taskId').getAll(IDBKeyRange.only(taskId))
+  ));
+};
+
+/**
+ * Write only what changed: `put` sessions are added or replaced by id, `deleteIds` removed.
+ * `all` is the full list after the change, used by the localStorage fallback.
+ */
+export const writeSessionChanges = (put: Session[], deleteIds: string[], all: Session[]): Promise<void> =>
+  trackWrite((async () => {
+    const db = await getDatabase();
+    if (!db) {
+      writeLegacySessions(all);
+      return;
+    }
+    if (put.length === 0 && deleteIds.length === 0) return;
+    await runTransaction(db, 'readwrite', store => {
+      deleteIds.forEach(id => store.delete(id));
+      put.forEach(session => store.put(toRecord(session)));
+    });
+  })());
+
+/**
+ * Replace every stored session (restores, "delete all history")
+ */
+export const replaceAllSessions = (sessions: Session[]): Promise<void> =>
+  trackWrite((async () => {
+    const db = await getDatabase();
+    if (!db) {
+      writeLegacySessions(sessions);
+      return;
+    }
+    await runTransaction(db, 'readwrite', store => {
+      store.clear();
+      sessions.forEach(session => store.put(toRecord(session)));
+    });
+  })());
@@ -0,0 +1,279 @@
+/**
+ * Session utilities
+ * Helpers for telling recorded work apart from recorded rest
+ */
+
+import type { Session } from '../App';
+
+/**
+ * Work time: plain work sessions and interrupted Pomodoros.
+ * Sessions recorded before kinds existed have no kind and count as work.
+ */
+export const isWorkSession = (session: Session): boolean =>
+  !session.kind || session.kind === 'work' || session.kind === 'interrupted';
+
+/**
+ * Rest time: breaks that ran to completion and breaks that were skipped early
+ */
+export const isRestSession = (session: Session): boolean =>
+  session.kind === 'break' || session.kind === 'skipped-break';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Local YYYY-MM-DD key of a date ('' for an invalid one); sorts chronologically, unlike
+ * toDateString(). The session store's day index, the detailed CSV and the editor's date
+ * field all use it, so their days always agree.
+ */
+export const toDayKey = (date: Date): string =>
+  isNaN(date.getTime()) ? '' : `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Work and rest totals in seconds
+ */
+export const getWorkRestTotals = (sessions: Session[]) => {
+  let workTime = 0;
+  let restTime = 0;
+  for (const session of sessions) {
+    if (isRestSession(session)) restTime += session.duration;
+    else if (isWorkSession(session)) workTime += session.duration;
+  }
+  return { workTime, restTime };
+};
+
+/**
+ * Formats a work/rest ratio as "N : 1" (or "—" when no rest was recorded)
+ */
+export const formatWorkRestRatio = (workTime: number, restTime: number): string => {
+  if (restTime <= 0) return '—';
+  const ratio = workTime / restTime;
+  return `${ratio >= 10 ? Math.round(ratio) : ratio.toFixed(1)} : 1`;
+};
+
+/**
+ * Appends a session unless one with the same id is already recorded
+ */
+export const appendUniqueSession = (sessions: Session[], session: Session): Session[] =>
+  sessions.some(s => s.id === session.id) ? sessions : [...sessions, session];
+
+/**
+ * Appends several sessions, skipping any whose id is already recorded
+ */
+export const appendUniqueSessions = (sessions: Session[], additions: Session[]): Session[] =>
+  additions.reduce(appendUniqueSession, sessions);
+
+/**
+ * Overtime is the end of a session: share it out over freshly built parts,
+ * counting back from the last one.
+ */
+const shareOvertime = (parts: Session[], overtime = 0): Session[] => {
+  let left = overtime;
+  for (let i = parts.length - 1; i >= 0; i--) {
+    const share = Math.min(left, parts[i].duration);
+    left -= share;
+    if (share > 0) parts[i].overtime = share;
+    else delete parts[i].overtime;
+  }
+  return parts;
+};
+
+/**
+ * Completed subtasks go to the part they were ticked off in (the last part when outside all of them).
+ */
+const shareSubtasks = (parts: Session[], completedSubtasks: Session['completedSubtasks'] = []): Session[] => {
+  parts.forEach(part => delete part.completedSubtasks);
+  completedSubtasks.forEach(subtask => {
+    const at = new Date(subtask.completedAt).getTime();
+    const part = parts.find(p => p.startTime && p.endTime &&
+      at >= new Date(p.startTime).getTime() && at < new Date(p.endTime).getTime()
+    ) ?? parts[parts.length - 1];
+    part.completedSubtasks = [...(part.completedSubtasks ?? []), subtask];
+  });
+  return parts;
+};
+
+/**
+ * Splits a session that crosses midnight into one session per calendar day.
+ * Duration (and paused time) is shared out in proportion to the wall-clock time
+ * spent on each day; overtime goes to the last day(s), completed subtasks to the
+ * day they were ticked off. The first part keeps the original id; later parts get
+ * `${id}-d1`, `${id}-d2`, ... so re-recording the same session stays idempotent.
+ */
+export const splitSessionAtMidnight = (session: Session): Session[] => {
+  if (!session.startTime || !session.endTime) return [session];
+  const start = new Date(session.startTime).getTime();
+  const end = new Date(session.endTime).getTime();
+  if (!(end > start) || new Date(start).toDateString() === new Date(end).toDateString()) {
+    return [session];
+  }
+
+  const bounds: number[] = [start];
+  const cursor = new Date(start);
+  cursor.setHours(24, 0, 0, 0);
+  while (cursor.getTime() < end) {
+    bounds.push(cursor.getTime());
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  bounds.push(end);
+
+  const wallTime = end - start;
+  const parts: Session[] = [];
+  let durationLeft = session.duration;
+  let pausedLeft = session.pausedDuration ?? 0;
+
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const isLast = i === bounds.length - 2;
+    const share = (bounds[i + 1] - bounds[i]) / wallTime;
+    const duration = isLast ? durationLeft : Math.min(durationLeft, Math.round(session.duration * share));
+    const paused = isLast ? pausedLeft : Math.min(pausedLeft, Math.round((session.pausedDuration ?? 0) * share));
+    durationLeft -= duration;
+    pausedLeft -= paused;
+
+    const part: Session = {
+      ...session,
+      id: i === 0 ? session.id : `${session.id}-d${i}`,
+      startTime: new Date(bounds[i]).toISOString(),
+      endTime: new Date(bounds[i + 1]).toISOString(),
+      duration,
+      date: new Date(bounds[i]).toDateString(),
+    };
+    if (paused > 0) part.pausedDuration = paused;
+    else delete part.pausedDuration;
+    parts.push(part);
+  }
+
+  return shareSubtasks(shareOvertime(parts, session.overtime), session.completedSubtasks);
+};
+
+/**
+ * Session editing
+ * Pure helpers behind History's session editor. Edited sessions keep wall-clock
+ * consistency: end - start = duration + pausedDuration.
+ */
+
+const toMs = (iso?: string) => (iso ? new Date(iso).getTime() : NaN);
+
+const formatClock = (ms: number) =>
+  new Date(ms).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
+
+/**
+ * Reasons an edited session cannot be saved, or null when it is valid.
+ * Timed sessions may not overlap any other timed session (touching ends is fine).
+ */
+export const validateSession = (
+  session: Session,
+  sessions: Session[],
+  ignoreIds: string[] = [session.id]
+): string | null => {
+  if (!Number.isFinite(session.duration) || session.duration < 0) return 'Duration cannot be negative';
+  if ((session.pausedDuration ?? 0) < 0) return 'Paused time cannot be negative';
+
+  const start = toMs(session.startTime);
+  const end = toMs(session.endTime);
+  if (isNaN(start) && isNaN(end)) return null;
+  if (isNaN(start) || isNaN(end)) return 'Both start and end times are required';
+  if (end <= start) return 'End time must be after start time';
+
+  const overlapping = sessions.find(other => {
+    if (ignoreIds.includes(other.id)) return false;
+    const otherStart = toMs(other.startTime);
+    const otherEnd = toMs(other.endTime);
+    return !isNaN(otherStart) && !isNaN(otherEnd) && start < otherEnd && otherStart < end;
+  });
+  if (overlapping) {
+    return `Overlaps "${overlapping.taskName}" (${formatClock(toMs(overlapping.startTime))}–${formatClock(toMs(overlapping.endTime))})`;
+  }
+  return null;
+};
+
+/**
+ * Split a timed session at a moment strictly inside it.
+ * Worked and paused time are shared in proportion to wall-clock time; the second part gets a new id.
+ * Overtime stays at the end, in the second part as far as it fits; completed subtasks
+ * go to the part they were ticked off in.
+ */
+export const splitSession = (session: Session, at: number): [Session, Session] | null => {
+  const start = toMs(session.startTime);
+  const end = toMs(session.endTime);
+  if (isNaN(start) || isNaN(end) || at <= start || at >= end) return null;
+
+  const share = (at - start) / (end - start);
+  const firstDuration = Math.round(session.duration * share);
+  const firstPaused = Math.round((session.pausedDuration ?? 0) * share);
+
+  const build = (id: string, from: number, to: number, duration: number, paused: number): Session => {
+    const part: Session = {
+      ...session,
+      id,
+      startTime: new Date(from).toISOString(),
+      endTime: new Date(to).toISOString(),
+      duration,
+      date: new Date(to).toDateString(),
+    };
+    if (paused > 0) part.pausedDuration = paused;
+    else delete part.pausedDuration;
+    return part;
+  };
+
+  const parts = shareSubtasks(shareOvertime([
+    build(session.id, start, at, firstDuration, firstPaused),
+    build(`${session.id}-split-${at}`, at, end, session.duration - firstDuration, (session.pausedDuration ?? 0) - firstPaused),
+  ], session.overtime), session.completedSubtasks);
+  return [parts[0], parts[1]];
+};
+
+/**
+ * Merge two timed sessions into one spanning both, attributed to the earlier one's task.
+ * Durations and overtime add up and completed subtasks are combined;
+ * any gap between them counts as paused time.
+ */
+export const mergeSessions = (a: Session, b: Session): Session | null => {
+  const [first, second] = toMs(a.startTime) <= toMs(b.startTime) ? [a, b] : [b, a];
+  const start = toMs(first.startTime);
+  const end = Math.max(toMs(first.endTime), toMs(second.endTime));
+  if (isNaN(start) || isNaN(end)) return null;
+
+  const duration = first.duration + second.duration;
+  const paused = Math.max(0, Math.round((end - start) / 1000) - duration);
+  const merged: Session = {
+    ...first,
+    startTime: new Date(start).toISOString(),
+    endTime: new Date(end).toISOString(),
+    duration,
+    date: new Date(end).toDateString(),
+  };
+  if (paused > 0) merged.pausedDuration = paused;
+  else delete merged.pausedDuration;
+  const overtime = (first.overtime ?? 0) + (second.overtime ?? 0);
+  if (overtime > 0) merged.overtime = overtime;
+  else delete merged.overtime;
+  const completedSubtasks = [...(first.completedSubtasks ?? []), ...(second.completedSubtasks ?? [])];
+  if (completedSubtasks.length > 0) merged.completedSubtasks = completedSubtasks;
+  else delete merged.completedSubtasks;
+  return merged;
+};
+
+/**
+ * Insert sessions keeping timed sessions in start order; untimed ones go last.
+ */
+export const insertSessionsChronologically = (sessions: Session[], additions: Session[]): Session[] => {
+  const next = [...sessions];
+  additions.forEach(session => {
+    const start = toMs(session.startTime);
+    const index = isNaN(start) ? -1 : next.findIndex(other => toMs(other.startTime) > start);
+    if (index === -1) next.push(session);
+    else next.splice(index, 0, session);
+  });
+  return next;
+};
+
+/**
+ * Worked seconds per task across all work sessions
+ */
+export const getTaskTimeTotals = (sessions: Session[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+  sessions.filter(isWorkSession).forEach(session => {
+    if (session.taskId) totals.set(session.taskId, (totals.get(session.taskId) || 0) + session.duration);
+  });
+  return totals;
+};
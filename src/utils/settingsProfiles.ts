@@ -0,0 +1,50 @@
+/**
+ * Settings profiles
+ * A profile bundles the timer mode, break rules, notification sound and accent color
+ * (PROFILE_SETTING_KEYS). Applying one copies those fields into Settings; nothing
+ * records which profile is "on" - the active profile is the one that matches the
+ * current settings, so editing a field by hand simply leaves every profile.
+ */
+
+import type { Settings, SettingsProfile } from '../App';
+import { PROFILE_SETTING_KEYS } from './settingsSchema';
+
+/**
+ * The profile fields of the current settings, e.g. to save them as a profile
+ */
+export const captureProfileSettings = (settings: Settings): SettingsProfile['settings'] =>
+  PROFILE_SETTING_KEYS.reduce(
+    (captured, key) => ({ ...captured, [key]: settings[key] }),
+    {} as SettingsProfile['settings']
+  );
+
+/**
+ * First profile whose fields all equal the current settings, or null.
+ * Compared as JSON because some fields (break tiers) are arrays.
+ */
+export const findActiveProfile = (settings: Settings): SettingsProfile | null =>
+  settings.profiles.find(profile =>
+    PROFILE_SETTING_KEYS.every(key => JSON.stringify(profile.settings[key]) === JSON.stringify(settings[key]))
+  ) ?? null;
+
+export const createProfile = (name: string, settings: Settings): SettingsProfile => ({
+  id: Date.now().toString(),
+  name,
+  settings: captureProfileSettings(settings)
+});
+
+/**
+ * Short summary of what a profile sets: "Pomodoro 50/10", "Pomodoro · 6 steps", "Flow · 20% breaks", "Timer"
+ */
+export const describeProfile = (profile: SettingsProfile): string => {
+  const s = profile.settings;
+  if (s.timerMode === 'pomodoro' && s.pomodoroSequenceEnabled) return `Pomodoro · ${s.pomodoroSequence.length} steps`;
+  if (s.timerMode === 'pomodoro') return `Pomodoro ${s.pomodoroWorkDuration}/${s.pomodoroBreakDuration}`;
+  if (s.timerMode === 'timer' && s.timerCountdownEnabled) {
+    return s.timerCountdownSource === 'goal' ? 'Countdown · task goal' : `Countdown · ${s.timerCountdownMinutes} min`;
+  }
+  if (s.timerMode === 'timer') return 'Timer';
+  if (!s.flowBreakEnabled) return 'Flow · no breaks';
+  if (s.flowBreakType === 'tiered') return 'Flow · tiered breaks';
+  return s.flowBreakType === 'fixed' ? `Flow · ${s.flowBreakFixed} min breaks` : `Flow · ${s.flowBreakPercentage}% breaks`;
+};
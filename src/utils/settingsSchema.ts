@@ -0,0 +1,310 @@
+/**
+ * Settings schema
+ * 'flow-settings' is versioned so older or damaged entries are upgraded instead of
+ * breaking the app. On load, normalizeSettings():
+ * 1. replaces anything that is not an object with DEFAULT_SETTINGS
+ * 2. runs SETTINGS_MIGRATIONS in order, from the stored version up to SETTINGS_VERSION
+ *    (entries without a version are version 1)
+ * 3. validates every field; missing or invalid values fall back to DEFAULT_SETTINGS
+ *
+ * Adding a setting: add it to Settings, DEFAULT_SETTINGS and SETTINGS_VALIDATORS.
+ * Renaming or reshaping one: bump SETTINGS_VERSION and add a migration from the previous version.
+ */
+
+import type { Settings, SettingsProfile, ProfileSettingKey, FlowBreakTier, PomodoroStep } from '../App';
+import { STORAGE_KEYS } from './constants';
+import { isShortcutAction } from './shortcuts';
+
+export const SETTINGS_VERSION = 2;
+
+export const PROFILE_SETTING_KEYS: ProfileSettingKey[] = [
+  'timerMode',
+  'timerCountdownEnabled',
+  'timerCountdownSource',
+  'timerCountdownMinutes',
+  'timerOvertimeEnabled',
+  'flowBreakEnabled',
+  'flowBreakType',
+  'flowBreakPercentage',
+  'flowBreakFixed',
+  'flowBreakTiers',
+  'flowBreakTierFallback',
+  'flowBreakMinMinutes',
+  'flowBreakMaxMinutes',
+  'flowBreakBankUnused',
+  'flowBreakSkipEnabled',
+  'pomodoroWorkDuration',
+  'pomodoroBreakDuration',
+  'pomodoroSessions',
+  'pomodoroLongBreakDuration',
+  'pomodoroLongBreakInterval',
+  'pomodoroSequenceEnabled',
+  'pomodoroSequence',
+  'notificationSound',
+  'accentColor'
+];
+
+/** Tiered Flow breaks: under 25 min -> 5 min, under 50 min -> 8 min, longer -> flowBreakTierFallback */
+const DEFAULT_BREAK_TIERS: FlowBreakTier[] = [
+  { underMinutes: 25, breakMinutes: 5 },
+  { underMinutes: 50, breakMinutes: 8 }
+];
+
+/** Custom Pomodoro sequence: two short Pomodoros, then a long one followed by a long break */
+const DEFAULT_POMODORO_SEQUENCE: PomodoroStep[] = [
+  { kind: 'work', minutes: 25 },
+  { kind: 'break', minutes: 5 },
+  { kind: 'work', minutes: 25 },
+  { kind: 'break', minutes: 5 },
+  { kind: 'work', minutes: 50 },
+  { kind: 'long-break', minutes: 15 }
+];
+
+/** Profile fields at their defaults; built-in profiles override what they are about */
+const BASE_PROFILE_SETTINGS: SettingsProfile['settings'] = {
+  timerMode: 'flow',
+  timerCountdownEnabled: false,
+  timerCountdownSource: 'fixed',
+  timerCountdownMinutes: 30,
+  timerOvertimeEnabled: true,
+  flowBreakEnabled: true,
+  flowBreakType: 'percentage',
+  flowBreakPercentage: 20,
+  flowBreakFixed: 10,
+  flowBreakTiers: DEFAULT_BREAK_TIERS,
+  flowBreakTierFallback: 15,
+  flowBreakMinMinutes: 0,
+  flowBreakMaxMinutes: 0,
+  flowBreakBankUnused: false,
+  flowBreakSkipEnabled: true,
+  pomodoroWorkDuration: 25,
+  pomodoroBreakDuration: 5,
+  pomodoroSessions: 4,
+  pomodoroLongBreakDuration: 15,
+  pomodoroLongBreakInterval: 4,
+  pomodoroSequenceEnabled: false,
+  pomodoroSequence: DEFAULT_POMODORO_SEQUENCE,
+  notificationSound: 'default',
+  accentColor: 'blue-500'
+};
+
+export const DEFAULT_PROFILES: SettingsProfile[] = [
+  {
+    id: 'deep-work',
+    name: 'Deep Work',
+    settings: {
+      ...BASE_PROFILE_SETTINGS,
+      timerMode: 'pomodoro',
+      pomodoroWorkDuration: 50,
+      pomodoroBreakDuration: 10,
+      pomodoroLongBreakDuration: 20,
+      notificationSound: 'bell',
+      accentColor: 'indigo-500'
+    }
+  },
+  {
+    id: 'study',
+    name: 'Study',
+    settings: { ...BASE_PROFILE_SETTINGS, notificationSound: 'chime', accentColor: 'emerald-500' }
+  },
+  {
+    id: 'meeting',
+    name: 'Meeting',
+    settings: { ...BASE_PROFILE_SETTINGS, timerMode: 'timer', flowBreakEnabled: false, notificationSound: 'ding', accentColor: 'amber-500' }
+  }
+];
+
+export const DEFAULT_SETTINGS: Settings = {
+  version: SETTINGS_VERSION,
+  visualNotifications: true,
+  audioNotifications: true,
+  soundVolume: 0.5,
+  notificationSound: 'default',
+  theme: 'light',
+  accentColor: 'blue-500',
+  flatMode: false,
+  colorTimer: false,
+  showTasks: true,
+  requireTaskSelection: true,
+  showMusicPlayer: true,
+  lightBg: 'gray-200',
+  darkBg: 'gray-700',
+  layout: 'compact',
+  // Timer mode defaults
+  timerMode: 'flow',
+  timerCountdownEnabled: false,
+  timerCountdownSource: 'fixed',
+  timerCountdownMinutes: 30,
+  timerOvertimeEnabled: true,
+  // Flow mode defaults
+  flowBreakEnabled: true,
+  flowBreakType: 'percentage',
+  flowBreakPercentage: 20,
+  flowBreakFixed: 10,
+  flowBreakTiers: DEFAULT_BREAK_TIERS,
+  flowBreakTierFallback: 15,
+  flowBreakMinMinutes: 0,
+  flowBreakMaxMinutes: 0,
+  flowBreakBankUnused: false,
+  flowBreakSkipEnabled: true,
+  // Pomodoro mode defaults
+  pomodoroWorkDuration: 25,
+  pomodoroBreakDuration: 5,
+  pomodoroSessions: 4,
+  pomodoroLongBreakDuration: 15,
+  pomodoroLongBreakInterval: 4,
+  pomodoroSequenceEnabled: false,
+  pomodoroSequence: DEFAULT_POMODORO_SEQUENCE,
+  profiles: DEFAULT_PROFILES,
+  shortcuts: {}
+};
+
+type RawSettings = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawSettings =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+const isNonEmptyString = (value: unknown) => typeof value === 'string' && value.length > 0;
+const oneOf = (...allowed: unknown[]) => (value: unknown) => allowed.includes(value);
+const integerBetween = (min: number, max: number) => (value: unknown) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+export const MAX_BREAK_TIERS = 6;
+
+const isBreakTier = (value: unknown) =>
+  isRecord(value) && integerBetween(1, 600)(value.underMinutes) && integerBetween(1, 120)(value.breakMinutes);
+
+export const MAX_POMODORO_STEPS = 20;
+export const MAX_STEP_LABEL_LENGTH = 40;
+
+const isPomodoroStep = (value: unknown) =>
+  isRecord(value) &&
+  oneOf('work', 'break', 'long-break')(value.kind) &&
+  integerBetween(1, 180)(value.minutes) &&
+  (value.label === undefined || (typeof value.label === 'string' && value.label.length <= MAX_STEP_LABEL_LENGTH)) &&
+  (value.sound === undefined || isNonEmptyString(value.sound));
+
+/** Fields inside a profile are checked (and repaired) separately, see sanitizeProfile */
+const isProfileLike = (value: unknown) =>
+  isRecord(value) && isNonEmptyString(value.id) && isNonEmptyString(value.name) && isRecord(value.settings);
+
+/**
+ * One check per setting; ranges match what SettingsPanel offers.
+ * Backgrounds and accents also accept custom keys from the color system.
+ */
+const SETTINGS_VALIDATORS: { [K in keyof Settings]: (value: unknown) => boolean } = {
+  version: integerBetween(1, Number.MAX_SAFE_INTEGER),
+  visualNotifications: isBoolean,
+  audioNotifications: isBoolean,
+  soundVolume: value => typeof value === 'number' && value >= 0 && value <= 1,
+  notificationSound: isNonEmptyString,
+  theme: oneOf('light', 'dark'),
+  accentColor: isNonEmptyString,
+  flatMode: isBoolean,
+  colorTimer: isBoolean,
+  showTasks: isBoolean,
+  requireTaskSelection: isBoolean,
+  showMusicPlayer: isBoolean,
+  lightBg: isNonEmptyString,
+  darkBg: isNonEmptyString,
+  layout: oneOf('compact', 'full'),
+  timerMode: oneOf('flow', 'pomodoro', 'timer'),
+  timerCountdownEnabled: isBoolean,
+  timerCountdownSource: oneOf('fixed', 'goal'),
+  timerCountdownMinutes: integerBetween(1, 600),
+  timerOvertimeEnabled: isBoolean,
+  flowBreakEnabled: isBoolean,
+  flowBreakType: oneOf('percentage', 'fixed', 'tiered'),
+  flowBreakPercentage: integerBetween(1, 100),
+  flowBreakFixed: oneOf(5, 10, 20, 30),
+  flowBreakTiers: value => Array.isArray(value) && value.length <= MAX_BREAK_TIERS && value.every(isBreakTier),
+  flowBreakTierFallback: integerBetween(1, 120),
+  flowBreakMinMinutes: integerBetween(0, 120),
+  flowBreakMaxMinutes: integerBetween(0, 120),
+  flowBreakBankUnused: isBoolean,
+  flowBreakSkipEnabled: isBoolean,
+  pomodoroWorkDuration: integerBetween(1, 60),
+  pomodoroBreakDuration: integerBetween(1, 30),
+  pomodoroSessions: integerBetween(1, 8),
+  pomodoroLongBreakDuration: integerBetween(1, 60),
+  pomodoroLongBreakInterval: integerBetween(1, 8),
+  pomodoroSequenceEnabled: isBoolean,
+  // A sequence starts with work: starting the timer always starts a work session
+  pomodoroSequence: value =>
+    Array.isArray(value) &&
+    value.length >= 1 &&
+    value.length <= MAX_POMODORO_STEPS &&
+    value.every(isPomodoroStep) &&
+    value[0].kind === 'work',
+  profiles: value => Array.isArray(value) && value.every(isProfileLike),
+  shortcuts: value =>
+    isRecord(value) &&
+    Object.entries(value).every(([action, binding]) => isShortcutAction(action) && typeof binding === 'string')
+};
+
+/** Legacy 'horizontal'/'vertical' layouts are the current 'compact'/'full' */
+const normalizeLayout = (value: unknown): unknown =>
+  value === 'horizontal' ? 'compact' : value === 'vertical' ? 'full' : value;
+
+const readLegacyLayout = (): unknown => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEYS.LAYOUT);
+    return raw ? JSON.parse(raw) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Migrations keyed by the version they upgrade from; each returns the entry at version + 1.
+ * They receive unvalidated data and must not assume any field is present or well-typed.
+ */
+const SETTINGS_MIGRATIONS: Record<number, (settings: RawSettings) => RawSettings> = {
+  // v1 -> v2: the layout moves from its own 'flow-layout' key into the settings
+  1: settings => ({
+    ...settings,
+    layout: normalizeLayout(settings.layout ?? readLegacyLayout())
+  })
+};
+
+/** Profile fields that are missing or invalid fall back to the defaults, like top-level settings */
+const sanitizeProfile = (profile: SettingsProfile): SettingsProfile => {
+  const stored = profile.settings as RawSettings;
+  const settings = { ...BASE_PROFILE_SETTINGS };
+  PROFILE_SETTING_KEYS.forEach(key => {
+    if (SETTINGS_VALIDATORS[key](stored[key])) (settings as RawSettings)[key] = stored[key];
+  });
+  return { id: profile.id, name: profile.name, settings };
+};
+
+const readVersion = (settings: RawSettings): number =>
+  SETTINGS_VALIDATORS.version(settings.version) ? (settings.version as number) : 1;
+
+/**
+ * Any stored value (parsed JSON, possibly null, outdated or corrupted) -> complete, valid Settings
+ */
+export const normalizeSettings = (stored: unknown): Settings => {
+  let raw: RawSettings = isRecord(stored) ? stored : {};
+
+  for (let version = readVersion(raw); version < SETTINGS_VERSION; version++) {
+    const migrate = SETTINGS_MIGRATIONS[version];
+    try {
+      if (migrate) raw = migrate(raw);
+    } catch (error) {
+      // Keep what we have; validation below still yields usable settings
+      console.error(`Error migrating settings from version ${version}:`, error);
+    }
+  }
+
+  const settings = { ...DEFAULT_SETTINGS };
+  (Object.keys(DEFAULT_SETTINGS) as (keyof Settings)[]).forEach(key => {
+    if (key in raw && SETTINGS_VALIDATORS[key](raw[key])) {
+      (settings as RawSettings)[key] = raw[key];
+    }
+  });
+  settings.profiles = settings.profiles.map(sanitizeProfile);
+  // Entries written by a newer FLOW keep their version so they are not migrated twice
+  settings.version = Math.max(readVersion(raw), SETTINGS_VERSION);
+  return settings;
+};
@@ -0,0 +1,141 @@
+/**
+ * Keyboard shortcuts
+ * Registry of the app-wide shortcut actions and their bindings. A binding is a string
+ * like "Space", "Shift+R" or "Ctrl+Alt+H": modifiers in the order Ctrl, Alt, Shift, Meta,
+ * then the key (letters upper-case). Shift is left out for symbols it produces itself,
+ * so "?" rather than "Shift+?".
+ *
+ * settings.shortcuts only stores what the user changed; resolveShortcuts() fills in the
+ * defaults, so actions added later get their default binding. An empty string unbinds.
+ */
+
+import type { Settings } from '../App';
+
+export type ShortcutAction =
+  | 'startStop'
+  | 'skipBreak'
+  | 'reset'
+  | 'nextTask'
+  | 'previousTask'
+  | 'toggleWidget'
+  | 'openHistory'
+  | 'toggleMusic'
+  | 'commandPalette'
+  | 'showShortcuts';
+
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+/** Actions in the order the settings and the cheat sheet list them */
+export const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string }[] = [
+  { action: 'startStop', label: 'Start / stop timer' },
+  { action: 'skipBreak', label: 'Skip break' },
+  { action: 'reset', label: 'Reset timer' },
+  { action: 'nextTask', label: 'Next task' },
+  { action: 'previousTask', label: 'Previous task' },
+  { action: 'toggleWidget', label: 'Toggle widget mode' },
+  { action: 'openHistory', label: 'Open history' },
+  { action: 'toggleMusic', label: 'Play / pause music' },
+  { action: 'commandPalette', label: 'Command palette' },
+  { action: 'showShortcuts', label: 'Show shortcuts' }
+];
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  startStop: 'Space',
+  skipBreak: 'S',
+  reset: 'R',
+  nextTask: 'J',
+  previousTask: 'K',
+  toggleWidget: 'W',
+  openHistory: 'H',
+  toggleMusic: 'M',
+  commandPalette: 'Ctrl+K',
+  showShortcuts: '?'
+};
+
+/** Taken by the browser or by focus and dialog handling; cannot be bound */
+export const RESERVED_BINDINGS = [
+  'Tab', 'Shift+Tab', 'Enter', 'Escape',
+  'Ctrl+W', 'Ctrl+T', 'Ctrl+N', 'Ctrl+R', 'Ctrl+L', 'Ctrl+Q', 'F5'
+];
+
+export const isShortcutAction = (value: string): value is ShortcutAction =>
+  SHORTCUT_ACTIONS.some(entry => entry.action === value);
+
+export const resolveShortcuts = (settings: Settings): ShortcutBindings => ({
+  ...DEFAULT_SHORTCUTS,
+  ...settings.shortcuts
+});
+
+const MODIFIER_KEYS = ['Control', 'Alt', 'Shift', 'Meta'];
+
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  Spacebar: 'Space',
+  Esc: 'Escape'
+};
+
+/**
+ * Binding string for a key press, or null while only modifiers are held
+ */
+export const eventToBinding = (event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>): string | null => {
+  if (!event.key || MODIFIER_KEYS.includes(event.key)) return null;
+
+  const raw = KEY_NAMES[event.key] ?? event.key;
+  const key = raw.length === 1 ? raw.toUpperCase() : raw;
+  // Shift is part of symbols like "?" already; for letters and named keys it is a modifier
+  const isShiftedSymbol = raw.length === 1 && raw.toLowerCase() === raw.toUpperCase() && !/[0-9]/.test(raw);
+
+  return [
+    event.ctrlKey ? 'Ctrl' : '',
+    event.altKey ? 'Alt' : '',
+    event.shiftKey && !isShiftedSymbol ? 'Shift' : '',
+    event.metaKey ? 'Meta' : '',
+    key
+  ].filter(Boolean).join('+');
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→'
+};
+
+/** Binding as shown to the user, e.g. "Shift + ↓" */
+export const formatBinding = (binding: string): string =>
+  binding ? binding.split('+').map(part => KEY_LABELS[part] ?? part).join(' + ') : 'Not set';
+
+/**
+ * Actions whose binding is shared with another action or reserved.
+ * Conflicting bindings do nothing until they are resolved.
+ */
+export const findConflicts = (bindings: ShortcutBindings): Set<ShortcutAction> => {
+  const conflicts = new Set<ShortcutAction>();
+  SHORTCUT_ACTIONS.forEach(({ action }) => {
+    const binding = bindings[action];
+    if (!binding) return;
+    const shared = SHORTCUT_ACTIONS.some(other => other.action !== action && bindings[other.action] === binding);
+    if (shared || RESERVED_BINDINGS.includes(binding)) conflicts.add(action);
+  });
+  return conflicts;
+};
+
+/**
+ * Why `binding` cannot be used for `action`, or null when it is free
+ */
+export const getBindingConflict = (bindings: ShortcutBindings, action: ShortcutAction, binding: string): string | null => {
+  if (RESERVED_BINDINGS.includes(binding)) return `${formatBinding(binding)} is reserved by the browser`;
+  const other = SHORTCUT_ACTIONS.find(entry => entry.action !== action && bindings[entry.action] === binding);
+  return other ? `${formatBinding(binding)} is already used for "${other.label}"` : null;
+};
+
+/** True while the user is typing: key presses there belong to the field, not to shortcuts */
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  if (target instanceof HTMLInputElement) {
+    return !['checkbox', 'radio', 'button', 'submit', 'reset', 'range', 'color', 'file'].includes(target.type);
+  }
+  return false;
+};
@@ -0,0 +1,121 @@
+/**
+ * Storage health
+ * Measures how much of the localStorage quota each FLOW entry uses and reports failed
+ * writes, so running out of space is announced instead of silently losing data.
+ *
+ * - measureLocalStorage(): bytes per STORAGE_KEYS entry, everything else, and the share of the quota
+ * - estimateOriginStorage(): IndexedDB + localStorage usage as reported by the browser
+ * - reportStorageWriteError(): called by every writer when setItem (or an IndexedDB write) fails;
+ *   dispatches STORAGE_WRITE_ERROR_EVENT on window for the StorageHealthMonitor
+ */
+
+import { STORAGE_KEYS } from './constants';
+
+/** localStorage has no quota API; browsers allow about 5 MB per origin */
+export const LOCAL_STORAGE_QUOTA_BYTES = 5 * 1024 * 1024;
+
+/** Share of the quota at which usage is announced */
+export const STORAGE_WARNING_RATIO = 0.8;
+export const STORAGE_CRITICAL_RATIO = 0.95;
+
+export const STORAGE_WRITE_ERROR_EVENT = 'flow-storage-write-error';
+
+export interface StorageEntryUsage {
+  key: string;
+  bytes: number;
+}
+
+export interface LocalStorageUsage {
+  /** FLOW entries, largest first */
+  entries: StorageEntryUsage[];
+  /** Entries not owned by FLOW (other apps on the same origin, leader lease, ...) */
+  otherBytes: number;
+  totalBytes: number;
+  quotaBytes: number;
+  /** totalBytes / quotaBytes */
+  ratio: number;
+}
+
+export interface StorageWriteErrorDetail {
+  key: string;
+  /** True when the browser refused the write for lack of space */
+  quotaExceeded: boolean;
+  message: string;
+}
+
+/** Strings are stored as UTF-16: two bytes per code unit, for the key and the value */
+const entryBytes = (key: string, value: string) => (key.length + value.length) * 2;
+
+export const measureLocalStorage = (): LocalStorageUsage => {
+  const flowKeys = new Set<string>(Object.values(STORAGE_KEYS));
+  const entries: StorageEntryUsage[] = [];
+  let otherBytes = 0;
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key === null) continue;
+    const bytes = entryBytes(key, localStorage.getItem(key) ?? '');
+    if (flowKeys.has(key)) entries.push({ key, bytes });
+    else otherBytes += bytes;
+  }
+
+  entries.sort((a, b) => b.bytes - a.bytes);
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.bytes, otherBytes);
+  return {
+    entries,
+    otherBytes,
+    totalBytes,
+    quotaBytes: LOCAL_STORAGE_QUOTA_BYTES,
+    ratio: totalBytes / LOCAL_STORAGE_QUOTA_BYTES
+  };
+};
+
+/**
+ * Origin-wide usage (IndexedDB sessions included) where the browser reports it
+ */
+export const estimateOriginStorage = async (): Promise<{ usage: number; quota: number } | null> => {
+  try {
+    if (!navigator.storage?.estimate) return null;
+    const { usage, quota } = await navigator.storage.estimate();
+    return typeof usage === 'number' && typeof quota === 'number' && quota > 0 ? { usage, quota } : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isQuotaExceededError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED' || error.code === 22);
+
+/**
+ * Log a failed write and announce it to the app
+ */
+export const reportStorageWriteError = (key: string, error: unknown): void => {
+  console.error(`Error writing storage key "${key}":`, error);
+  const detail: StorageWriteErrorDetail = {
+    key,
+    quotaExceeded: isQuotaExceededError(error),
+    message: error instanceof Error ? error.message : String(error)
+  };
+  window.dispatchEvent(new CustomEvent(STORAGE_WRITE_ERROR_EVENT, { detail }));
+};
+
+/**
+ * localStorage.setItem that reports failures instead of throwing; returns whether it succeeded
+ */
+export const safeSetItem = (key: string, value: string): boolean => {
+  try {
+    localStorage.setItem(key, value);
+    return true;
+  } catch (error) {
+    reportStorageWriteError(key, error);
+    return false;
+  }
+};
+
+/** "1.2 MB" / "340 KB" */
+export const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+};
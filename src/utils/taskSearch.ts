@@ -0,0 +1,131 @@
+/**
+ * Task search
+ * Matching and ranking shared by the task suggestions in TaskManager and the command palette.
+ *
+ * Matching is by word start: "in" finds "Integrate API" but not "maintain". A query of
+ * several words matches when each of them starts a word, in any order. Longer query words
+ * may contain typos (see allowedTypos): "intergate" still finds "Integrate API".
+ * Ranking adds how often, how recently and at what time of day a name was worked on
+ * (work sessions by taskName).
+ */
+
+import type { Session } from '../App';
+import { isWorkSession } from './sessionUtils';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** True when `query` starts a word of `text` (case-insensitive) */
+export const matchesWordStart = (text: string, query: string): boolean =>
+  new RegExp(`\\b${escapeRegExp(query)}`, 'i').test(text);
+
+/** Typos tolerated in a query word: none below 4 letters, one up to 7, two beyond */
+const allowedTypos = (term: string) => (term.length < 4 ? 0 : term.length < 8 ? 1 : 2);
+
+/**
+ * Edits (insert, delete, substitute, swap two neighbours) turning `term` into the closest prefix of `word`
+ */
+const prefixDistance = (term: string, word: string): number => {
+  const rows: number[][] = [Array.from({ length: word.length + 1 }, (_, j) => j)];
+  for (let i = 1; i <= term.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= word.length; j++) {
+      const cost = term[i - 1] === word[j - 1] ? 0 : 1;
+      row[j] = Math.min(rows[i - 1][j] + 1, row[j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && term[i - 1] === word[j - 2] && term[i - 2] === word[j - 1]) {
+        row[j] = Math.min(row[j], rows[i - 2][j - 2] + 1);
+      }
+    }
+    rows.push(row);
+  }
+  return Math.min(...rows[term.length]);
+};
+
+/** True when `term` starts a word of `text`, allowing for typos in longer terms */
+const matchesWordStartLoosely = (text: string, term: string): boolean => {
+  if (matchesWordStart(text, term)) return true;
+  const typos = allowedTypos(term);
+  if (typos === 0) return false;
+  const lowerTerm = term.toLowerCase();
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).some(word => word && prefixDistance(lowerTerm, word) <= typos);
+};
+
+/**
+ * How well `text` matches `query`, or null when it does not:
+ * 3 = text starts with the query, 2 = the query starts a word, 1 = every query word starts some word,
+ * 0.5 = the same with typos. An empty query matches everything with 0.
+ */
+export const matchScore = (text: string, query: string): number | null => {
+  const trimmed = query.trim();
+  if (!trimmed) return 0;
+  if (text.toLowerCase().startsWith(trimmed.toLowerCase())) return 3;
+  if (matchesWordStart(text, trimmed)) return 2;
+  const terms = trimmed.split(/\s+/);
+  if (terms.every(term => matchesWordStart(text, term))) return 1;
+  return terms.every(term => matchesWordStartLoosely(text, term)) ? 0.5 : null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** "Recently" for TaskUsage.recentSeconds */
+export const RECENT_USAGE_DAYS = 7;
+
+export interface TaskUsage {
+  /** Work sessions recorded under the name */
+  count: number;
+  /** Start of the latest one (ms epoch) */
+  lastUsed: number;
+  /** Seconds worked in the last RECENT_USAGE_DAYS days */
+  recentSeconds: number;
+  /** Sessions per local start hour (24 entries) */
+  hours: number[];
+}
+
+/**
+ * Usage per task name (lower-cased) from the work sessions
+ */
+export const getTaskUsage = (sessions: Session[], now = Date.now()): Map<string, TaskUsage> => {
+  const usage = new Map<string, TaskUsage>();
+  const recentSince = now - RECENT_USAGE_DAYS * DAY_MS;
+  sessions.forEach(session => {
+    if (!isWorkSession(session) || !session.taskName) return;
+    const key = session.taskName.toLowerCase();
+    // Legacy sessions without startTime count from the start of their day
+    const started = Date.parse(session.startTime ?? session.date) || 0;
+    const entry = usage.get(key) ?? { count: 0, lastUsed: 0, recentSeconds: 0, hours: new Array(24).fill(0) };
+    entry.count += 1;
+    entry.lastUsed = Math.max(entry.lastUsed, started);
+    if (started >= recentSince) entry.recentSeconds += session.duration;
+    if (session.startTime) entry.hours[new Date(started).getHours()] += 1;
+    usage.set(key, entry);
+  });
+  return usage;
+};
+
+/** The recency part of usageScore halves every week */
+const RECENCY_HALF_LIFE_MS = 7 * DAY_MS;
+
+/**
+ * Frequency (log of the session count), plus recency (2 when used just now, fading by half
+ * every week), plus time of day (up to 1.5 for the share of sessions started within an hour
+ * of the current hour)
+ */
+export const usageScore = (usage: TaskUsage | undefined, now = Date.now()): number => {
+  if (!usage) return 0;
+  const age = Math.max(0, now - usage.lastUsed);
+  const hour = new Date(now).getHours();
+  const nearby = usage.hours[(hour + 23) % 24] + usage.hours[hour] + usage.hours[(hour + 1) % 24];
+  return Math.log2(1 + usage.count) + 2 * 0.5 ** (age / RECENCY_HALF_LIFE_MS) + 1.5 * nearby / usage.count;
+};
+
+/**
+ * Names matching `query`, best first: match quality plus usageScore; ties keep the given order
+ */
+export const rankTaskNames = (names: string[], query: string, usage: Map<string, TaskUsage>, now = Date.now()): string[] =>
+  names
+    .map(name => {
+      const match = matchScore(name, query);
+      return match === null ? null : { name, score: match + usageScore(usage.get(name.toLowerCase()), now) };
+    })
+    .filter((entry): entry is { name: string; score: number } => entry !== null)
+    .sort((a, b) => b.score - a.score)
+    .map(entry => entry.name);
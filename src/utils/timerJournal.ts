@@ -0,0 +1,204 @@
+/**
+ * Timer journal
+ * Write-ahead log of timer transitions, kept next to 'flow-timer-state'.
+ * Every transition is appended synchronously *before* the timer state changes,
+ * and a heartbeat records when the app was last seen running. After a crash
+ * (or a lost timer state) the journal is enough to rebuild the unfinished work session.
+ */
+
+import type { Session, SessionKind } from '../App';
+import { STORAGE_KEYS } from './constants';
+import { reportStorageWriteError } from './storageHealth';
+
+export type JournalEntryType =
+  | 'start'        // a work session began
+  | 'pause'
+  | 'resume'
+  | 'stop'         // work stopped by the user and recorded
+  | 'complete'     // Pomodoro work or a countdown ran to completion and was recorded
+  | 'break-start'
+  | 'break-end'
+  | 'skip'         // break skipped
+  | 'reset'        // timer reset; the running work was discarded on purpose
+  | 'resolve';     // a recovery prompt was answered
+
+export interface JournalEntry {
+  type: JournalEntryType;
+  /** ms timestamp of the transition */
+  at: number;
+  /** Id the work session is (or would be) recorded under */
+  recordId?: string;
+  /** Timer state sessionId the entry belongs to */
+  sessionId?: string;
+  mode?: 'flow' | 'pomodoro' | 'timer';
+  taskId?: string;
+  taskName?: string;
+  /** Pomodoro work length in seconds */
+  workDuration?: number;
+}
+
+export interface TimerJournal {
+  entries: JournalEntry[];
+  /** ms timestamp of the last heartbeat while work was running */
+  lastSeen: number;
+}
+
+/** Work session rebuilt from the journal, waiting for the user to keep, trim or discard it */
+export interface RecoveredSession {
+  recordId: string;
+  /** Timer state sessionId the work belonged to */
+  sessionId: string;
+  mode: 'flow' | 'pomodoro' | 'timer';
+  taskId: string;
+  taskName: string;
+  startedAt: number;
+  /** When the app was last seen running this session (or the pause/stop time) */
+  lastSeenAt: number;
+  /** Paused ms between start and lastSeenAt */
+  pausedMs: number;
+  /** True when the session was stopped but never made it into history */
+  stopped: boolean;
+  workDuration?: number;
+}
+
+/** Older entries are dropped; only the latest work session matters for recovery */
+const MAX_ENTRIES = 50;
+
+/** A running session not seen for longer than this is treated as interrupted */
+export const RECOVERY_GAP_MS = 5 * 60 * 1000;
+
+/** How often a running work session refreshes lastSeen */
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+export const readJournal = (): TimerJournal => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEYS.TIMER_JOURNAL);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (parsed && Array.isArray(parsed.entries)) {
+      return { entries: parsed.entries, lastSeen: typeof parsed.lastSeen === 'number' ? parsed.lastSeen : 0 };
+    }
+  } catch {
+    // A corrupt journal is treated as empty
+  }
+  return { entries: [], lastSeen: 0 };
+};
+
+const writeJournal = (journal: TimerJournal) => {
+  try {
+    localStorage.setItem(STORAGE_KEYS.TIMER_JOURNAL, JSON.stringify(journal));
+  } catch (error) {
+    reportStorageWriteError(STORAGE_KEYS.TIMER_JOURNAL, error);
+  }
+};
+
+/**
+ * Append a transition synchronously (no idle batching: it must land before a crash can)
+ */
+export const appendJournalEntry = (entry: JournalEntry): void => {
+  const journal = readJournal();
+  const entries = [...journal.entries, entry].slice(-MAX_ENTRIES);
+  writeJournal({ entries, lastSeen: Math.max(journal.lastSeen, entry.at) });
+};
+
+/**
+ * Heartbeat: record that the app is alive
+ */
+export const touchJournal = (at: number = Date.now()): void => {
+  const journal = readJournal();
+  writeJournal({ ...journal, lastSeen: Math.max(journal.lastSeen, at) });
+};
+
+/** Saved timer state fields needed to tell whether it still holds the session */
+interface SavedTimerState {
+  sessionId?: string;
+  isRunning?: boolean;
+  isPaused?: boolean;
+  isBreak?: boolean;
+}
+
+/**
+ * findUnfinishedSession()
+ * Rebuild the latest work session when it was cut short:
+ * - stopped or completed, but its session is missing from history (crash before the write landed)
+ * - still open, but the timer state no longer holds it (lost or reset state)
+ * - still open and running, but the app was gone for longer than RECOVERY_GAP_MS
+ * A paused session, or one resumed after a quick reload, is left to the timer.
+ */
+export const findUnfinishedSession = (
+  journal: TimerJournal,
+  savedState: SavedTimerState | null,
+  sessions: Session[],
+  now: number = Date.now()
+): RecoveredSession | null => {
+  const startIndex = journal.entries.map(e => e.type).lastIndexOf('start');
+  if (startIndex === -1) return null;
+
+  const start = journal.entries[startIndex];
+  if (!start.recordId) return null;
+
+  let pausedMs = 0;
+  let pausedAt: number | null = null;
+  let closing: JournalEntry | null = null;
+  let lastAt = start.at;
+
+  for (const entry of journal.entries.slice(startIndex + 1)) {
+    if (entry.type === 'pause') {
+      pausedAt = entry.at;
+    } else if (entry.type === 'resume') {
+      if (pausedAt !== null) pausedMs += Math.max(0, entry.at - pausedAt);
+      pausedAt = null;
+    } else if (['stop', 'complete', 'reset'].includes(entry.type) || (entry.type === 'resolve' && entry.recordId === start.recordId)) {
+      closing = entry;
+      break;
+    }
+    lastAt = Math.max(lastAt, entry.at);
+  }
+
+  if (closing && (closing.type === 'reset' || closing.type === 'resolve')) return null;
+  if (sessions.some(s => s.id === start.recordId)) return null;
+
+  if (!closing) {
+    const heldByState = !!savedState && savedState.sessionId === start.sessionId &&
+      !savedState.isBreak && (!!savedState.isRunning || !!savedState.isPaused);
+    if (heldByState && (savedState?.isPaused || now - Math.max(journal.lastSeen, lastAt) <= RECOVERY_GAP_MS)) {
+      return null;
+    }
+  }
+
+  const lastSeenAt = closing
+    ? closing.at
+    : pausedAt ?? Math.max(journal.lastSeen, lastAt);
+
+  return {
+    recordId: start.recordId,
+    sessionId: start.sessionId ?? '',
+    mode: start.mode ?? 'flow',
+    taskId: start.taskId ?? '',
+    taskName: start.taskName ?? '',
+    startedAt: start.at,
+    lastSeenAt,
+    pausedMs,
+    stopped: !!closing,
+    workDuration: start.workDuration,
+  };
+};
+
+/**
+ * Worked seconds and session kind for a recovered session ending at `endAt`.
+ * Pomodoro work is capped at its length; shorter Pomodoros count as interrupted.
+ */
+export const getRecoveredWork = (
+  recovered: RecoveredSession,
+  endAt: number
+): { workedSeconds: number; pausedSeconds: number; kind: Extract<SessionKind, 'work' | 'interrupted'> } => {
+  const elapsed = Math.max(0, Math.floor((endAt - recovered.startedAt - recovered.pausedMs) / 1000));
+  const pausedSeconds = Math.floor(recovered.pausedMs / 1000);
+  if (recovered.mode === 'pomodoro' && recovered.workDuration) {
+    return {
+      workedSeconds: Math.min(elapsed, recovered.workDuration),
+      pausedSeconds,
+      kind: elapsed >= recovered.workDuration ? 'work' : 'interrupted',
+    };
+  }
+  return { workedSeconds: elapsed, pausedSeconds, kind: 'work' };
+};